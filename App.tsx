@@ -1,27 +1,43 @@
 
 import React, { useState, useCallback, useEffect } from 'react';
-import { Exercise, WorkoutPlan, SavedWorkoutPlanEntry, User, WorkoutSession } from './types';
+import { Exercise, WorkoutPlan, Program, SavedWorkoutPlanEntry, User, WorkoutSession, WorkoutLog, ProgressionSettings, ScheduledWorkout, UploadQueueItem } from './types';
 import VideoUploadForm from './components/VideoUploadForm';
 import ExerciseGallery from './components/ExerciseGallery';
 import WorkoutPlanDisplay from './components/WorkoutPlanDisplay';
 import LoadingSpinner from './components/LoadingSpinner';
 import SavedPlansList from './components/SavedPlansList';
-import WorkoutLoader from './components/WorkoutLoader';
 import Auth from './components/Auth';
-import PlanGenerationModal from './components/PlanGenerationModal';
+import PlanGenerationModal, { PlanGenerationOptions } from './components/PlanGenerationModal';
 import InteractiveWorkout from './components/InteractiveWorkout';
-import DataBackupRestore from './components/DataBackupRestore';
-import { generateWorkoutPlanWithGemini, analyzeVideoAndExtractExercises } from './services/geminiService';
+import WorkoutHistory from './components/WorkoutHistory';
+import TodayWorkout from './components/TodayWorkout';
+import UploadQueuePanel from './components/UploadQueuePanel';
+import Settings from './components/Settings';
+import { generateWorkoutPlanWithGemini, generateProgramWithGemini, repairWorkoutPlanWithGemini } from './services/geminiService';
 import * as apiService from './services/apiService';
+import { BackendConfig } from './services/apiService';
 import * as videoStorage from './services/videoStorage';
-import { generateVideoHash, generateThumbnail, compressVideo } from './services/videoUtils';
-import { SparklesIcon, VideoCameraIcon, ArrowRightOnRectangleIcon, HomeIcon } from './components/icons';
+import * as autoBackup from './services/autoBackup';
+import * as uploadQueue from './services/uploadQueue';
+import * as aiCache from './services/aiCache';
+import { generateNextWeek } from './services/progression';
+import { mapPlanDays, getPlanForWeek } from './services/program';
+import { isObject, parsePartialPlan } from './services/planStream';
+import { validateWorkoutPlan, formatViolation } from './services/planValidation';
+import { buildSchedule, getActiveEntry, getScheduledDay, getTodayKey, markWorkoutCompleted, rescheduleMissedWorkout } from './services/schedule';
+import { SparklesIcon, VideoCameraIcon, ArrowRightOnRectangleIcon, HomeIcon, ClockIcon, Cog6ToothIcon } from './components/icons';
 
 export interface VideoAnalysisPayload {
     file: File;
+    videoHash?: string; // Content hash, when the upload form already computed it
+    reanalyze?: boolean; // Already in the library, but the user asked for a fresh analysis
+    attachToExerciseIds?: string[]; // Already in the library; attach as another angle instead of analyzing
 }
 
-type AppView = 'home' | 'library' | 'plans' | 'workout' | 'analyzing';
+type AppView = 'home' | 'library' | 'plans' | 'history' | 'settings' | 'workout';
+
+// How many times the model is asked to correct a plan that breaks the requested rules
+const MAX_PLAN_REPAIR_ATTEMPTS = 1;
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
@@ -29,27 +45,40 @@ const App: React.FC = () => {
 
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [workoutPlan, setWorkoutPlan] = useState<WorkoutPlan | null>(null);
+  const [selectedWeekIndex, setSelectedWeekIndex] = useState<number>(0);
 
-  const [isLoadingVideo, setIsLoadingVideo] = useState<boolean>(false);
   const [isLoadingPlan, setIsLoadingPlan] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   const [savedPlanEntries, setSavedPlanEntries] = useState<SavedWorkoutPlanEntry[]>([]);
   const [isLoadingSavedPlans, setIsLoadingSavedPlans] = useState<boolean>(false);
   const [isSavingPlan, setIsSavingPlan] = useState<boolean>(false);
 
+  const [workoutLogs, setWorkoutLogs] = useState<WorkoutLog[]>([]);
+  const [uploadQueueItems, setUploadQueueItems] = useState<UploadQueueItem[]>([]);
+
   const [currentView, setCurrentView] = useState<AppView>('home');
+  const [librarySearch, setLibrarySearch] = useState('');
   const [isPlanOptionsVisible, setPlanOptionsVisible] = useState(false);
   const [activeWorkoutSession, setActiveWorkoutSession] = useState<WorkoutSession | null>(null);
-  const [streamingPlanText, setStreamingPlanText] = useState<string | null>(null);
+  const [streamingPlan, setStreamingPlan] = useState<WorkoutPlan | null>(null); // What has arrived of the plan being generated
+  const [planRepairMessage, setPlanRepairMessage] = useState<string | null>(null);
 
   // Check for logged-in user on mount
   useEffect(() => {
     const user = apiService.getCurrentUser();
     setCurrentUser(user);
     setAuthIsLoading(false);
+    // Accounts without a password are locked out once they log out, so set one first
+    if (user && apiService.needsPassword()) {
+      setCurrentView('settings');
+    }
+  }, []);
+
+  // Sweep expired AI responses once per launch
+  useEffect(() => {
+    aiCache.clearExpiredCache().catch(error => console.warn('Could not clear expired AI cache entries:', error));
   }, []);
 
   // Effect to show temporary success messages
@@ -66,12 +95,14 @@ const App: React.FC = () => {
 
     setError(null);
     try {
-        const [storedExercises, entries] = await Promise.all([
+        const [storedExercises, entries, logs] = await Promise.all([
             apiService.getAllExercises(),
-            apiService.getAllSavedPlanEntries()
+            apiService.getAllSavedPlanEntries(),
+            apiService.getAllWorkoutLogs()
         ]);
         setExercises(storedExercises);
         setSavedPlanEntries(entries);
+        setWorkoutLogs(logs);
     } catch (err) {
         console.error("Failed to load user data:", err);
         setError("Failed to load your account data. Please try again.");
@@ -82,47 +113,64 @@ const App: React.FC = () => {
     loadAllUserData();
   }, [loadAllUserData]);
 
+  // Take automatic backup snapshots while someone is logged in
+  useEffect(() => {
+    if (!currentUser) return;
+    return autoBackup.startAutoBackupScheduler(currentUser.email);
+  }, [currentUser]);
+
+  // Process queued videos in the background; unfinished ones resume at the next login
+  useEffect(() => {
+    if (!currentUser) return;
+    const stopQueue = uploadQueue.startUploadQueue(currentUser.email, async newExercises => {
+      try {
+        setExercises(await apiService.getAllExercises());
+        setSuccessMessage(`${newExercises.length} new exercise(s) identified and added!`);
+      } catch (err) {
+        console.error("Error reloading exercises after upload:", err);
+        setError(`${newExercises.length} new exercise(s) were added, but the gallery could not be refreshed. Reload the app to see them.`);
+      }
+    });
+    const unsubscribe = uploadQueue.subscribeToUploadQueue(setUploadQueueItems);
+    return () => {
+      unsubscribe();
+      stopQueue();
+    };
+  }, [currentUser]);
+
   // --- Auth Handlers ---
   const handleLogin = async (user: User) => {
     setCurrentUser(user);
     await loadAllUserData();
   };
 
-  const handleLogout = async () => {
-    await apiService.logout();
+  const clearUserState = () => {
     setCurrentUser(null);
     setExercises([]);
     setSavedPlanEntries([]);
+    setWorkoutLogs([]);
     setWorkoutPlan(null);
     setActiveWorkoutSession(null);
     setCurrentView('home');
-    setSuccessMessage("You have been logged out.");
   };
 
-  // --- Core App Logic Handlers (adapted for API service) ---
-  const handleVideoAnalyzed = useCallback(async (newlyExtractedExercises: Exercise[]) => {
-    const currentExercises = await apiService.getAllExercises();
-    const uniqueNewExercises = newlyExtractedExercises.filter(newEx =>
-        !currentExercises.some(existingEx =>
-          existingEx.name === newEx.name &&
-          existingEx.videoStorageKey === newEx.videoStorageKey &&
-          existingEx.startTime === newEx.startTime &&
-          existingEx.endTime === newEx.endTime
-        )
-      );
+  const handleLogout = async () => {
+    await apiService.logout();
+    clearUserState();
+    setSuccessMessage("You have been logged out.");
+  };
 
-    if (uniqueNewExercises.length > 0) {
-      const updatedExercises = [...currentExercises, ...uniqueNewExercises];
-      setExercises(updatedExercises);
-      try {
-        await apiService.saveAllExercises(updatedExercises);
-      } catch (apiError) {
-        console.error("Error saving exercises via API:", apiError);
-        setError("Could not save new exercises to your account.");
-      }
-    }
-  }, []);
+  const handleChangeBackend = async (config: BackendConfig) => {
+    // Sign out of the old backend first so a remote session token is revoked
+    await apiService.logout();
+    apiService.setBackendConfig(config);
+    clearUserState();
+    setSuccessMessage(config.type === 'rest'
+      ? `Now using the server at ${config.baseUrl}. Log in or create an account there.`
+      : "Now storing data on this device. Log in to continue.");
+  };
 
+  // --- Core App Logic Handlers (adapted for API service) ---
   const handleDeleteExercise = useCallback(async (id: string) => {
     const exerciseToDelete = exercises.find(ex => ex.id === id);
     if (!exerciseToDelete) return;
@@ -131,11 +179,10 @@ const App: React.FC = () => {
     setExercises(updatedExercises);
 
     if (workoutPlan) {
-        const newWeeklyPlan = workoutPlan.weeklyPlan.map(day => ({
+        setWorkoutPlan(prevPlan => prevPlan ? mapPlanDays(prevPlan, day => ({
             ...day,
             exercises: day.exercises.filter(plannedEx => plannedEx.originalExerciseId !== id)
-        }));
-        setWorkoutPlan(prevPlan => prevPlan ? {...prevPlan, weeklyPlan: newWeeklyPlan} : null);
+        })) : null);
     }
 
     try {
@@ -145,98 +192,42 @@ const App: React.FC = () => {
       console.error("Error deleting exercise via API:", apiError);
       setError("Could not delete exercise from your account. It might reappear on refresh.");
     }
+
+    // Other exercises cut from the same video may still use it, so only unreferenced files go
+    for (const key of apiService.getExerciseMediaKeys(exerciseToDelete)) {
+      await apiService.deleteVideoIfUnused(key).catch(error => console.warn(`Could not remove unused video ${key}:`, error));
+    }
   }, [exercises, workoutPlan]);
 
   const handleAnalyzeVideos = useCallback(async (videosToAnalyze: VideoAnalysisPayload[], useProModel: boolean) => {
     if (videosToAnalyze.length === 0) return;
 
-    setIsLoadingVideo(true);
-    setCurrentView('analyzing');
     setError(null);
-    setSuccessMessage(null);
-    setStatusMessage(`Starting analysis for ${videosToAnalyze.length} video(s)...`);
-
-    const allNewlyExtractedExercises: Exercise[] = [];
-    let filesProcessedSuccessfully = 0;
-    let filesFailed = 0;
-    const errorMessages: string[] = [];
-
-    for (let i = 0; i < videosToAnalyze.length; i++) {
-      const { file: videoFile } = videosToAnalyze[i];
-      setStatusMessage(`Processing video ${i + 1} of ${videosToAnalyze.length}: ${videoFile.name}`);
-
-      try {
-        // Generate video hash for caching
-        setStatusMessage(`Generating hash for ${videoFile.name}...`);
-        const videoHash = await generateVideoHash(videoFile);
-
-        // Compress video (optional, currently returns original if small enough)
-        setStatusMessage(`Preparing ${videoFile.name}...`);
-        const processedVideo = await compressVideo(videoFile);
-
-        // Save video to storage
-        const videoStorageKey = await apiService.saveVideoFile(processedVideo);
-
-        // Generate and save thumbnail
-        setStatusMessage(`Generating thumbnail for ${videoFile.name}...`);
-        try {
-          const thumbnail = await generateThumbnail(processedVideo);
-          await videoStorage.saveThumbnail(videoStorageKey, thumbnail);
-        } catch (thumbError) {
-          console.warn(`Failed to generate thumbnail for ${videoFile.name}:`, thumbError);
-          // Continue even if thumbnail fails
-        }
-
-        // Analyze video with AI (with caching and retry)
-        setStatusMessage(`Analyzing video ${i + 1} of ${videosToAnalyze.length}: ${videoFile.name}`);
-        const extractedData = await analyzeVideoAndExtractExercises(processedVideo, useProModel, videoHash);
-
-        if (extractedData.length > 0) {
-          const videoFileNameForId = videoFile.name.replace(/[^a-zA-Z0-9]/g, '') || 'video';
-          const exercisesWithDetails: Exercise[] = extractedData.map((data, index) => ({
-            id: `ex-${videoFileNameForId}-${Date.now()}-${index}`,
-            name: data.name,
-            description: data.description,
-            videoStorageKey: videoStorageKey,
-            thumbnailStorageKey: videoStorageKey, // Use same key for thumbnail
-            startTime: data.startTime,
-            endTime: data.endTime,
-            muscleGroups: data.muscleGroups,
-            equipment: data.equipment,
-            difficulty: data.difficulty,
-            videoHash: videoHash,
-          }));
-          allNewlyExtractedExercises.push(...exercisesWithDetails);
+    const toAttach = videosToAnalyze.filter(video => video.attachToExerciseIds);
+    const toQueue = videosToAnalyze.filter(video => !video.attachToExerciseIds);
+    try {
+      if (toQueue.length > 0) {
+        await uploadQueue.enqueueVideos(toQueue, useProModel);
+        setSuccessMessage(`${toQueue.length} video(s) added to the queue. You can keep using the app while they're analyzed.`);
+      }
+      if (toAttach.length > 0) {
+        for (const { file, attachToExerciseIds } of toAttach) {
+          await uploadQueue.attachAlternateAngle(file, attachToExerciseIds!);
         }
-        filesProcessedSuccessfully++;
-      } catch (err) {
-        filesFailed++;
-        const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-        errorMessages.push(`Failed ${videoFile.name}: ${errorMessage}`);
-        console.error(`Error analyzing ${videoFile.name}:`, err);
+        setExercises(await apiService.getAllExercises());
+        setSuccessMessage(`${toAttach.length} video(s) attached as alternate angles.`);
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not add the videos to the queue.");
     }
+  }, []);
 
-    let finalStatusMessage = "";
-    if (allNewlyExtractedExercises.length > 0) {
-      await handleVideoAnalyzed(allNewlyExtractedExercises);
-      setSuccessMessage(`${allNewlyExtractedExercises.length} new exercise(s) identified and added!`);
-      finalStatusMessage = `Analysis complete. ${allNewlyExtractedExercises.length} new exercise(s) added.`;
-    }
-
-    if (filesFailed > 0) {
-      setError(`Processed ${filesProcessedSuccessfully}; Failed ${filesFailed}: ${errorMessages.join('; ')}`);
-       finalStatusMessage += ` ${filesFailed} video(s) failed analysis.`
-    } else if (allNewlyExtractedExercises.length === 0 && filesProcessedSuccessfully > 0) {
-      finalStatusMessage = "AI processed video(s) but found no distinct exercises. Try different videos.";
-    }
-
-    setStatusMessage(finalStatusMessage || null);
-    setIsLoadingVideo(false);
-    setCurrentView('home');
-  }, [handleVideoAnalyzed]);
+  const handleShowExercise = useCallback((name: string) => {
+    setLibrarySearch(name);
+    setCurrentView('library');
+  }, []);
 
-  const handleGeneratePlan = useCallback(async (options: { goal: string, trainingDays: number, useProModel: boolean }) => {
+  const handleGeneratePlan = useCallback(async (options: PlanGenerationOptions) => {
     if (exercises.length === 0) {
       setError("Please add exercises from videos before generating a plan. Go to the Exercise Gallery to manage your exercises.");
       setPlanOptionsVisible(false);
@@ -246,21 +237,62 @@ const App: React.FC = () => {
     setPlanOptionsVisible(false);
     setError(null);
     setWorkoutPlan(null);
-    setStreamingPlanText(''); // Start with empty string
+    setSelectedWeekIndex(0);
+    setStreamingPlan(null);
 
     try {
-      const stream = generateWorkoutPlanWithGemini(exercises, options.goal, options.trainingDays, options.useProModel);
-      let fullResponse = '';
-      for await (const chunk of stream) {
-        fullResponse += chunk;
-        setStreamingPlanText(fullResponse);
+      const streamPlan = async (stream: AsyncGenerator<string>): Promise<WorkoutPlan> => {
+        let fullResponse = '';
+        for await (const chunk of stream) {
+          fullResponse += chunk;
+          setStreamingPlan(parsePartialPlan(fullResponse));
+        }
+        const plan: unknown = JSON.parse(fullResponse);
+
+        // Programs mirror their first week into weeklyPlan so single-week consumers keep working
+        if (isObject(plan) && Array.isArray(plan.weeks) && plan.weeks.length > 0 && plan.weeks.every((w: unknown) => isObject(w) && Array.isArray(w.weeklyPlan))) {
+          plan.weeklyPlan = plan.weeks[0].weeklyPlan;
+        }
+        // Anything else wrong with it is for validateWorkoutPlan to find
+        return plan as WorkoutPlan;
+      };
+
+      const requirements = { trainingDays: options.trainingDays, totalWeeks: options.programWeeks };
+      let validation = validateWorkoutPlan(
+        await streamPlan(options.programWeeks
+          ? generateProgramWithGemini(exercises, options.goal, options.trainingDays, options.programWeeks, options.useProModel, options.ignoreCache)
+          : generateWorkoutPlanWithGemini(exercises, options.goal, options.trainingDays, options.useProModel, options.ignoreCache)),
+        exercises,
+        requirements,
+      );
+
+      // Ask the model to fix what couldn't be fixed automatically
+      for (let attempt = 0; validation.unresolved.length > 0 && attempt < MAX_PLAN_REPAIR_ATTEMPTS; attempt++) {
+        const violations = validation.unresolved.map(formatViolation);
+        console.warn("Generated plan breaks the requested rules, asking for a correction:", violations);
+        setPlanRepairMessage(`Fixing ${violations.length} problem${violations.length === 1 ? '' : 's'} in the generated plan...`);
+        setStreamingPlan(null);
+        validation = validateWorkoutPlan(
+          await streamPlan(repairWorkoutPlanWithGemini(validation.plan, violations, exercises, options.goal, options.trainingDays, options.useProModel, options.programWeeks, options.ignoreCache)),
+          exercises,
+          requirements,
+        );
       }
 
-      const plan = JSON.parse(fullResponse);
+      const plan = validation.plan;
+      if (validation.fixed.length > 0) {
+        console.log("Automatically fixed in the generated plan:", validation.fixed.map(formatViolation));
+      }
 
       if (plan && plan.title && Array.isArray(plan.weeklyPlan)) {
         setWorkoutPlan(plan);
-        setSuccessMessage("New workout plan generated!");
+        const generated = options.programWeeks ? `New ${(plan as Program).weeks?.length ?? options.programWeeks}-week program generated!` : "New workout plan generated!";
+        if (validation.unresolved.length > 0) {
+          console.warn("Generated plan still breaks the requested rules:", validation.unresolved.map(formatViolation));
+          setSuccessMessage(`${generated} Check it before use: ${formatViolation(validation.unresolved[0])}`);
+        } else {
+          setSuccessMessage(generated);
+        }
         setCurrentView('plans');
       } else {
         throw new Error("The AI returned an invalid or incomplete workout plan structure.");
@@ -274,7 +306,8 @@ const App: React.FC = () => {
       setError(`Failed to generate plan. ${errorMessage}`);
     } finally {
       setIsLoadingPlan(false);
-      setStreamingPlanText(null);
+      setStreamingPlan(null);
+      setPlanRepairMessage(null);
     }
   }, [exercises]);
 
@@ -297,11 +330,12 @@ const App: React.FC = () => {
     }
   };
 
-  const handleViewPlan = async (planId: string) => {
+  const handleViewPlan = async (planId: string, weekIndex: number = 0) => {
     try {
         const entry = await apiService.getSavedPlanEntry(planId);
         if (entry) {
             setWorkoutPlan(entry.plan);
+            setSelectedWeekIndex(weekIndex);
             setCurrentView('plans');
         } else {
             setError("Could not find the selected plan.");
@@ -326,27 +360,109 @@ const App: React.FC = () => {
     }
   };
 
+  const handleGenerateNextWeek = (settings: ProgressionSettings) => {
+    if (!workoutPlan) return;
+    const nextPlan = generateNextWeek({ ...workoutPlan, progression: settings }, workoutLogs);
+    setWorkoutPlan(nextPlan);
+    const deloadNote = nextPlan.progression?.isDeloadWeek ? ' (deload week)' : '';
+    setSuccessMessage(`Week ${nextPlan.progression?.week} targets generated${deloadNote}. Save the plan to keep them.`);
+  };
+
+  // Persists a changed plan entry and mirrors it into local state
+  const updatePlanEntry = async (entry: SavedWorkoutPlanEntry) => {
+    await apiService.savePlanEntry(entry);
+    setSavedPlanEntries(prev => prev.map(p => p.id === entry.id ? entry : p));
+  };
+
+  const handleActivatePlan = async (planId: string, startDate: string) => {
+    const entry = savedPlanEntries.find(p => p.id === planId);
+    if (!entry) return;
+    try {
+        // Only one plan can be on the calendar at a time
+        for (const other of savedPlanEntries) {
+            if (other.id !== planId && other.schedule) {
+                const { schedule, ...rest } = other;
+                await updatePlanEntry(rest);
+            }
+        }
+        await updatePlanEntry({ ...entry, schedule: buildSchedule(entry.plan, startDate) });
+        setSuccessMessage(`"${entry.name}" is now on your calendar.`);
+    } catch (err) {
+        setError("Failed to schedule the plan.");
+    }
+  };
+
+  const handleDeactivateSchedule = async () => {
+    const entry = getActiveEntry(savedPlanEntries);
+    if (!entry) return;
+    try {
+        const { schedule, ...rest } = entry;
+        await updatePlanEntry(rest);
+    } catch (err) {
+        setError("Failed to clear the schedule.");
+    }
+  };
+
+  const handleRescheduleWorkout = async (workout: ScheduledWorkout) => {
+    const entry = getActiveEntry(savedPlanEntries);
+    if (!entry?.schedule) return;
+    try {
+        await updatePlanEntry({ ...entry, schedule: rescheduleMissedWorkout(entry.schedule, workout) });
+        setSuccessMessage("Workout moved to today. The rest of the week has been shifted.");
+    } catch (err) {
+        setError("Failed to reschedule the workout.");
+    }
+  };
+
   const handleStartWorkout = (session: WorkoutSession) => {
     setActiveWorkoutSession(session);
     setCurrentView('workout');
   };
 
-  const handleFinishWorkout = () => {
+  const handleFinishWorkout = async (log: WorkoutLog) => {
+    const scheduled = activeWorkoutSession?.scheduled;
     setActiveWorkoutSession(null);
-    setCurrentView('plans');
-    setSuccessMessage("Workout complete! Great job!");
+    setCurrentView(scheduled ? 'home' : 'plans');
+
+    // Don't clutter the history with sessions that were opened and immediately closed
+    const hasCompletedSets = log.exercises.some(ex => ex.sets.some(set => !set.skipped));
+    if (!hasCompletedSets) return;
+
+    try {
+        await apiService.saveWorkoutLog(log);
+        setWorkoutLogs(prev => [...prev, log]);
+        if (scheduled) {
+            const entry = savedPlanEntries.find(p => p.id === scheduled.planEntryId);
+            if (entry?.schedule) {
+                await updatePlanEntry({ ...entry, schedule: markWorkoutCompleted(entry.schedule, scheduled.date, log.id) });
+            }
+        }
+        setSuccessMessage("Workout complete! Great job!");
+    } catch (err) {
+        console.error("Error saving workout log via API:", err);
+        setError("Workout complete, but it could not be saved to your history.");
+    }
   };
 
-  const renderContent = () => {
-    if (isLoadingVideo || currentView === 'analyzing') {
-      return <WorkoutLoader statusMessage={statusMessage} />;
+  const handleDeleteWorkoutLog = async (logId: string) => {
+    if (window.confirm("Are you sure you want to delete this workout from your history?")) {
+        try {
+            await apiService.deleteWorkoutLog(logId);
+            setWorkoutLogs(prev => prev.filter(l => l.id !== logId));
+            setSuccessMessage("Workout deleted from history.");
+        } catch (err) {
+            setError("Failed to delete the workout.");
+        }
     }
+  };
 
+  const renderContent = () => {
     if (currentView === 'workout' && activeWorkoutSession) {
       return (
         <InteractiveWorkout
             session={activeWorkoutSession}
             libraryExercises={exercises}
+            workoutLogs={workoutLogs}
             onFinish={handleFinishWorkout}
         />
       );
@@ -355,15 +471,39 @@ const App: React.FC = () => {
     if (currentView === 'home') {
       return (
         <div className="space-y-8 fade-in">
-          <VideoUploadForm onAnalyzeVideos={handleAnalyzeVideos} isLoading={isLoadingVideo} />
+          <TodayWorkout
+            activeEntry={activeEntry}
+            onStartWorkout={handleStartWorkout}
+            onRescheduleWorkout={handleRescheduleWorkout}
+            onDeactivate={handleDeactivateSchedule}
+          />
+          <VideoUploadForm exercises={exercises} onAnalyzeVideos={handleAnalyzeVideos} onShowExercise={handleShowExercise} />
+          <UploadQueuePanel items={uploadQueueItems} />
         </div>
       );
     }
 
     if (currentView === 'library') {
+      return (
+        <div className="space-y-6 fade-in">
+          <UploadQueuePanel items={uploadQueueItems} />
+          <ExerciseGallery exercises={exercises} onDeleteExercise={handleDeleteExercise} initialSearchQuery={librarySearch} />
+        </div>
+      );
+    }
+
+    if (currentView === 'history') {
       return (
         <div className="fade-in">
-          <ExerciseGallery exercises={exercises} onDeleteExercise={handleDeleteExercise} />
+          <WorkoutHistory logs={workoutLogs} onDeleteLog={handleDeleteWorkoutLog} />
+        </div>
+      );
+    }
+
+    if (currentView === 'settings' && currentUser) {
+      return (
+        <div className="fade-in">
+          <Settings currentUser={currentUser} onChangeBackend={handleChangeBackend} onDataRestored={loadAllUserData} />
         </div>
       );
     }
@@ -378,16 +518,26 @@ const App: React.FC = () => {
                 onSavePlan={handleSavePlan}
                 isSavingPlan={isSavingPlan}
                 onStartWorkout={handleStartWorkout}
+                onGenerateNextWeek={handleGenerateNextWeek}
+                selectedWeekIndex={selectedWeekIndex}
+                onSelectWeek={setSelectedWeekIndex}
             />
+          ) : isLoadingPlan && streamingPlan ? (
+            <div className="space-y-3">
+              {planRepairMessage && <p className="text-sm text-gray-400 text-center">{planRepairMessage}</p>}
+              <WorkoutPlanDisplay
+                  plan={streamingPlan}
+                  exercises={exercises}
+                  onStartWorkout={handleStartWorkout}
+                  selectedWeekIndex={selectedWeekIndex}
+                  onSelectWeek={setSelectedWeekIndex}
+                  isStreaming
+              />
+            </div>
           ) : isLoadingPlan ? (
             <div className="bg-gradient-to-br from-gray-900 to-black rounded-3xl p-8 border border-gray-800">
-              <h3 className="text-2xl font-bold mb-6 text-white text-center">Generating Your Plan...</h3>
+              <h3 className="text-2xl font-bold mb-6 text-white text-center">{planRepairMessage || 'Generating Your Plan...'}</h3>
               <LoadingSpinner />
-              {streamingPlanText && (
-                  <pre className="mt-4 text-left text-xs bg-gray-950 text-gray-400 p-4 rounded-xl overflow-x-auto max-h-96 border border-gray-800">
-                      <code>{streamingPlanText}</code>
-                  </pre>
-              )}
             </div>
           ) : (
             <div className="space-y-6">
@@ -417,6 +567,7 @@ const App: React.FC = () => {
                 savedPlans={savedPlanEntries}
                 onViewPlan={handleViewPlan}
                 onDeletePlan={handleDeletePlan}
+                onActivatePlan={handleActivatePlan}
                 isLoading={isLoadingSavedPlans}
               />
             </div>
@@ -428,6 +579,8 @@ const App: React.FC = () => {
     return null;
   };
 
+  const activeEntry = getActiveEntry(savedPlanEntries);
+
   if (isAuthLoading) {
     return <div className="flex justify-center items-center h-screen bg-black"><LoadingSpinner /></div>;
   }
@@ -446,7 +599,18 @@ const App: React.FC = () => {
       {/* Top Header */}
       <header className="bg-gradient-to-b from-gray-950 to-black border-b border-gray-900 sticky top-0 z-40 backdrop-blur-xl bg-opacity-90" style={{paddingTop: 'env(safe-area-inset-top)'}}>
         <nav className="max-w-7xl mx-auto px-4 sm:px-6">
-          <div className="flex items-center justify-end h-14">
+          <div className="flex items-center justify-end h-14 space-x-1">
+            <button
+                onClick={() => setCurrentView('settings')}
+                className={`p-2 rounded-xl transition-all ${
+                  currentView === 'settings'
+                    ? 'bg-white text-black'
+                    : 'text-gray-400 hover:text-white hover:bg-gray-900'
+                }`}
+                title="Settings"
+            >
+              <Cog6ToothIcon className="w-5 h-5" />
+            </button>
             <button
                 onClick={handleLogout}
                 className="p-2 text-gray-400 hover:text-white hover:bg-gray-900 rounded-xl transition-all"
@@ -501,7 +665,7 @@ const App: React.FC = () => {
               </button>
 
               <button
-                onClick={() => setCurrentView('library')}
+                onClick={() => { setLibrarySearch(''); setCurrentView('library'); }}
                 className={`flex flex-col items-center space-y-0.5 px-4 py-1.5 rounded-xl transition-all ${
                   currentView === 'library'
                     ? 'bg-white text-black'
@@ -534,13 +698,36 @@ const App: React.FC = () => {
                 )}
               </button>
 
-              {workoutPlan && (
+              <button
+                onClick={() => setCurrentView('history')}
+                className={`flex flex-col items-center space-y-0.5 px-4 py-1.5 rounded-xl transition-all ${
+                  currentView === 'history'
+                    ? 'bg-white text-black'
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                <ClockIcon className="w-5 h-5" />
+                <span className="text-[10px] font-semibold">History</span>
+              </button>
+
+              {(workoutPlan || activeEntry) && (
                 <button
                   onClick={() => {
-                    if (workoutPlan) {
-                      const firstDay = workoutPlan.weeklyPlan.find(d => d.exercises.length > 0);
+                    // Prefer today's scheduled workout, then fall back to the plan being viewed
+                    const todayKey = getTodayKey();
+                    const scheduledToday = activeEntry?.schedule?.workouts.find(w => w.date === todayKey && !w.completedLogId);
+                    const scheduledDay = activeEntry && scheduledToday ? getScheduledDay(activeEntry.plan, scheduledToday) : null;
+                    if (activeEntry && scheduledToday && scheduledDay) {
+                      handleStartWorkout({
+                        plan: getPlanForWeek(activeEntry.plan, scheduledToday.weekIndex),
+                        day: scheduledDay,
+                        scheduled: { planEntryId: activeEntry.id, date: scheduledToday.date },
+                      });
+                    } else if (workoutPlan) {
+                      const weekPlan = getPlanForWeek(workoutPlan, selectedWeekIndex);
+                      const firstDay = weekPlan.weeklyPlan.find(d => d.exercises.length > 0);
                       if (firstDay) {
-                        handleStartWorkout({ plan: workoutPlan, day: firstDay });
+                        handleStartWorkout({ plan: weekPlan, day: firstDay });
                       }
                     }
                   }}
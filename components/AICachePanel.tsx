@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import * as aiCache from '../services/aiCache';
+import { AICacheStats } from '../services/aiCache';
+import { AICacheKind } from '../types';
+import { formatMegabytes } from './DataBackupRestore';
+
+const kindLabels: Record<AICacheKind, string> = {
+  analysis: 'Video Analyses',
+  plan: 'Plans',
+  tip: 'Tips',
+};
+
+const AICachePanel: React.FC = () => {
+  const [stats, setStats] = useState<AICacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setStats(await aiCache.getCacheStats());
+    } catch (err) {
+      console.error('Failed to read AI cache stats:', err);
+      setError('Could not read the AI cache.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const runClear = async (clear: () => Promise<string>) => {
+    setError(null);
+    setSuccess(null);
+    setIsClearing(true);
+    try {
+      setSuccess(await clear());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear the AI cache.');
+    } finally {
+      setIsClearing(false);
+      await refreshStats();
+    }
+  };
+
+  const handleClearExpired = () => runClear(async () => {
+    const removed = await aiCache.clearExpiredCache();
+    return `Removed ${removed} expired entr${removed === 1 ? 'y' : 'ies'}.`;
+  });
+
+  const handleClearAll = () => {
+    if (!window.confirm('Clear all cached AI responses? Analyzing the same videos again will use the AI again.')) {
+      return;
+    }
+    runClear(async () => {
+      await aiCache.clearAllCache();
+      return 'AI cache cleared.';
+    });
+  };
+
+  const usedPercent = stats ? Math.min(100, Math.round((stats.totalBytes / stats.maxBytes) * 100)) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white">AI Cache</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Saved AI responses, so analyzing the same video or asking for the same plan again doesn't need another request.
+          The least recently used responses are dropped once the cache is full.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      {success && <p className="text-xs text-green-200 bg-green-950 p-2 rounded-lg border border-green-900">{success}</p>}
+
+      {!stats ? (
+        <p className="text-xs text-gray-500">Loading...</p>
+      ) : (
+        <>
+          <div>
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>{stats.totalEntries} entr{stats.totalEntries === 1 ? 'y' : 'ies'}{stats.expiredEntries > 0 ? `, ${stats.expiredEntries} expired` : ''}</span>
+              <span>{formatMegabytes(stats.totalBytes)} of {formatMegabytes(stats.maxBytes)}</span>
+            </div>
+            <div className="w-full bg-gray-800 rounded-full h-1.5">
+              <div className="bg-white h-1.5 rounded-full transition-all" style={{ width: `${usedPercent}%` }} />
+            </div>
+          </div>
+
+          <ul className="grid grid-cols-3 gap-2">
+            {(Object.keys(kindLabels) as AICacheKind[]).map(kind => (
+              <li key={kind} className="p-3 bg-gray-950 border border-gray-800 rounded-xl">
+                <p className="text-xs text-gray-500">{kindLabels[kind]}</p>
+                <p className="text-sm font-semibold text-white">{stats.byKind[kind].entries}</p>
+                <p className="text-xs text-gray-500">{formatMegabytes(stats.byKind[kind].bytes)}</p>
+              </li>
+            ))}
+          </ul>
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              type="button"
+              onClick={handleClearExpired}
+              disabled={isClearing || stats.expiredEntries === 0}
+              className="py-3 px-4 rounded-xl text-sm font-semibold border border-gray-800 text-gray-300 bg-gray-950 hover:text-white transition-all disabled:opacity-50"
+            >
+              Clear Expired
+            </button>
+            <button
+              type="button"
+              onClick={handleClearAll}
+              disabled={isClearing || stats.totalEntries === 0}
+              className="py-3 px-4 rounded-xl text-sm font-semibold border border-red-900/30 text-red-400 bg-red-950/30 hover:bg-red-950/50 transition-all disabled:opacity-50"
+            >
+              Clear All
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AICachePanel;
@@ -17,6 +17,14 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, setError }) => {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [backendConfig, setBackendConfig] = useState(apiService.getBackendConfig);
+
+  // Lets the user get back to local storage when the configured server is unreachable
+  const switchToLocalBackend = () => {
+    apiService.setBackendConfig({ type: 'local' });
+    setBackendConfig(apiService.getBackendConfig());
+    setError(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -70,6 +78,14 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, setError }) => {
         <p className="text-center text-gray-400 mb-8">
           {mode === 'login' ? 'Log in to access your workout plans' : 'Create your account to begin training'}
         </p>
+        {backendConfig.type === 'rest' && (
+          <p className="text-center text-xs text-gray-500 -mt-6 mb-8">
+            Syncing with {backendConfig.baseUrl} ·{' '}
+            <button type="button" onClick={switchToLocalBackend} className="underline hover:text-white">
+              Use this device instead
+            </button>
+          </p>
+        )}
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
@@ -104,6 +120,7 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, setError }) => {
               className="w-full px-4 py-3 bg-gray-950 border border-gray-800 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-white focus:border-transparent transition-all"
               placeholder="••••••••"
             />
+            {mode === 'signup' && <p className="text-xs text-gray-500 mt-2">At least 8 characters.</p>}
           </div>
 
           {mode === 'signup' && (
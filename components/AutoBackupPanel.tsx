@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import * as autoBackup from '../services/autoBackup';
+import { AutoBackupSettings, BackupSnapshot } from '../services/autoBackup';
+import { BackupProgress, User } from '../types';
+import { BackupProgressBar, formatMegabytes } from './DataBackupRestore';
+
+interface AutoBackupPanelProps {
+  currentUser: User;
+  onRestore: () => Promise<void>; // Reloads the app's data after a snapshot is restored
+}
+
+const intervalOptions = [
+  { hours: 24, label: 'Daily' },
+  { hours: 72, label: 'Every 3 days' },
+  { hours: 168, label: 'Weekly' },
+];
+
+const keepOptions = [3, 5, 10];
+
+const selectClassName = "w-full px-3 py-2 bg-gray-950 border border-gray-800 rounded-xl text-sm text-white focus:outline-none focus:ring-2 focus:ring-white focus:border-transparent transition-all";
+
+const AutoBackupPanel: React.FC<AutoBackupPanelProps> = ({ currentUser, onRestore }) => {
+  const [settings, setSettings] = useState<AutoBackupSettings>(() => autoBackup.getAutoBackupSettings(currentUser.email));
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [busySnapshotId, setBusySnapshotId] = useState<string | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const isBusy = isBackingUp || busySnapshotId !== null;
+
+  const refreshSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await autoBackup.listSnapshots(currentUser.email));
+    } catch (err) {
+      console.error('Failed to list backups:', err);
+      setError('Could not load the backups on this device.');
+    }
+  }, [currentUser.email]);
+
+  useEffect(() => {
+    refreshSnapshots();
+  }, [refreshSnapshots]);
+
+  const updateSettings = (changes: Partial<AutoBackupSettings>) => {
+    const next = { ...settings, ...changes };
+    autoBackup.saveAutoBackupSettings(currentUser.email, next);
+    setSettings(next);
+  };
+
+  const handleBackupNow = async () => {
+    setError(null);
+    setSuccess(null);
+    setIsBackingUp(true);
+    try {
+      const snapshot = await autoBackup.createSnapshot(currentUser.email, setProgress);
+      setSuccess(`Backup saved (${formatMegabytes(snapshot.size)}).`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create backup.');
+    } finally {
+      setIsBackingUp(false);
+      setProgress(null);
+      setSettings(autoBackup.getAutoBackupSettings(currentUser.email));
+      await refreshSnapshots();
+    }
+  };
+
+  const handleRestore = async (snapshot: BackupSnapshot) => {
+    const createdAt = new Date(snapshot.createdAt).toLocaleString();
+    if (!window.confirm(`Restore the backup from ${createdAt}? This will OVERWRITE all exercises, plans, and history on this device.`)) {
+      return;
+    }
+    setError(null);
+    setSuccess(null);
+    setBusySnapshotId(snapshot.id);
+    try {
+      const summary = await autoBackup.restoreSnapshot(currentUser.email, snapshot, setProgress);
+      setSuccess(`Restored the backup from ${createdAt}: ${summary.exerciseCount} exercises, ${summary.planCount} plans, ${summary.logCount} logged workouts.`);
+      await onRestore();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup.');
+    } finally {
+      setBusySnapshotId(null);
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async (snapshot: BackupSnapshot) => {
+    setError(null);
+    setBusySnapshotId(snapshot.id);
+    try {
+      await autoBackup.deleteSnapshot(currentUser.email, snapshot);
+      await refreshSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete backup.');
+    } finally {
+      setBusySnapshotId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          Automatic Backups
+          <span className={`text-[10px] px-2 py-0.5 rounded-lg border ${settings.enabled ? 'bg-green-950 text-green-200 border-green-900' : 'bg-gray-900 text-gray-400 border-gray-800'}`}>
+            {settings.enabled ? 'On' : 'Off'}
+          </span>
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Keeps rolling snapshots of your data on this device while the app is open.
+          They help undo mistakes but don't replace a backup kept somewhere else.{' '}
+          {autoBackup.snapshotsIncludeVideos()
+            ? 'Videos are included, so each snapshot takes about as much space as your library.'
+            : 'Videos are left out to save space, so use Backup All Data for a full backup. Exercises whose videos were deleted come back without video.'}
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      {success && <p className="text-xs text-green-200 bg-green-950 p-2 rounded-lg border border-green-900">{success}</p>}
+      {settings.lastError && !error && (
+        <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30">Last automatic backup failed: {settings.lastError}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="auto-backup-interval" className="block text-sm font-semibold text-white mb-2">Frequency</label>
+          <select
+            id="auto-backup-interval"
+            value={settings.intervalHours}
+            onChange={e => updateSettings({ intervalHours: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {intervalOptions.map(option => <option key={option.hours} value={option.hours}>{option.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="auto-backup-keep" className="block text-sm font-semibold text-white mb-2">Keep</label>
+          <select
+            id="auto-backup-keep"
+            value={settings.keepLast}
+            onChange={e => updateSettings({ keepLast: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {keepOptions.map(count => <option key={count} value={count}>Last {count}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {progress && <BackupProgressBar progress={progress} />}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          type="button"
+          onClick={() => updateSettings({ enabled: !settings.enabled })}
+          className="py-3 px-4 rounded-xl text-sm font-semibold border border-gray-800 text-gray-300 bg-gray-950 hover:text-white transition-all"
+        >
+          {settings.enabled ? 'Turn Off' : 'Turn On'}
+        </button>
+        <button
+          type="button"
+          onClick={handleBackupNow}
+          disabled={isBusy}
+          className="py-3 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isBackingUp ? 'Backing Up...' : 'Back Up Now'}
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-gray-500">No backups on this device yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="flex items-center gap-3 p-3 bg-gray-950 border border-gray-800 rounded-xl">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-white">{new Date(snapshot.createdAt).toLocaleString()}</p>
+                <p className="text-xs text-gray-500">
+                  {formatMegabytes(snapshot.size)}{snapshot.encrypted ? ' · Encrypted' : ''}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRestore(snapshot)}
+                disabled={isBusy}
+                className="py-2 px-3 rounded-xl text-xs font-bold bg-white text-black hover:bg-gray-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busySnapshotId === snapshot.id && progress ? 'Restoring...' : 'Restore'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(snapshot)}
+                disabled={isBusy}
+                className="py-2 px-3 rounded-xl text-xs font-semibold border border-gray-800 text-gray-400 hover:text-white transition-all disabled:opacity-50"
+                aria-label={`Delete backup from ${new Date(snapshot.createdAt).toLocaleString()}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AutoBackupPanel;
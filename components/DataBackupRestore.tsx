@@ -1,42 +1,152 @@
 import React, { useState, useRef } from 'react';
 import { CloudArrowDownIcon, CloudArrowUpIcon } from './icons';
 import * as apiService from '../services/apiService';
-import { FullUserDataBackup } from '../types';
+import { saveBackupStream } from '../services/backupArchive';
+import { MergeChange, MergePreview, MergeStatus } from '../services/backupMerge';
+import { BackupProgress, FullUserDataBackup } from '../types';
 
 interface DataBackupRestoreProps {
   onRestore: () => Promise<void>; // Function to trigger a data reload in the parent component
 }
 
+const progressLabels: Record<BackupProgress['stage'], string> = {
+  exporting: 'Writing backup',
+  verifying: 'Verifying backup',
+  restoring: 'Restoring videos',
+};
+
+export const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+export const BackupProgressBar: React.FC<{ progress: BackupProgress }> = ({ progress }) => (
+  <div aria-live="polite">
+    <div className="flex justify-between text-xs text-gray-400 mb-1">
+      <span>{progressLabels[progress.stage]} ({progress.completedFiles}/{progress.totalFiles} files)</span>
+      <span>{formatMegabytes(progress.processedBytes)}</span>
+    </div>
+    <div className="w-full bg-gray-800 rounded-full h-2">
+      <div
+        className="bg-white h-2 rounded-full transition-all"
+        style={{ width: `${progress.totalFiles ? Math.round((progress.completedFiles / progress.totalFiles) * 100) : 0}%` }}
+      />
+    </div>
+  </div>
+);
+
+const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read file.'));
+    reader.readAsText(file);
+  });
+};
+
+/**
+ * Restore a backup in the old single-JSON format
+ */
+const restoreLegacyJsonBackup = async (file: File): Promise<apiService.RestoreSummary> => {
+  const data = JSON.parse(await readFileAsText(file)) as FullUserDataBackup;
+
+  // Basic validation to ensure the file is in the correct format
+  if (!data || !Array.isArray(data.exercises) || !Array.isArray(data.savedPlans)) {
+    throw new Error('Invalid backup file format. The file does not contain the expected data.');
+  }
+  return apiService.restoreUserData(data);
+};
+
+const mergeStatusStyles: Record<MergeStatus, string> = {
+  added: 'bg-green-950 text-green-200 border-green-900',
+  changed: 'bg-yellow-950 text-yellow-200 border-yellow-900',
+  skipped: 'bg-gray-900 text-gray-400 border-gray-800',
+};
+
+const mergeKindLabels: Record<MergeChange['kind'], string> = {
+  exercise: 'Exercises',
+  plan: 'Plans',
+  log: 'Workout History',
+};
+
+const MergePreviewPanel: React.FC<{
+  preview: MergePreview;
+  isLoading: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}> = ({ preview, isLoading, onApply, onCancel }) => {
+  const count = (status: MergeStatus) => preview.changes.filter(change => change.status === status).length;
+  const hasChanges = count('added') + count('changed') > 0;
+
+  return (
+    <div className="p-4 border border-gray-800 rounded-xl bg-gray-950">
+      <h4 className="font-bold text-white mb-1">Merge Preview</h4>
+      <p className="text-xs text-gray-400 mb-3">
+        {count('added')} to add, {count('changed')} conflicting (both versions kept), {count('skipped')} already on this device.
+      </p>
+      <div className="max-h-64 overflow-y-auto space-y-3 mb-3">
+        {(Object.keys(mergeKindLabels) as MergeChange['kind'][]).map(kind => {
+          const kindChanges = preview.changes.filter(change => change.kind === kind);
+          if (kindChanges.length === 0) return null;
+          return (
+            <div key={kind}>
+              <h5 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">{mergeKindLabels[kind]}</h5>
+              <ul className="space-y-1">
+                {kindChanges.map((change, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <span className={`text-[10px] px-2 py-0.5 rounded-lg border capitalize flex-shrink-0 ${mergeStatusStyles[change.status]}`}>{change.status}</span>
+                    <span className="text-gray-200">
+                      {change.name}
+                      <span className="block text-xs text-gray-500">{change.reason}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={onApply}
+          disabled={isLoading || !hasChanges}
+          className="flex-1 py-2 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Merging...' : hasChanges ? 'Apply Merge' : 'Nothing to Merge'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isLoading}
+          className="flex-1 py-2 px-4 rounded-xl text-sm font-semibold border border-gray-800 text-gray-300 bg-gray-950 hover:text-white transition-all disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const DataBackupRestore: React.FC<DataBackupRestoreProps> = ({ onRestore }) => {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [mergePlan, setMergePlan] = useState<apiService.MergeRestorePlan | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleBackup = async () => {
     setError(null);
     setSuccess(null);
     setIsLoading(true);
-    setSuccess('Generating backup... this may take a while for large video libraries.');
     try {
-      const data = await apiService.getAllUserDataForBackup();
-      const jsonString = JSON.stringify(data); // No pretty-print to save space
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `ai-workout-backup-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      setSuccess(`Data backup successful! File size: ${(blob.size / 1024 / 1024).toFixed(2)} MB`);
+      const stream = await apiService.createBackupArchive(setProgress);
+      const { size, location } = await saveBackupStream(stream);
+      setSuccess(`Data backup successful! Saved to ${location}. File size: ${formatMegabytes(size)}`);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to create backup: ${message}`);
       console.error(err);
     } finally {
       setIsLoading(false);
+      setProgress(null);
     }
   };
 
@@ -44,79 +154,152 @@ const DataBackupRestore: React.FC<DataBackupRestoreProps> = ({ onRestore }) => {
     fileInputRef.current?.click();
   };
 
+  const resetFileInput = () => {
+    if (fileInputRef.current) {
+      // Clear the file input so the user can select the same file again if needed
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const finishRestore = async (restoreSummary: apiService.RestoreSummary, verb: string) => {
+    setSuccess(`Restore complete! ${restoreSummary.exerciseCount} exercises, ${restoreSummary.planCount} plans, ${restoreSummary.logCount} logged workouts, and ${restoreSummary.videoCount} videos have been ${verb}. Refreshing data...`);
+    // Trigger a full data reload in the main App component
+    await onRestore();
+  };
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
     setSuccess(null);
+    setMergePlan(null);
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (file.type !== 'application/json') {
-      setError('Invalid file type. Please select a .json backup file.');
+    const isLegacyJson = file.type === 'application/json' || file.name.endsWith('.json');
+    const isArchive = file.name.endsWith('.zip') || file.type.includes('zip');
+    if (!isLegacyJson && !isArchive) {
+      setError('Invalid file type. Please select a .zip backup file (or a .json backup from an older version).');
+      resetFileInput();
+      return;
+    }
+
+    // Merging: verify and show what would change; nothing is written until the preview is accepted
+    if (restoreMode === 'merge' && isArchive) {
+      setIsLoading(true);
+      try {
+        setMergePlan(await apiService.prepareMergeRestore(file, setProgress));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to read the backup file.');
+        console.error(err);
+      } finally {
+        setIsLoading(false);
+        setProgress(null);
+        resetFileInput();
+      }
       return;
     }
 
     const isConfirmed = window.confirm(
-      'Are you sure you want to restore from this file? This will OVERWRITE all existing exercises, plans, and videos on this device. This action cannot be undone.'
+      restoreMode === 'merge'
+        ? 'Backups from older versions (.json) can only replace your data, not merge. This will OVERWRITE all existing exercises, plans, and videos on this device. Continue?'
+        : 'Are you sure you want to restore from this file? This will OVERWRITE all existing exercises, plans, and videos on this device. The backup is checked first, and nothing is changed if it is damaged.'
     );
 
     if (!isConfirmed) {
         setSuccess('Restore operation was cancelled.');
-        if (fileInputRef.current) fileInputRef.current.value = "";
+        resetFileInput();
         return;
     }
 
     setIsLoading(true);
     setSuccess('Restoring data... This can take a long time depending on the backup file size. Please do not close this tab.');
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      try {
-        const text = e.target?.result;
-        if (typeof text !== 'string') throw new Error('Failed to read file.');
-        
-        const data = JSON.parse(text) as FullUserDataBackup;
-
-        // Basic validation to ensure the file is in the correct format
-        if (!data || !Array.isArray(data.exercises) || !Array.isArray(data.savedPlans)) {
-            throw new Error('Invalid backup file format. The file does not contain the expected data.');
-        }
-
-        const restoreSummary = await apiService.restoreUserData(data);
-        setSuccess(`Restore complete! ${restoreSummary.exerciseCount} exercises, ${restoreSummary.planCount} plans, and ${restoreSummary.videoCount} videos have been restored. Refreshing data...`);
-        // Trigger a full data reload in the main App component
-        await onRestore();
+    try {
+      const restoreSummary = isLegacyJson
+        ? await restoreLegacyJsonBackup(file)
+        : await apiService.restoreBackupArchive(file, setProgress);
+      await finishRestore(restoreSummary, 'restored');
+    } catch (err) {
+      setSuccess(null);
+      setError(err instanceof Error ? err.message : 'Failed to parse or restore the backup file.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+      setProgress(null);
+      resetFileInput();
+    }
+  };
 
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to parse or restore the backup file.');
-        console.error(err);
-      } finally {
-         setIsLoading(false);
-         if (fileInputRef.current) {
-            // Clear the file input so the user can select the same file again if needed
-            fileInputRef.current.value = ""; 
-         }
-      }
-    };
-    reader.readAsText(file);
+  const handleApplyMerge = async () => {
+    if (!mergePlan) return;
+    setError(null);
+    setIsLoading(true);
+    try {
+      const restoreSummary = await apiService.applyMergeRestore(mergePlan, setProgress);
+      setMergePlan(null);
+      await finishRestore(restoreSummary, 'added');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge the backup.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+      setProgress(null);
+    }
   };
 
   return (
-    <div className="mt-6 p-5 bg-white rounded-xl shadow-xl">
-      <h3 className="text-xl font-semibold text-gray-800 mb-2">Data Portability</h3>
-      <p className="text-sm text-gray-600 mb-4">
-        Create a complete, portable backup of all your data, including exercises, plans, and video clips.
-        Move this file to another device and restore it to have an identical setup.
-        <strong className="block mt-1 text-red-600">Warning: Backup files can be very large. The backup and restore process may take a long time.</strong>
-      </p>
-      
-      {error && <p className="text-sm text-red-700 bg-red-100 p-2 rounded-md mb-2">{error}</p>}
-      {success && <p className="text-sm text-green-700 bg-green-100 p-2 rounded-md mb-2">{success}</p>}
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white">Backup &amp; Restore</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Create a complete, portable backup of all your data, including exercises, plans, and video clips.
+          Move this .zip file to another device and merge it with what's there, or replace everything for an identical setup.
+          <strong className="block mt-1 text-red-400">Backup files can be very large. The backup and restore process may take a long time.</strong>
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      {success && <p className="text-xs text-green-200 bg-green-950 p-2 rounded-lg border border-green-900">{success}</p>}
+      {progress && <BackupProgressBar progress={progress} />}
+      {mergePlan && (
+        <MergePreviewPanel
+          preview={mergePlan.preview}
+          isLoading={isLoading}
+          onApply={handleApplyMerge}
+          onCancel={() => setMergePlan(null)}
+        />
+      )}
+
+      <fieldset>
+        <legend className="text-sm font-semibold text-white mb-2">When restoring</legend>
+        <div className="flex flex-col sm:flex-row gap-2 text-sm text-gray-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={restoreMode === 'merge'}
+              onChange={() => setRestoreMode('merge')}
+              disabled={isLoading}
+            />
+            Merge with data on this device
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={restoreMode === 'replace'}
+              onChange={() => setRestoreMode('replace')}
+              disabled={isLoading}
+            />
+            Replace everything
+          </label>
+        </div>
+      </fieldset>
 
-      <div className="flex flex-col sm:flex-row gap-4">
+      <div className="flex flex-col sm:flex-row gap-3">
         <button
           onClick={handleBackup}
           disabled={isLoading}
-          className="flex-1 flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          className="flex-1 flex items-center justify-center py-3 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <CloudArrowDownIcon className="w-5 h-5 mr-2" />
           {isLoading ? 'Processing...' : 'Backup All Data'}
@@ -124,7 +307,7 @@ const DataBackupRestore: React.FC<DataBackupRestoreProps> = ({ onRestore }) => {
         <button
           onClick={handleRestoreClick}
           disabled={isLoading}
-          className="flex-1 flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          className="flex-1 flex items-center justify-center py-3 px-4 rounded-xl text-sm font-semibold border border-gray-800 text-gray-300 bg-gray-950 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <CloudArrowUpIcon className="w-5 h-5 mr-2" />
           {isLoading ? 'Processing...' : 'Restore from File'}
@@ -133,7 +316,7 @@ const DataBackupRestore: React.FC<DataBackupRestoreProps> = ({ onRestore }) => {
           type="file"
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept="application/json,.json"
+          accept=".zip,application/zip,application/json,.json"
           className="hidden"
           aria-hidden="true"
         />
@@ -23,6 +23,13 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
   const [tip, setTip] = useState<string | null>(null);
   const [isTipLoading, setIsTipLoading] = useState(false);
   const [tipError, setTipError] = useState<string | null>(null);
+  // 0 is the main video, then each alternate angle
+  const [angleIndex, setAngleIndex] = useState(0);
+  const angles = [
+    { videoStorageKey: exercise.videoStorageKey, startTime: exercise.startTime, endTime: exercise.endTime },
+    ...(exercise.alternateAngles ?? []),
+  ];
+  const activeAngle = angles[angleIndex] ?? angles[0];
 
   // Load thumbnail first
   useEffect(() => {
@@ -52,12 +59,13 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
     if (!showFullVideo) return;
 
     const loadVideo = async () => {
-      if (exercise.videoStorageKey) {
+      const { videoStorageKey } = activeAngle;
+      if (videoStorageKey) {
         setIsVideoLoading(true);
         setVideoError(null);
         try {
           // First try to get native file path (for iOS/Android)
-          const nativePath = await videoStorage.getVideoPath(exercise.videoStorageKey);
+          const nativePath = await videoStorage.getVideoPath(videoStorageKey);
 
           if (nativePath) {
             // Use the native file path directly
@@ -66,7 +74,7 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
             setIsVideoLoading(false);
           } else {
             // Fallback to data URL for web
-            const file = await apiService.getVideoFile(exercise.videoStorageKey);
+            const file = await apiService.getVideoFile(videoStorageKey);
             if (file) {
               console.log(`Loading video for ${exercise.name}, file size: ${file.size} bytes`);
               // Convert File to data URL for web compatibility
@@ -107,7 +115,7 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
         observerRef.current.disconnect();
       }
     };
-  }, [exercise, showFullVideo]);
+  }, [exercise, showFullVideo, angleIndex]);
 
   // Handle video time range (start/end time) after metadata loads
   useEffect(() => {
@@ -115,14 +123,14 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
     if (!video || !videoSrc) return;
 
     const handleLoadedMetadata = () => {
-      if (exercise.startTime !== undefined) {
-        video.currentTime = exercise.startTime;
+      if (activeAngle.startTime !== undefined) {
+        video.currentTime = activeAngle.startTime;
       }
     };
 
     const handleTimeUpdate = () => {
-      if (exercise.endTime !== undefined && video.currentTime >= exercise.endTime) {
-        video.currentTime = exercise.startTime || 0;
+      if (activeAngle.endTime !== undefined && video.currentTime >= activeAngle.endTime) {
+        video.currentTime = activeAngle.startTime || 0;
       }
     };
 
@@ -133,7 +141,7 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
       video.removeEventListener('loadedmetadata', handleLoadedMetadata);
       video.removeEventListener('timeupdate', handleTimeUpdate);
     };
-  }, [videoSrc, exercise.startTime, exercise.endTime]);
+  }, [videoSrc, activeAngle.startTime, activeAngle.endTime]);
 
   useEffect(() => {
     // Only enable autoplay on non-iOS devices
@@ -214,22 +222,40 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
               </div>
             </div>
           ) : videoSrc ? (
-            <video
-              ref={videoRef}
-              key={videoSrc}
-              src={videoSrc}
-              className="w-full h-full object-contain"
-              controls
-              autoPlay
-              loop
-              muted
-              playsInline
-              preload="metadata"
-              onError={handleVideoError}
-              onLoadedData={() => console.log(`Video loaded successfully: ${exercise.name}`)}
-            >
-              Your browser does not support the video tag.
-            </video>
+            <>
+              <video
+                ref={videoRef}
+                key={videoSrc}
+                src={videoSrc}
+                className="w-full h-full object-contain"
+                controls
+                autoPlay
+                loop
+                muted
+                playsInline
+                preload="metadata"
+                onError={handleVideoError}
+                onLoadedData={() => console.log(`Video loaded successfully: ${exercise.name}`)}
+              >
+                Your browser does not support the video tag.
+              </video>
+              {angles.length > 1 && (
+                <div className="absolute top-2 left-2 flex gap-1">
+                  {angles.map((_, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => setAngleIndex(index)}
+                      className={`text-[10px] font-semibold px-2 py-1 rounded-lg transition-all ${
+                        index === angleIndex ? 'bg-white text-black' : 'bg-black/70 text-gray-300 hover:text-white'
+                      }`}
+                    >
+                      Angle {index + 1}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
           ) : (
             <div className="w-full h-full flex items-center justify-center">
               <p className="text-gray-500 text-sm">No video available</p>
@@ -304,10 +330,11 @@ const ExerciseGalleryItem: React.FC<ExerciseGalleryItemProps> = ({ exercise, onD
 interface ExerciseGalleryProps {
   exercises: Exercise[];
   onDeleteExercise: (id: string) => void;
+  initialSearchQuery?: string; // e.g. to show the exercises an upload duplicates
 }
 
-const ExerciseGallery: React.FC<ExerciseGalleryProps> = ({ exercises, onDeleteExercise }) => {
-  const [searchQuery, setSearchQuery] = useState('');
+const ExerciseGallery: React.FC<ExerciseGalleryProps> = ({ exercises, onDeleteExercise, initialSearchQuery = '' }) => {
+  const [searchQuery, setSearchQuery] = useState(initialSearchQuery);
   const [selectedMuscleGroup, setSelectedMuscleGroup] = useState<string>('All');
 
   // Get all unique muscle groups from exercises
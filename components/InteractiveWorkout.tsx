@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { WorkoutSession, Exercise, PlannedExercise } from '../types';
+import { WorkoutSession, Exercise, PlannedExercise, LoggedExercise, LoggedSet, WorkoutLog, LoadUnit } from '../types';
 import * as apiService from '../services/apiService';
 import * as videoStorage from '../services/videoStorage';
+import { findPreviousSet } from '../services/workoutHistory';
 import { transcribeAudio } from '../services/geminiService';
 import { MicrophoneIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
@@ -10,7 +11,8 @@ import LoadingSpinner from './LoadingSpinner';
 interface InteractiveWorkoutProps {
     session: WorkoutSession;
     libraryExercises: Exercise[];
-    onFinish: () => void;
+    workoutLogs: WorkoutLog[];
+    onFinish: (log: WorkoutLog) => void;
 }
 
 const parseRestTime = (restString?: string): number => {
@@ -19,13 +21,60 @@ const parseRestTime = (restString?: string): number => {
     return match ? parseInt(match[0], 10) : 60;
 };
 
-const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, libraryExercises, onFinish }) => {
+const parseSetCount = (setsString?: string): number => {
+    return parseInt(setsString?.match(/^\d+/)?.[0] || '1', 10);
+};
+
+// Parses a planned reps string like "8-12" or "10 per side" into the first number
+const parseTargetReps = (repsString?: string): number | undefined => {
+    const match = repsString?.match(/\d+/);
+    return match ? parseInt(match[0], 10) : undefined;
+};
+
+const parseOptionalNumber = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Fills in every planned set that was never completed as a skipped set,
+ * so the log reflects the whole prescription, not just what was done.
+ */
+const withSkippedSets = (exercise: PlannedExercise, logged: LoggedExercise): LoggedExercise => {
+    const plannedCount = parseSetCount(exercise.sets);
+    const totalSets = Math.max(plannedCount, ...logged.sets.map(s => s.setNumber));
+    const sets: LoggedSet[] = [];
+    for (let setNumber = 1; setNumber <= totalSets; setNumber++) {
+        const done = logged.sets.find(s => s.setNumber === setNumber);
+        sets.push(done || { setNumber, skipped: true });
+    }
+    return { ...logged, sets };
+};
+
+const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, libraryExercises, workoutLogs, onFinish }) => {
     const { plan, day } = session;
+    const startedAtRef = useRef(new Date().toISOString());
+    const [loggedExercises, setLoggedExercises] = useState<LoggedExercise[]>(() =>
+        day.exercises.map(ex => ({
+            originalExerciseId: ex.originalExerciseId,
+            name: ex.name,
+            plannedSets: ex.sets,
+            plannedReps: ex.reps,
+            sets: [],
+        }))
+    );
     const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
     const [currentSet, setCurrentSet] = useState(1);
     const [isResting, setIsResting] = useState(false);
     const [restTimeLeft, setRestTimeLeft] = useState(0);
 
+    // Per-set entry, pre-filled from the previous session
+    const [repsInput, setRepsInput] = useState('');
+    const [loadInput, setLoadInput] = useState('');
+    const [loadUnit, setLoadUnit] = useState<LoadUnit>('kg');
+    const [rpeInput, setRpeInput] = useState('');
+
     const [videoSrcMap, setVideoSrcMap] = useState<Record<string, string>>({});
     const videoRef = useRef<HTMLVideoElement>(null);
     const loadedKeysRef = useRef<Set<string>>(new Set());
@@ -45,6 +94,27 @@ const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, librar
         [libraryExercises, currentPlannedExercise]
     );
 
+    const previousSet = useMemo(() =>
+        findPreviousSet(workoutLogs, currentPlannedExercise.originalExerciseId, currentSet),
+        [workoutLogs, currentPlannedExercise, currentSet]
+    );
+
+    useEffect(() => {
+        // Prefer what was entered for this set earlier in the session (e.g. after going back)
+        const alreadyLogged = loggedExercises[currentExerciseIndex]?.sets.find(s => s.setNumber === currentSet);
+        const source = alreadyLogged || previousSet;
+        const targetReps = source?.reps ?? parseTargetReps(currentPlannedExercise.reps);
+        setRepsInput(targetReps !== undefined ? String(targetReps) : '');
+        // Targets from the progression engine take precedence over last session's load
+        const load = alreadyLogged?.load ?? currentPlannedExercise.targetLoad ?? source?.load;
+        setLoadInput(load !== undefined ? String(load) : '');
+        const unit = alreadyLogged?.loadUnit ?? currentPlannedExercise.loadUnit ?? source?.loadUnit;
+        if (unit) {
+            setLoadUnit(unit);
+        }
+        setRpeInput(source?.rpe !== undefined ? String(source.rpe) : '');
+    }, [currentExerciseIndex, currentSet, previousSet]);
+
     useEffect(() => {
         const loadVideos = async () => {
             const newSrcMap: Record<string, string> = {};
@@ -178,26 +248,57 @@ const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, librar
         }
     };
 
+    const finishWorkout = (logged: LoggedExercise[] = loggedExercises) => {
+        const log: WorkoutLog = {
+            id: `log-${Date.now()}`,
+            planTitle: plan.title,
+            day: day.day,
+            focus: day.focus,
+            startedAt: startedAtRef.current,
+            finishedAt: new Date().toISOString(),
+            deload: plan.progression?.isDeloadWeek || undefined,
+            exercises: logged.map((entry, index) => withSkippedSets(day.exercises[index], entry)),
+        };
+        onFinish(log);
+    };
+
     const handleCompleteSet = () => {
-        const totalSets = parseInt(currentPlannedExercise.sets?.match(/^\d+/)?.[0] || '1', 10);
+        const totalSets = parseSetCount(currentPlannedExercise.sets);
         const restDuration = parseRestTime(currentPlannedExercise.rest);
 
+        const load = parseOptionalNumber(loadInput);
+        const completedSet: LoggedSet = {
+            setNumber: currentSet,
+            reps: parseOptionalNumber(repsInput),
+            load,
+            loadUnit: load !== undefined ? loadUnit : undefined,
+            rpe: parseOptionalNumber(rpeInput),
+            completedAt: new Date().toISOString(),
+            skipped: false,
+        };
+        const updatedLog = loggedExercises.map((entry, index) =>
+            index === currentExerciseIndex
+                ? { ...entry, sets: [...entry.sets.filter(s => s.setNumber !== currentSet), completedSet] }
+                : entry
+        );
+        setLoggedExercises(updatedLog);
+
         if (currentSet < totalSets) {
             setCurrentSet(currentSet + 1);
             setRestTimeLeft(restDuration);
             setIsResting(true);
         } else {
-            handleNextExercise();
+            handleNextExercise(updatedLog);
         }
     };
     
-    const handleNextExercise = () => {
+    const handleNextExercise = (logged: LoggedExercise[] = loggedExercises) => {
         setIsResting(false);
         if (currentExerciseIndex < day.exercises.length - 1) {
             setCurrentExerciseIndex(currentExerciseIndex + 1);
             setCurrentSet(1);
         } else {
-            onFinish();
+            finishWorkout(logged);
         }
     };
 
@@ -245,6 +346,9 @@ const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, librar
                 <h1 className="text-xl font-bold text-gray-500">{plan.title}</h1>
                 <h2 className="text-3xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-primary-600 to-indigo-700">{day.day}: {day.focus}</h2>
                 <p className="text-sm text-gray-500">Exercise {currentExerciseIndex + 1} of {day.exercises.length}</p>
+                {plan.progression?.isDeloadWeek && (
+                    <p className="text-xs font-semibold text-indigo-600 mt-1">Deload week - keep it light</p>
+                )}
             </header>
 
             <div className="w-full aspect-video bg-black rounded-lg overflow-hidden shadow-lg mb-4">
@@ -280,6 +384,9 @@ const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, librar
                  <div>
                     <span className="block text-sm font-medium text-gray-500">Reps</span>
                     <span className="text-3xl font-bold text-primary-600">{currentPlannedExercise.reps || 'N/A'}</span>
+                    {currentPlannedExercise.targetLoad !== undefined && (
+                        <span className="block text-sm font-semibold text-gray-600">@ {currentPlannedExercise.targetLoad}{currentPlannedExercise.loadUnit || ''}</span>
+                    )}
                 </div>
                  <div>
                     <span className="block text-sm font-medium text-gray-500">Rest</span>
@@ -287,6 +394,62 @@ const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, librar
                 </div>
             </div>
 
+            <div className="grid grid-cols-3 gap-3 mb-2">
+                <div>
+                    <label htmlFor="set-reps" className="block text-xs font-medium text-gray-500 mb-1">Reps done</label>
+                    <input
+                        id="set-reps"
+                        type="number"
+                        inputMode="numeric"
+                        min={0}
+                        value={repsInput}
+                        onChange={(e) => setRepsInput(e.target.value)}
+                        className="w-full px-3 py-2 text-lg font-semibold text-center border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="set-load" className="block text-xs font-medium text-gray-500 mb-1">Load</label>
+                    <div className="flex">
+                        <input
+                            id="set-load"
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            step="0.5"
+                            value={loadInput}
+                            onChange={(e) => setLoadInput(e.target.value)}
+                            placeholder="BW"
+                            className="w-full min-w-0 px-3 py-2 text-lg font-semibold text-center border border-gray-300 rounded-l-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                        <button
+                            type="button"
+                            onClick={() => setLoadUnit(loadUnit === 'kg' ? 'lb' : 'kg')}
+                            className="px-3 text-sm font-semibold text-gray-700 bg-gray-200 border border-l-0 border-gray-300 rounded-r-lg"
+                            aria-label={`Switch load unit (currently ${loadUnit})`}
+                        >
+                            {loadUnit}
+                        </button>
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="set-rpe" className="block text-xs font-medium text-gray-500 mb-1">RPE (optional)</label>
+                    <select
+                        id="set-rpe"
+                        value={rpeInput}
+                        onChange={(e) => setRpeInput(e.target.value)}
+                        className="w-full px-3 py-2 text-lg font-semibold text-center border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                        <option value="">-</option>
+                        {[6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10].map(rpe => <option key={rpe} value={rpe}>{rpe}</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 text-center mb-4">
+                {previousSet
+                    ? `Last time: ${previousSet.reps ?? '?'} reps${previousSet.load !== undefined ? ` @ ${previousSet.load}${previousSet.loadUnit || ''}` : ''}${previousSet.rpe !== undefined ? ` (RPE ${previousSet.rpe})` : ''}`
+                    : 'No previous sessions for this exercise.'}
+            </p>
+
             <button
                 onClick={handleCompleteSet}
                 className="w-full py-4 text-xl font-bold text-white bg-green-500 rounded-lg shadow-lg hover:bg-green-600 transition-transform transform hover:scale-105"
@@ -303,13 +466,13 @@ const InteractiveWorkout: React.FC<InteractiveWorkoutProps> = ({ session, librar
                     &larr; Previous
                 </button>
                 <button 
-                    onClick={onFinish}
+                    onClick={() => finishWorkout()}
                     className="px-6 py-2 text-red-700 bg-red-100 rounded-lg"
                 >
                    Finish Workout
                 </button>
                  <button 
-                    onClick={handleNextExercise}
+                    onClick={() => handleNextExercise()}
                     className="px-6 py-2 text-white bg-primary-500 rounded-lg"
                  >
                     {currentExerciseIndex === day.exercises.length - 1 ? 'Finish' : 'Next'} &rarr;
@@ -2,10 +2,18 @@
 import React, { useState } from 'react';
 import { SparklesIcon } from './icons';
 
+export interface PlanGenerationOptions {
+  goal: string;
+  trainingDays: number;
+  useProModel: boolean;
+  programWeeks?: number; // Set for a multi-week program, unset for a single week
+  ignoreCache?: boolean; // Generate again instead of reusing the result of an identical request
+}
+
 interface PlanGenerationModalProps {
   isVisible: boolean;
   onClose: () => void;
-  onGenerate: (options: { goal: string; trainingDays: number; useProModel: boolean }) => void;
+  onGenerate: (options: PlanGenerationOptions) => void;
   isLoading: boolean;
 }
 
@@ -18,16 +26,21 @@ const goals = [
 
 const trainingDaysOptions = [3, 4, 5];
 
+const programWeeksOptions = [4, 6, 8, 12];
+
 const PlanGenerationModal: React.FC<PlanGenerationModalProps> = ({ isVisible, onClose, onGenerate, isLoading }) => {
   const [goal, setGoal] = useState(goals[0]);
   const [trainingDays, setTrainingDays] = useState(4);
   const [useProModel, setUseProModel] = useState(false);
+  const [ignoreCache, setIgnoreCache] = useState(false);
+  const [mode, setMode] = useState<'week' | 'program'>('week');
+  const [programWeeks, setProgramWeeks] = useState(8);
 
   if (!isVisible) return null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onGenerate({ goal, trainingDays, useProModel });
+    onGenerate({ goal, trainingDays, useProModel, programWeeks: mode === 'program' ? programWeeks : undefined, ignoreCache });
   };
 
   return (
@@ -52,6 +65,49 @@ const PlanGenerationModal: React.FC<PlanGenerationModalProps> = ({ isVisible, on
         <p className="text-gray-600 mb-6">Tell the AI what you're training for to get a better plan.</p>
         
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">What kind of plan?</span>
+            <div className="flex space-x-2">
+              {([['week', 'Single Week'], ['program', 'Multi-Week Program']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={`flex-1 py-2 px-4 rounded-md text-sm font-semibold transition-colors ${
+                    mode === value
+                      ? 'bg-primary-600 text-white shadow'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {mode === 'program' && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">How many weeks?</span>
+              <div className="flex space-x-2">
+                {programWeeksOptions.map(weeks => (
+                  <button
+                    key={weeks}
+                    type="button"
+                    onClick={() => setProgramWeeks(weeks)}
+                    className={`flex-1 py-2 px-4 rounded-md text-sm font-semibold transition-colors ${
+                      programWeeks === weeks
+                        ? 'bg-primary-600 text-white shadow'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {weeks} wks
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Includes intensity phases and deload weeks. Longer programs take longer to generate.</p>
+            </div>
+          )}
+
           <div>
             <label htmlFor="goal" className="block text-sm font-medium text-gray-700 mb-2">
               What is your primary goal?
@@ -107,6 +163,27 @@ const PlanGenerationModal: React.FC<PlanGenerationModalProps> = ({ isVisible, on
             </div>
           </div>
 
+          <div className="relative flex items-start">
+            <div className="flex items-center h-5">
+              <input
+                id="ignore-cache"
+                name="ignore-cache"
+                type="checkbox"
+                checked={ignoreCache}
+                onChange={(e) => setIgnoreCache(e.target.checked)}
+                className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded"
+              />
+            </div>
+            <div className="ml-3 text-sm">
+              <label htmlFor="ignore-cache" className="font-medium text-gray-700">
+                Generate a Fresh Plan
+              </label>
+              <p className="text-gray-500">
+                The same request made in the last week reuses its earlier result. Tick this to get a different one.
+              </p>
+            </div>
+          </div>
+
           <div className="pt-2">
             <button
               type="submit"
@@ -114,7 +191,7 @@ const PlanGenerationModal: React.FC<PlanGenerationModalProps> = ({ isVisible, on
               className="w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-lg shadow-sm text-white bg-green-500 hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:opacity-50"
             >
               <SparklesIcon className="w-5 h-5 mr-2" />
-              {isLoading ? 'Generating...' : 'Generate My Plan'}
+              {isLoading ? 'Generating...' : mode === 'program' ? 'Generate My Program' : 'Generate My Plan'}
             </button>
           </div>
         </form>
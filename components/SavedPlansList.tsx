@@ -1,16 +1,22 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { SavedWorkoutPlanEntry } from '../types';
-import { TrashIcon, VideoCameraIcon as EyeIcon } from './icons'; // Reusing VideoCameraIcon as an "Eye" icon for view
+import { TrashIcon, CalendarIcon, VideoCameraIcon as EyeIcon } from './icons'; // Reusing VideoCameraIcon as an "Eye" icon for view
+import { isProgram } from '../services/program';
+import { getTodayKey } from '../services/schedule';
 
 interface SavedPlansListProps {
   savedPlans: SavedWorkoutPlanEntry[];
-  onViewPlan: (planId: string) => void;
+  onViewPlan: (planId: string, weekIndex?: number) => void;
   onDeletePlan: (planId: string) => void;
+  onActivatePlan: (planId: string, startDate: string) => void;
   isLoading: boolean;
 }
 
-const SavedPlansList: React.FC<SavedPlansListProps> = ({ savedPlans, onViewPlan, onDeletePlan, isLoading }) => {
+const SavedPlansList: React.FC<SavedPlansListProps> = ({ savedPlans, onViewPlan, onDeletePlan, onActivatePlan, isLoading }) => {
+  const [schedulingPlanId, setSchedulingPlanId] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState(getTodayKey());
+
   if (isLoading) {
     return (
       <div className="text-center py-4">
@@ -33,31 +39,86 @@ const SavedPlansList: React.FC<SavedPlansListProps> = ({ savedPlans, onViewPlan,
       <h3 className="text-xl font-semibold text-gray-800 mb-3">Your Saved Workout Plans</h3>
       <div className="space-y-3 max-h-96 overflow-y-auto">
         {savedPlans.slice().sort((a,b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime()).map((entry) => (
-          <div key={entry.id} className="p-3 bg-gray-50 rounded-lg shadow-sm flex justify-between items-center">
-            <div>
-              <h4 className="font-medium text-primary-700">{entry.name}</h4>
-              <p className="text-xs text-gray-500">
-                Saved: {new Date(entry.savedAt).toLocaleString()}
-              </p>
-            </div>
-            <div className="flex space-x-2">
-              <button
-                onClick={() => onViewPlan(entry.id)}
-                className="p-2 text-blue-500 hover:text-blue-700 hover:bg-blue-100 rounded-full transition-colors"
-                aria-label={`View plan: ${entry.name}`}
-                title="View Plan"
-              >
-                <EyeIcon className="w-5 h-5" />
-              </button>
-              <button
-                onClick={() => onDeletePlan(entry.id)}
-                className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition-colors"
-                aria-label={`Delete plan: ${entry.name}`}
-                title="Delete Plan"
-              >
-                <TrashIcon className="w-5 h-5" />
-              </button>
+          <div key={entry.id} className="p-3 bg-gray-50 rounded-lg shadow-sm">
+            <div className="flex justify-between items-center">
+              <div className="min-w-0">
+                <h4 className="font-medium text-primary-700">
+                  {entry.name}
+                  {entry.schedule && <span className="ml-2 text-[10px] font-semibold bg-green-100 text-green-700 px-2 py-0.5 rounded-full">Active</span>}
+                </h4>
+                <p className="text-xs text-gray-500">
+                  Saved: {new Date(entry.savedAt).toLocaleString()}
+                  {isProgram(entry.plan) && ` · ${entry.plan.weeks.length}-week program`}
+                </p>
+                {isProgram(entry.plan) && (
+                  <div className="flex gap-1 mt-2 overflow-x-auto">
+                    {entry.plan.weeks.map((week, weekIndex) => (
+                      <button
+                        key={week.week}
+                        onClick={() => onViewPlan(entry.id, weekIndex)}
+                        className={`flex-shrink-0 px-2 py-0.5 text-[10px] font-semibold rounded ${
+                          week.isDeload ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-200 text-gray-700'
+                        } hover:bg-primary-100`}
+                        title={`Open week ${week.week}: ${week.phase}`}
+                      >
+                        W{week.week}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => {
+                    setSchedulingPlanId(schedulingPlanId === entry.id ? null : entry.id);
+                    setStartDate(getTodayKey());
+                  }}
+                  className="p-2 text-green-600 hover:text-green-800 hover:bg-green-100 rounded-full transition-colors"
+                  aria-label={`Schedule plan: ${entry.name}`}
+                  title="Schedule on Calendar"
+                >
+                  <CalendarIcon className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => onViewPlan(entry.id)}
+                  className="p-2 text-blue-500 hover:text-blue-700 hover:bg-blue-100 rounded-full transition-colors"
+                  aria-label={`View plan: ${entry.name}`}
+                  title="View Plan"
+                >
+                  <EyeIcon className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => onDeletePlan(entry.id)}
+                  className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition-colors"
+                  aria-label={`Delete plan: ${entry.name}`}
+                  title="Delete Plan"
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
             </div>
+            {schedulingPlanId === entry.id && (
+              <div className="mt-3 flex items-center gap-2">
+                <label htmlFor={`start-${entry.id}`} className="text-xs text-gray-600">Start on</label>
+                <input
+                  id={`start-${entry.id}`}
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+                <button
+                  onClick={() => {
+                    if (!startDate) return;
+                    onActivatePlan(entry.id, startDate);
+                    setSchedulingPlanId(null);
+                  }}
+                  className="px-3 py-1 text-sm font-semibold text-white bg-green-500 hover:bg-green-600 rounded-md"
+                >
+                  Activate
+                </button>
+              </div>
+            )}
           </div>
         ))}
       </div>
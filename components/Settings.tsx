@@ -0,0 +1,531 @@
+import React, { useState } from 'react';
+import * as apiService from '../services/apiService';
+import * as geminiService from '../services/geminiService';
+import * as uploadQueue from '../services/uploadQueue';
+import { CompressionQuality, CompressionSettings } from '../services/uploadQueue';
+import { User } from '../types';
+import { BackendConfig, BackendType } from '../services/apiService';
+import { AIProviderConfig, AIProviderType } from '../services/geminiService';
+import AICachePanel from './AICachePanel';
+import AutoBackupPanel from './AutoBackupPanel';
+import DataBackupRestore from './DataBackupRestore';
+import StorageUsagePanel from './StorageUsagePanel';
+
+interface SettingsProps {
+  currentUser: User;
+  onChangeBackend: (config: BackendConfig) => Promise<void>;
+  onDataRestored: () => Promise<void>;
+}
+
+const inputClassName = "w-full px-4 py-3 bg-gray-950 border border-gray-800 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-white focus:border-transparent transition-all";
+
+const ChangePasswordForm: React.FC = () => {
+  // Accounts from before passwords were stored set their first one here
+  const [needsPassword, setNeedsPassword] = useState(apiService.needsPassword);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+    if (newPassword !== confirmPassword) {
+      setError("New passwords do not match.");
+      return;
+    }
+    setIsLoading(true);
+    try {
+      if (needsPassword) {
+        await apiService.setPassword(newPassword);
+        setNeedsPassword(false);
+        setSuccess("Password set. Use it to log in from now on.");
+      } else {
+        await apiService.changePassword(currentPassword, newPassword);
+        setSuccess("Password changed.");
+      }
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change password.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="text-lg font-bold text-white">{needsPassword ? 'Set a Password' : 'Change Password'}</h3>
+      {needsPassword && (
+        <p className="text-xs text-yellow-200 bg-yellow-950/30 p-2 rounded-lg border border-yellow-900/30" role="alert">
+          Your account was created before passwords were required. Set one now: you won't be able to log back in after logging out until you do.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      {success && <p className="text-xs text-green-200 bg-green-950 p-2 rounded-lg border border-green-900">{success}</p>}
+      {!needsPassword && (
+        <div>
+          <label htmlFor="current-password" className="block text-sm font-semibold text-white mb-2">Current Password</label>
+          <input
+            id="current-password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={currentPassword}
+            onChange={e => setCurrentPassword(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      )}
+      <div>
+        <label htmlFor="new-password" className="block text-sm font-semibold text-white mb-2">New Password</label>
+        <input
+          id="new-password"
+          type="password"
+          autoComplete="new-password"
+          required
+          value={newPassword}
+          onChange={e => setNewPassword(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="confirm-new-password" className="block text-sm font-semibold text-white mb-2">Confirm New Password</label>
+        <input
+          id="confirm-new-password"
+          type="password"
+          autoComplete="new-password"
+          required
+          value={confirmPassword}
+          onChange={e => setConfirmPassword(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full py-3 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Saving...' : (needsPassword ? 'Set Password' : 'Change Password')}
+      </button>
+    </form>
+  );
+};
+
+const EncryptionForm: React.FC = () => {
+  const [isEnabled, setIsEnabled] = useState(apiService.isEncryptionEnabled);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+    setIsWorking(true);
+    try {
+      if (isEnabled) {
+        await apiService.disableEncryption(password);
+        setSuccess("Encryption turned off. Your data on this device is no longer encrypted.");
+      } else {
+        await apiService.enableEncryption(password);
+        setSuccess("Your data on this device is now encrypted.");
+      }
+      setIsEnabled(apiService.isEncryptionEnabled());
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update encryption.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          Encryption
+          <span className={`text-[10px] px-2 py-0.5 rounded-lg border ${isEnabled ? 'bg-green-950 text-green-200 border-green-900' : 'bg-gray-900 text-gray-400 border-gray-800'}`}>
+            {isEnabled ? 'On' : 'Off'}
+          </span>
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Encrypts your exercises, plans, history, videos and thumbnails on this device with a key derived from your password.
+          You'll need to log in again each time the app restarts.
+        </p>
+      </div>
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      {success && <p className="text-xs text-green-200 bg-green-950 p-2 rounded-lg border border-green-900">{success}</p>}
+      <div>
+        <label htmlFor="encryption-password" className="block text-sm font-semibold text-white mb-2">Confirm Password</label>
+        <input
+          id="encryption-password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={isWorking}
+        className="w-full py-3 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isWorking ? (isEnabled ? 'Decrypting...' : 'Encrypting...') : (isEnabled ? 'Turn Off Encryption' : 'Encrypt My Data')}
+      </button>
+    </form>
+  );
+};
+
+const VideoProcessingForm: React.FC = () => {
+  const [concurrency, setConcurrency] = useState(uploadQueue.getUploadConcurrency);
+  const [compression, setCompression] = useState(uploadQueue.getCompressionSettings);
+  const [saveClips, setSaveClips] = useState(uploadQueue.isClipSavingEnabled);
+
+  const handleConcurrencyChange = (value: number) => {
+    uploadQueue.setUploadConcurrency(value);
+    setConcurrency(value);
+  };
+
+  const handleCompressionChange = (changes: Partial<CompressionSettings>) => {
+    const next = { ...compression, ...changes };
+    uploadQueue.setCompressionSettings(next);
+    setCompression(next);
+  };
+
+  const optionClassName = (isSelected: boolean) => `py-2 px-3 rounded-xl text-sm font-semibold border transition-all ${
+    isSelected ? 'bg-white text-black border-white' : 'bg-gray-950 text-gray-400 border-gray-800 hover:text-white'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white">Video Processing</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Videos over 50MB are compressed before they're stored and analyzed. Compression runs in real time, so a 5-minute video takes about 5 minutes.
+        </p>
+      </div>
+      <div>
+        <p className="text-sm font-semibold text-white mb-2">Compressed Quality</p>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(uploadQueue.COMPRESSION_PRESETS) as CompressionQuality[]).map(quality => (
+            <button key={quality} type="button" onClick={() => handleCompressionChange({ quality })} className={optionClassName(compression.quality === quality)}>
+              {quality}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={compression.includeAudio}
+          onChange={e => handleCompressionChange({ includeAudio: e.target.checked })}
+        />
+        Keep audio when compressing
+      </label>
+      <label className="flex items-start gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={saveClips}
+          onChange={e => {
+            uploadQueue.setClipSavingEnabled(e.target.checked);
+            setSaveClips(e.target.checked);
+          }}
+        />
+        <span>
+          Save each exercise as its own clip
+          <span className="block text-xs text-gray-500">
+            Keeps just the part of the video each exercise needs and deletes the full video. Uses much less space and plays more reliably on iOS, but cutting clips takes as long as the clips are.
+          </span>
+        </span>
+      </label>
+      <div>
+        <p className="text-sm font-semibold text-white mb-2">Videos Processed at Once</p>
+        <p className="text-xs text-gray-500 mb-2">More is faster but uses more memory and may hit AI rate limits.</p>
+        <div className="grid grid-cols-3 gap-2">
+          {Array.from({ length: uploadQueue.MAX_UPLOAD_CONCURRENCY }, (_, index) => index + 1).map(option => (
+            <button key={option} type="button" onClick={() => handleConcurrencyChange(option)} className={optionClassName(concurrency === option)}>
+              {option} at a time
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const providerLabels: Record<AIProviderType, string> = {
+  gemini: 'Google Gemini',
+  proxy: 'Server Proxy',
+  openai: 'Own Server',
+  mock: 'Offline Demo',
+};
+
+// How often the offline demo provider fails; 0 never fails
+const MOCK_FAILURE_OPTIONS = [0, 3, 5];
+
+const AIProviderForm: React.FC = () => {
+  const [savedConfig, setSavedConfig] = useState(geminiService.getAIProviderConfig);
+  const [config, setConfig] = useState<AIProviderConfig>(() => ({
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    ...savedConfig,
+  }));
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const toSave = (): AIProviderConfig => {
+    if (config.type === 'openai') {
+      return { type: 'openai', baseUrl: config.baseUrl?.trim(), model: config.model?.trim(), apiKey: config.apiKey?.trim() || undefined };
+    }
+    return config.type === 'mock' ? { type: 'mock', mockFailEvery: config.mockFailEvery ?? 0 } : { type: config.type };
+  };
+  const isUnchanged = JSON.stringify(toSave()) === JSON.stringify(savedConfig);
+
+  const handleChange = (changes: Partial<AIProviderConfig>) => {
+    setConfig(current => ({ ...current, ...changes }));
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const next = toSave();
+      geminiService.setAIProviderConfig(next);
+      setSavedConfig(next);
+      setSuccess(`Now using ${providerLabels[next.type]}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to switch AI provider.");
+    }
+  };
+
+  const optionClassName = (isSelected: boolean) => `py-2 px-3 rounded-xl text-sm font-semibold border transition-all ${
+    isSelected ? 'bg-white text-black border-white' : 'bg-gray-950 text-gray-400 border-gray-800 hover:text-white'
+  }`;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white">AI Provider</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Choose what analyzes videos and generates plans. The offline demo gives canned answers without an API key or network, for trying out the app.
+        </p>
+      </div>
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      {success && <p className="text-xs text-green-200 bg-green-950 p-2 rounded-lg border border-green-900">{success}</p>}
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(providerLabels) as AIProviderType[]).map(type => (
+          <button key={type} type="button" onClick={() => handleChange({ type })} className={optionClassName(config.type === type)}>
+            {providerLabels[type]}
+          </button>
+        ))}
+      </div>
+      {config.type === 'gemini' && (
+        <p className="text-xs text-gray-500">
+          Calls Google directly with the API key built into development builds. Released builds don't include the key and use the server proxy.
+        </p>
+      )}
+      {config.type === 'proxy' && (
+        <p className="text-xs text-gray-500">
+          Requests go to Google Gemini through the sync server, which holds the API key and limits how many requests each user makes. Choose Sync Server under Data Backend and log in to use it.
+        </p>
+      )}
+      {config.type === 'openai' && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            Plans and tips are generated by an OpenAI-compatible server, such as llama.cpp or Ollama, so your library isn't sent to Google. Video analysis and voice notes aren't available with this provider.
+          </p>
+          <div>
+            <label htmlFor="ai-base-url" className="block text-sm font-semibold text-white mb-2">Server URL</label>
+            <input
+              id="ai-base-url"
+              type="url"
+              required
+              value={config.baseUrl ?? ''}
+              onChange={e => handleChange({ baseUrl: e.target.value })}
+              className={inputClassName}
+              placeholder="http://localhost:11434/v1"
+            />
+          </div>
+          <div>
+            <label htmlFor="ai-model" className="block text-sm font-semibold text-white mb-2">Model</label>
+            <input
+              id="ai-model"
+              type="text"
+              required
+              value={config.model ?? ''}
+              onChange={e => handleChange({ model: e.target.value })}
+              className={inputClassName}
+              placeholder="llama3.1"
+            />
+          </div>
+          <div>
+            <label htmlFor="ai-api-key" className="block text-sm font-semibold text-white mb-2">API Key (optional)</label>
+            <input
+              id="ai-api-key"
+              type="password"
+              autoComplete="off"
+              value={config.apiKey ?? ''}
+              onChange={e => handleChange({ apiKey: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+      {config.type === 'mock' && (
+        <div>
+          <p className="text-sm font-semibold text-white mb-2">Simulated Failures</p>
+          <p className="text-xs text-gray-500 mb-2">Make some requests fail to see how errors and retries are handled.</p>
+          <div className="grid grid-cols-3 gap-2">
+            {MOCK_FAILURE_OPTIONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleChange({ mockFailEvery: option })}
+                className={optionClassName((config.mockFailEvery ?? 0) === option)}
+              >
+                {option === 0 ? 'Never' : `1 in ${option}`}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={isUnchanged}
+        className="w-full py-3 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Save AI Provider
+      </button>
+    </form>
+  );
+};
+
+const DataBackendForm: React.FC<{ onChangeBackend: (config: BackendConfig) => Promise<void> }> = ({ onChangeBackend }) => {
+  const currentConfig = apiService.getBackendConfig();
+  const [type, setType] = useState<BackendType>(currentConfig.type);
+  const [baseUrl, setBaseUrl] = useState(currentConfig.baseUrl || 'http://localhost:3001');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isUnchanged = type === currentConfig.type && (type === 'local' || baseUrl.trim() === currentConfig.baseUrl);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onChangeBackend(type === 'rest' ? { type, baseUrl: baseUrl.trim() } : { type });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to switch backend.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white">Data Backend</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Choose where your exercises, plans and history are stored. Switching logs you out; data is not copied between backends, so make a backup first if you need it.
+        </p>
+      </div>
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      <div className="grid grid-cols-2 gap-2">
+        {(['local', 'rest'] as BackendType[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setType(option)}
+            className={`py-2 px-3 rounded-xl text-sm font-semibold border transition-all ${
+              type === option ? 'bg-white text-black border-white' : 'bg-gray-950 text-gray-400 border-gray-800 hover:text-white'
+            }`}
+          >
+            {option === 'local' ? 'This Device' : 'Sync Server'}
+          </button>
+        ))}
+      </div>
+      {type === 'rest' && (
+        <div>
+          <label htmlFor="backend-url" className="block text-sm font-semibold text-white mb-2">Server URL</label>
+          <input
+            id="backend-url"
+            type="url"
+            required
+            value={baseUrl}
+            onChange={e => setBaseUrl(e.target.value)}
+            className={inputClassName}
+            placeholder="http://localhost:3001"
+          />
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={isSaving || isUnchanged}
+        className="w-full py-3 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSaving ? 'Switching...' : 'Switch and Log Out'}
+      </button>
+    </form>
+  );
+};
+
+const Settings: React.FC<SettingsProps> = ({ currentUser, onChangeBackend, onDataRestored }) => {
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-white">Settings</h2>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <h3 className="text-lg font-bold text-white">Account</h3>
+        <p className="text-sm text-gray-400 mt-1">Signed in as {currentUser.email}</p>
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <ChangePasswordForm />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <EncryptionForm />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <VideoProcessingForm />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <AIProviderForm />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <DataBackendForm onChangeBackend={onChangeBackend} />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <DataBackupRestore onRestore={onDataRestored} />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <AutoBackupPanel currentUser={currentUser} onRestore={onDataRestored} />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <StorageUsagePanel />
+      </div>
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+        <AICachePanel />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,141 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import * as storageUsage from '../services/storageUsage';
+import { StorageUsage } from '../services/storageUsage';
+import { formatMegabytes } from './DataBackupRestore';
+
+// Orphans are listed largest first; beyond this many the rest are summarized
+const MAX_LISTED_ORPHANS = 20;
+
+const StorageUsagePanel: React.FC = () => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReclaiming, setIsReclaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const refreshUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setUsage(await storageUsage.getStorageUsage());
+    } catch (err) {
+      console.error('Failed to measure storage:', err);
+      setError('Could not measure the storage used on this device.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const orphanBytes = usage?.orphans.reduce((sum, file) => sum + file.size, 0) ?? 0;
+
+  const handleReclaim = async () => {
+    if (!usage) return;
+    if (!window.confirm(`Delete ${usage.orphans.length} unused file${usage.orphans.length === 1 ? '' : 's'} (${formatMegabytes(orphanBytes)})? No exercise uses them.`)) {
+      return;
+    }
+    setError(null);
+    setSuccess(null);
+    setIsReclaiming(true);
+    try {
+      const freed = await storageUsage.reclaimOrphanedMedia();
+      setSuccess(`Deleted ${freed.count} unused file${freed.count === 1 ? '' : 's'} and freed ${formatMegabytes(freed.bytes)}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete unused files.');
+    } finally {
+      setIsReclaiming(false);
+      await refreshUsage();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white">Storage</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Space used by videos and thumbnails on this device, shared by every account that signs in here.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-400 bg-red-950/30 p-2 rounded-lg border border-red-900/30" role="alert">{error}</p>}
+      {success && <p className="text-xs text-green-200 bg-green-950 p-2 rounded-lg border border-green-900">{success}</p>}
+
+      {!usage ? (
+        <p className="text-xs text-gray-500">{isLoading ? 'Measuring...' : 'Storage usage unavailable.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-3 bg-gray-950 border border-gray-800 rounded-xl">
+              <p className="text-xs text-gray-500">Videos</p>
+              <p className="text-sm font-semibold text-white">{formatMegabytes(usage.videos.bytes)}</p>
+              <p className="text-xs text-gray-500">{usage.videos.count} file{usage.videos.count === 1 ? '' : 's'}</p>
+            </div>
+            <div className="p-3 bg-gray-950 border border-gray-800 rounded-xl">
+              <p className="text-xs text-gray-500">Thumbnails</p>
+              <p className="text-sm font-semibold text-white">{formatMegabytes(usage.thumbnails.bytes)}</p>
+              <p className="text-xs text-gray-500">{usage.thumbnails.count} file{usage.thumbnails.count === 1 ? '' : 's'}</p>
+            </div>
+          </div>
+
+          {usage.estimate && (
+            <p className="text-xs text-gray-500">
+              The app uses {formatMegabytes(usage.estimate.usage)} of {formatMegabytes(usage.estimate.quota)} available, backups included.
+            </p>
+          )}
+
+          {!usage.canReclaim ? (
+            <p className="text-xs text-gray-400 bg-gray-950 p-2 rounded-lg border border-gray-800">
+              Another account on this device has encrypted data, so unused files can't be identified safely.
+            </p>
+          ) : usage.orphans.length === 0 ? (
+            <p className="text-xs text-gray-500">No unused files. Everything stored belongs to an exercise.</p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-white">
+                <span className="font-semibold">{usage.orphans.length} unused file{usage.orphans.length === 1 ? '' : 's'}</span>
+                <span className="text-gray-400"> taking {formatMegabytes(orphanBytes)}</span>
+              </p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {usage.orphans.slice(0, MAX_LISTED_ORPHANS).map(file => (
+                  <li key={`${file.kind}-${file.key}`} className="flex items-center gap-3 text-xs">
+                    <span className="text-[10px] px-2 py-0.5 rounded-lg border bg-gray-900 text-gray-400 border-gray-800 capitalize flex-shrink-0">
+                      {file.kind}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate text-gray-400">{file.key}</span>
+                    <span className="text-gray-500 flex-shrink-0">{formatMegabytes(file.size)}</span>
+                  </li>
+                ))}
+              </ul>
+              {usage.orphans.length > MAX_LISTED_ORPHANS && (
+                <p className="text-xs text-gray-500">and {usage.orphans.length - MAX_LISTED_ORPHANS} more</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              type="button"
+              onClick={refreshUsage}
+              disabled={isLoading || isReclaiming}
+              className="py-3 px-4 rounded-xl text-sm font-semibold border border-gray-800 text-gray-300 bg-gray-950 hover:text-white transition-all disabled:opacity-50"
+            >
+              {isLoading ? 'Measuring...' : 'Refresh'}
+            </button>
+            <button
+              type="button"
+              onClick={handleReclaim}
+              disabled={isReclaiming || !usage.canReclaim || usage.orphans.length === 0}
+              className="py-3 px-4 rounded-xl text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isReclaiming ? 'Deleting...' : 'Reclaim Space'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StorageUsagePanel;
@@ -0,0 +1,161 @@
+import React from 'react';
+import { SavedWorkoutPlanEntry, ScheduledWorkout, WorkoutSession } from '../types';
+import { CalendarIcon, PlayIcon } from './icons';
+import { getPlanForWeek } from '../services/program';
+import {
+  getTodayKey,
+  getScheduledDay,
+  getWorkoutStatus,
+  getWorkoutsForWeekOf,
+  ScheduledWorkoutStatus,
+} from '../services/schedule';
+
+interface TodayWorkoutProps {
+  activeEntry: SavedWorkoutPlanEntry | null;
+  onStartWorkout: (session: WorkoutSession) => void;
+  onRescheduleWorkout: (workout: ScheduledWorkout) => void;
+  onDeactivate: () => void;
+}
+
+const statusStyles: Record<ScheduledWorkoutStatus, string> = {
+  completed: 'bg-green-950 text-green-200 border-green-900',
+  missed: 'bg-red-950 text-red-200 border-red-900',
+  today: 'bg-white text-black border-white',
+  upcoming: 'bg-gray-900 text-gray-400 border-gray-800',
+};
+
+const statusLabels: Record<ScheduledWorkoutStatus, string> = {
+  completed: 'Done',
+  missed: 'Missed',
+  today: 'Today',
+  upcoming: 'Upcoming',
+};
+
+const formatDate = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const TodayWorkout: React.FC<TodayWorkoutProps> = ({ activeEntry, onStartWorkout, onRescheduleWorkout, onDeactivate }) => {
+  if (!activeEntry?.schedule) {
+    return (
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800 flex items-center gap-3">
+        <CalendarIcon className="w-6 h-6 text-gray-500 flex-shrink-0" />
+        <p className="text-sm text-gray-400">
+          No plan on your calendar. Activate a saved plan from the Plans tab to see today's workout here.
+        </p>
+      </div>
+    );
+  }
+
+  const { plan, schedule } = activeEntry;
+  const todayKey = getTodayKey();
+  const todaysWorkouts = schedule.workouts.filter(w => w.date === todayKey);
+  const nextWorkout = schedule.workouts.find(w => w.date > todayKey && !w.completedLogId);
+  const weekWorkouts = getWorkoutsForWeekOf(schedule, todayKey);
+  const missedWorkouts = schedule.workouts.filter(w => getWorkoutStatus(w, todayKey) === 'missed');
+
+  const startScheduledWorkout = (workout: ScheduledWorkout) => {
+    const day = getScheduledDay(plan, workout);
+    if (!day) return;
+    onStartWorkout({
+      plan: getPlanForWeek(plan, workout.weekIndex),
+      day,
+      scheduled: { planEntryId: activeEntry.id, date: workout.date },
+    });
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center">
+            <CalendarIcon className="w-5 h-5 mr-2" />
+            Today's Workout
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">{activeEntry.name}</p>
+        </div>
+        <button onClick={onDeactivate} className="text-xs text-gray-500 hover:text-red-400">
+          Clear schedule
+        </button>
+      </div>
+
+      {todaysWorkouts.length > 0 ? (
+        todaysWorkouts.map(workout => {
+          const day = getScheduledDay(plan, workout);
+          const status = getWorkoutStatus(workout, todayKey);
+          return (
+            <div key={`${workout.weekIndex}-${workout.dayIndex}`} className="p-4 bg-gray-950 rounded-xl border border-gray-800 flex items-center justify-between">
+              <div>
+                <h4 className="text-lg font-bold text-white">{day?.day}{day?.focus ? `: ${day.focus}` : ''}</h4>
+                <p className="text-xs text-gray-400">{day?.exercises.length ?? 0} exercises</p>
+              </div>
+              {status === 'completed' ? (
+                <span className={`text-xs px-3 py-1.5 rounded-xl border ${statusStyles.completed}`}>Completed ✓</span>
+              ) : (
+                <button
+                  onClick={() => startScheduledWorkout(workout)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black rounded-xl shadow-lg hover:from-gray-100 hover:to-gray-300 transition-all"
+                >
+                  <PlayIcon className="w-4 h-4" />
+                  Start
+                </button>
+              )}
+            </div>
+          );
+        })
+      ) : (
+        <div className="p-4 bg-gray-950 rounded-xl border border-gray-800">
+          <h4 className="text-lg font-bold text-white">Rest day</h4>
+          <p className="text-xs text-gray-400">
+            {nextWorkout ? `Next workout: ${formatDate(nextWorkout.date)}` : 'No more workouts scheduled for this plan.'}
+          </p>
+        </div>
+      )}
+
+      {missedWorkouts.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-xs font-semibold text-red-300">Missed</h5>
+          {missedWorkouts.map(workout => {
+            const day = getScheduledDay(plan, workout);
+            return (
+              <div key={`${workout.weekIndex}-${workout.dayIndex}-${workout.date}`} className="flex items-center justify-between p-2 bg-red-950/30 rounded-lg border border-red-900/30">
+                <span className="text-xs text-red-200">{formatDate(workout.date)} - {day?.day}{day?.focus ? `: ${day.focus}` : ''}</span>
+                <button
+                  onClick={() => onRescheduleWorkout(workout)}
+                  className="text-xs font-semibold text-white bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded-lg"
+                  title="Move this workout to today and shift the rest of the week"
+                >
+                  Do today
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {weekWorkouts.length > 0 && (
+        <div>
+          <h5 className="text-xs font-semibold text-gray-400 mb-2">This week</h5>
+          <div className="flex flex-wrap gap-2">
+            {weekWorkouts.map(workout => {
+              const status = getWorkoutStatus(workout, todayKey);
+              const day = getScheduledDay(plan, workout);
+              return (
+                <span
+                  key={`${workout.weekIndex}-${workout.dayIndex}-${workout.date}`}
+                  className={`text-[10px] px-2 py-1 rounded-lg border ${statusStyles[status]}`}
+                  title={day?.focus}
+                >
+                  {formatDate(workout.date)} · {statusLabels[status]}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodayWorkout;
@@ -0,0 +1,113 @@
+import React from 'react';
+import * as uploadQueue from '../services/uploadQueue';
+import { UploadQueueItem } from '../types';
+
+interface UploadQueuePanelProps {
+  items: UploadQueueItem[];
+}
+
+const statusStyles: Record<UploadQueueItem['status'], string> = {
+  pending: 'bg-gray-900 text-gray-400 border-gray-800',
+  processing: 'bg-blue-950 text-blue-200 border-blue-900',
+  completed: 'bg-green-950 text-green-200 border-green-900',
+  failed: 'bg-red-950 text-red-200 border-red-900',
+  cancelled: 'bg-gray-900 text-gray-500 border-gray-800',
+};
+
+const describeItem = (item: UploadQueueItem): string => {
+  switch (item.status) {
+    case 'processing':
+      return item.stage ? `${item.stage}...` : 'Starting...';
+    case 'pending':
+      return item.stage ? `${item.stage} (attempt ${item.retryCount + 1})` : 'Waiting';
+    case 'completed':
+      return item.exerciseCount ? `${item.exerciseCount} new exercise${item.exerciseCount === 1 ? '' : 's'} added` : 'No new exercises found';
+    case 'failed':
+      return item.error || 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+const UploadQueuePanel: React.FC<UploadQueuePanelProps> = ({ items }) => {
+  if (items.length === 0) return null;
+
+  const activeCount = items.filter(item => item.status === 'pending' || item.status === 'processing').length;
+  const hasCompleted = items.some(item => item.status === 'completed');
+
+  const handleRemove = async (id: string) => {
+    try {
+      await uploadQueue.removeUpload(id);
+    } catch (err) {
+      console.error('Failed to remove upload:', err);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-5 border border-gray-800">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-bold text-white">Video Queue</h3>
+          <p className="text-xs text-gray-500">
+            {activeCount > 0 ? `${activeCount} video${activeCount === 1 ? '' : 's'} left. You can keep using the app meanwhile.` : 'All done.'}
+          </p>
+        </div>
+        {hasCompleted && (
+          <button
+            onClick={uploadQueue.clearCompletedUploads}
+            className="text-xs font-semibold text-gray-400 hover:text-white transition-colors"
+          >
+            Clear Completed
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {items.map(item => (
+          <li key={item.id} className="p-3 bg-gray-950 border border-gray-800 rounded-xl">
+            <div className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-white truncate">{item.file.name}</p>
+                <p className={`text-xs truncate ${item.status === 'failed' ? 'text-red-400' : 'text-gray-500'}`}>{describeItem(item)}</p>
+              </div>
+              <span className={`text-[10px] px-2 py-0.5 rounded-lg border capitalize flex-shrink-0 ${statusStyles[item.status]}`}>
+                {item.status}
+              </span>
+              {(item.status === 'pending' || item.status === 'processing') && (
+                <button
+                  onClick={() => uploadQueue.cancelUpload(item.id)}
+                  className="py-1.5 px-3 rounded-xl text-xs font-semibold border border-gray-800 text-gray-400 hover:text-white transition-all"
+                >
+                  Cancel
+                </button>
+              )}
+              {(item.status === 'failed' || item.status === 'cancelled') && (
+                <>
+                  <button
+                    onClick={() => uploadQueue.retryUpload(item.id)}
+                    className="py-1.5 px-3 rounded-xl text-xs font-bold bg-white text-black hover:bg-gray-200 transition-all"
+                  >
+                    Retry
+                  </button>
+                  <button
+                    onClick={() => handleRemove(item.id)}
+                    className="py-1.5 px-3 rounded-xl text-xs font-semibold border border-gray-800 text-gray-400 hover:text-white transition-all"
+                  >
+                    Remove
+                  </button>
+                </>
+              )}
+            </div>
+            {item.status === 'processing' && (
+              <div className="w-full bg-gray-800 rounded-full h-1.5 mt-2">
+                <div className="bg-white h-1.5 rounded-full transition-all" style={{ width: `${item.progress}%` }} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadQueuePanel;
@@ -2,25 +2,64 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { VideoCameraIcon, ArrowUpTrayIcon, SparklesIcon, TrashIcon } from './icons';
 import { VideoAnalysisPayload } from '../App';
+import { Exercise } from '../types';
+import { generateVideoHash } from '../services/videoUtils';
 
 export interface VideoPreview {
   id: string;
   file: File;
+  videoHash?: string;
+  hashProgress?: number; // Percent hashed, while the file is being checked
+  libraryAction?: LibraryDuplicateAction; // What to do if the library already has this video
 }
 
+// What to do with a video whose exercises are already in the library
+type LibraryDuplicateAction = 'skip' | 'reanalyze' | 'attach';
+
+const LIBRARY_DUPLICATE_ACTIONS: { action: LibraryDuplicateAction; label: string }[] = [
+  { action: 'skip', label: 'Skip' },
+  { action: 'reanalyze', label: 'Re-analyze' },
+  { action: 'attach', label: 'Add as Angle' },
+];
+
 interface VideoUploadFormProps {
+  exercises: Exercise[];
   onAnalyzeVideos: (payload: VideoAnalysisPayload[], useProModel: boolean) => void;
-  isLoading: boolean;
+  onShowExercise: (name: string) => void;
 }
 
-const MAX_FILE_SIZE_MB = 100;
+// Large recordings are compressed before they're stored and analyzed. One that can't be
+// brought under what Gemini accepts fails in the upload queue with the reason.
+const MAX_FILE_SIZE_MB = 2048;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
-const VideoUploadForm: React.FC<VideoUploadFormProps> = ({ onAnalyzeVideos, isLoading }) => {
+const VideoUploadForm: React.FC<VideoUploadFormProps> = ({ exercises, onAnalyzeVideos, onShowExercise }) => {
   const [videos, setVideos] = useState<VideoPreview[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [useAdvancedAnalysis, setUseAdvancedAnalysis] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Files are hashed one at a time so several large videos don't compete for the disk
+  const hashQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const updateVideo = (id: string, changes: Partial<VideoPreview>) => {
+    setVideos(current => current.map(v => (v.id === id ? { ...v, ...changes } : v)));
+  };
+
+  const hashVideo = async (preview: VideoPreview) => {
+    let percent = 0;
+    try {
+      const videoHash = await generateVideoHash(preview.file, fraction => {
+        if (Math.floor(fraction * 100) === percent) return;
+        percent = Math.floor(fraction * 100);
+        updateVideo(preview.id, { hashProgress: percent });
+      });
+      updateVideo(preview.id, { videoHash, hashProgress: undefined });
+    } catch (err) {
+      // The upload queue hashes it again, so a failure here only skips the duplicate check
+      console.warn(`Could not hash ${preview.file.name}:`, err);
+      updateVideo(preview.id, { hashProgress: undefined });
+    }
+  };
 
   const processFiles = (files: FileList | null) => {
     if (!files || files.length === 0) return;
@@ -46,9 +85,13 @@ const VideoUploadForm: React.FC<VideoUploadFormProps> = ({ onAnalyzeVideos, isLo
     const newVideoPreviews: VideoPreview[] = validFiles.map(file => ({
       id: `${file.name}-${file.lastModified}-${Math.random()}`,
       file,
+      hashProgress: 0,
     }));
 
     setVideos(prev => [...prev, ...newVideoPreviews]);
+    newVideoPreviews.forEach(preview => {
+      hashQueue.current = hashQueue.current.then(() => hashVideo(preview));
+    });
     setError(errors.length > 0 ? errors.join(' ') : null);
   };
 
@@ -66,10 +109,33 @@ const VideoUploadForm: React.FC<VideoUploadFormProps> = ({ onAnalyzeVideos, isLo
     setVideos(currentVideos => currentVideos.filter(v => v.id !== id));
   }, []);
 
+  // The same content selected twice (e.g. saved from two different apps) is only analyzed once
+  const duplicateOf = new Map<string, VideoPreview>();
+  videos.forEach((video, index) => {
+    const original = video.videoHash && videos.slice(0, index).find(v => v.videoHash === video.videoHash);
+    if (original) duplicateOf.set(video.id, original);
+  });
+  // Exercises already in the library that came from the same video; re-analyzing them costs another AI call
+  const libraryMatches = (video: VideoPreview): Exercise[] =>
+    video.videoHash ? exercises.filter(ex => ex.videoHash === video.videoHash) : [];
+  const getLibraryAction = (video: VideoPreview): LibraryDuplicateAction | undefined =>
+    libraryMatches(video).length > 0 ? video.libraryAction ?? 'skip' : undefined;
+
+  const isChecking = videos.some(v => v.hashProgress !== undefined);
+  const videosToAnalyze = videos.filter(v => !duplicateOf.has(v.id) && getLibraryAction(v) !== 'skip');
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (videos.length > 0) {
-      const payload: VideoAnalysisPayload[] = videos.map(({ file }) => ({ file }));
+    if (videosToAnalyze.length > 0) {
+      const payload: VideoAnalysisPayload[] = videosToAnalyze.map(video => {
+        const action = getLibraryAction(video);
+        return {
+          file: video.file,
+          videoHash: video.videoHash,
+          reanalyze: action === 'reanalyze' || undefined,
+          attachToExerciseIds: action === 'attach' ? libraryMatches(video).map(ex => ex.id) : undefined,
+        };
+      });
       onAnalyzeVideos(payload, useAdvancedAnalysis);
       setVideos([]);
       setError(null);
@@ -124,12 +190,49 @@ const VideoUploadForm: React.FC<VideoUploadFormProps> = ({ onAnalyzeVideos, isLo
               Clear All
             </button>
           </div>
-          <div className="max-h-32 overflow-y-auto space-y-1.5">
+          <div className="max-h-48 overflow-y-auto space-y-1.5">
             {videos.map(video => (
               <div key={video.id} className="flex items-center justify-between p-2 bg-gray-950 rounded-lg border border-gray-800">
-                <span className="text-xs text-white truncate flex-1" title={video.file.name}>
-                  {video.file.name}
-                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-white truncate" title={video.file.name}>
+                    {video.file.name}
+                  </p>
+                  {video.hashProgress !== undefined && (
+                    <p className="text-[10px] text-gray-500">Checking for duplicates... {video.hashProgress}%</p>
+                  )}
+                  {duplicateOf.has(video.id) && (
+                    <p className="text-[10px] text-gray-500 truncate">Same video as {duplicateOf.get(video.id)!.file.name}, will be skipped</p>
+                  )}
+                  {!duplicateOf.has(video.id) && libraryMatches(video).length > 0 && (
+                    <div className="mt-1 space-y-1">
+                      <p className="text-[10px] text-gray-400">
+                        Already in your library:{' '}
+                        {libraryMatches(video).map((ex, index) => (
+                          <React.Fragment key={ex.id}>
+                            {index > 0 && ', '}
+                            <button type="button" onClick={() => onShowExercise(ex.name)} className="underline hover:text-white">
+                              {ex.name}
+                            </button>
+                          </React.Fragment>
+                        ))}
+                      </p>
+                      <div className="flex gap-1">
+                        {LIBRARY_DUPLICATE_ACTIONS.map(({ action, label }) => (
+                          <button
+                            key={action}
+                            type="button"
+                            onClick={() => updateVideo(video.id, { libraryAction: action })}
+                            className={`text-[10px] font-semibold px-2 py-0.5 rounded-lg border transition-all ${
+                              getLibraryAction(video) === action ? 'bg-white text-black border-white' : 'bg-gray-900 text-gray-400 border-gray-800 hover:text-white'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
                 <button
                   type="button"
                   onClick={() => handleRemoveVideo(video.id)}
@@ -165,11 +268,13 @@ const VideoUploadForm: React.FC<VideoUploadFormProps> = ({ onAnalyzeVideos, isLo
 
       <button
         type="submit"
-        disabled={videos.length === 0 || isLoading}
+        disabled={videosToAnalyze.length === 0 || isChecking}
         className="w-full flex items-center justify-center px-6 py-3 text-sm font-bold rounded-xl shadow-lg bg-gradient-to-r from-white to-gray-200 text-black hover:from-gray-100 hover:to-gray-300 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
       >
         <SparklesIcon className="w-5 h-5 mr-2" />
-        {isLoading ? `Analyzing...` : videos.length > 0 ? `Analyze ${videos.length} Video${videos.length > 1 ? 's' : ''}` : 'Analyze Videos'}
+        {isChecking
+          ? 'Checking Videos...'
+          : videosToAnalyze.length > 0 ? `Analyze ${videosToAnalyze.length} Video${videosToAnalyze.length > 1 ? 's' : ''}` : 'Analyze Videos'}
       </button>
     </form>
   );
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { WorkoutLog, LoggedSet } from '../types';
+import { TrashIcon, ClockIcon } from './icons';
+
+interface WorkoutHistoryProps {
+  logs: WorkoutLog[];
+  onDeleteLog: (logId: string) => void;
+}
+
+const formatDuration = (startedAt: string, finishedAt: string): string => {
+  const minutes = Math.round((new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const formatSet = (set: LoggedSet): string => {
+  if (set.skipped) return 'Skipped';
+  const reps = set.reps !== undefined ? `${set.reps} reps` : 'Done';
+  const load = set.load !== undefined ? ` @ ${set.load}${set.loadUnit || ''}` : '';
+  const rpe = set.rpe !== undefined ? ` RPE ${set.rpe}` : '';
+  return `${reps}${load}${rpe}`;
+};
+
+const WorkoutHistory: React.FC<WorkoutHistoryProps> = ({ logs, onDeleteLog }) => {
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  if (logs.length === 0) {
+    return (
+      <div className="text-center py-16 px-6 bg-gradient-to-br from-gray-900 to-black rounded-3xl border border-gray-800">
+        <div className="text-6xl mb-4">📓</div>
+        <h2 className="text-2xl font-bold text-white mb-3">No Workouts Logged Yet</h2>
+        <p className="text-gray-400">Start a workout from one of your plans</p>
+        <p className="text-sm text-gray-500 mt-2">Every completed session will be recorded here</p>
+      </div>
+    );
+  }
+
+  const sortedLogs = logs.slice().sort((a, b) => new Date(b.finishedAt).getTime() - new Date(a.finishedAt).getTime());
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">Workout History</h2>
+        <span className="text-sm text-gray-400 bg-gray-900 px-3 py-1.5 rounded-full border border-gray-800">
+          {logs.length} {logs.length === 1 ? 'Session' : 'Sessions'}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {sortedLogs.map(log => {
+          const allSets = log.exercises.flatMap(ex => ex.sets);
+          const completedSets = allSets.filter(s => !s.skipped).length;
+          const isExpanded = expandedLogId === log.id;
+
+          return (
+            <div key={log.id} className="p-5 bg-gradient-to-br from-gray-950 to-black rounded-2xl shadow-lg border border-gray-800">
+              <div className="flex justify-between items-start">
+                <button
+                  onClick={() => setExpandedLogId(isExpanded ? null : log.id)}
+                  className="text-left flex-1"
+                  aria-expanded={isExpanded}
+                >
+                  <h4 className="text-lg font-bold text-white">{log.day}{log.focus ? `: ${log.focus}` : ''}</h4>
+                  <p className="text-xs text-gray-500">{log.planTitle}</p>
+                  <div className="text-xs text-gray-400 mt-2 flex flex-wrap gap-2">
+                    <span className="bg-gray-800 px-2 py-1 rounded-lg">{new Date(log.finishedAt).toLocaleString()}</span>
+                    <span className="bg-gray-800 px-2 py-1 rounded-lg flex items-center gap-1">
+                      <ClockIcon className="w-3 h-3" />
+                      {formatDuration(log.startedAt, log.finishedAt)}
+                    </span>
+                    <span className="bg-gray-800 px-2 py-1 rounded-lg">{completedSets} / {allSets.length} sets</span>
+                  </div>
+                </button>
+                <button
+                  onClick={() => onDeleteLog(log.id)}
+                  className="ml-2 p-2 text-red-400 hover:bg-red-950/50 rounded-xl transition-all"
+                  aria-label={`Delete workout from ${new Date(log.finishedAt).toLocaleDateString()}`}
+                  title="Delete Workout"
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
+
+              {isExpanded && (
+                <ul className="space-y-3 mt-4">
+                  {log.exercises.map((exercise, exIndex) => (
+                    <li key={exIndex} className="p-4 bg-gray-900 rounded-xl border border-gray-800">
+                      <div className="flex justify-between items-center">
+                        <strong className="text-md text-white font-semibold">{exercise.name}</strong>
+                        {(exercise.plannedSets || exercise.plannedReps) && (
+                          <span className="text-xs text-gray-500">
+                            Planned: {exercise.plannedSets || '?'} x {exercise.plannedReps || '?'}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs mt-3 flex flex-wrap gap-2">
+                        {exercise.sets.map(set => (
+                          <span
+                            key={set.setNumber}
+                            className={`px-2 py-1 rounded-lg ${set.skipped ? 'bg-gray-950 text-gray-600' : 'bg-gray-800 text-gray-300'}`}
+                          >
+                            #{set.setNumber} {formatSet(set)}
+                          </span>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutHistory;
@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { WorkoutPlan, WorkoutDay, PlannedExercise, Exercise, WorkoutSession } from '../types';
-import { VideoCameraIcon, ClipboardIcon, ArrowDownTrayIcon, SparklesIcon, PlayIcon } from './icons'; 
+import { WorkoutPlan, WorkoutDay, PlannedExercise, Exercise, WorkoutSession, ProgressionSettings, ProgressionRule } from '../types';
+import { VideoCameraIcon, ClipboardIcon, ArrowDownTrayIcon, SparklesIcon, PlayIcon, ArrowRightIcon } from './icons'; 
 import * as apiService from '../services/apiService'; 
+import { DEFAULT_PROGRESSION_SETTINGS } from '../services/progression';
+import { isProgram, getPlanForWeek, getAllPlanDays } from '../services/program';
 
 interface WorkoutPlanDisplayProps {
   plan: WorkoutPlan | null;
@@ -10,8 +12,17 @@ interface WorkoutPlanDisplayProps {
   onSavePlan?: (planToSave: WorkoutPlan, planName: string) => void;
   isSavingPlan?: boolean;
   onStartWorkout: (session: WorkoutSession) => void;
+  onGenerateNextWeek?: (settings: ProgressionSettings) => void;
+  selectedWeekIndex?: number; // Only used for multi-week programs
+  onSelectWeek?: (weekIndex: number) => void;
+  isStreaming?: boolean; // Still being generated: shows what has arrived, without actions or videos
 }
 
+const progressionRuleLabels: Record<ProgressionRule, string> = {
+  'double-progression': 'Double progression',
+  'linear-load': 'Linear load increase',
+};
+
 const PlanInfoSection: React.FC<{ title: string; content?: string }> = ({ title, content }) => {
   if (!content) return null;
   return (
@@ -22,17 +33,10 @@ const PlanInfoSection: React.FC<{ title: string; content?: string }> = ({ title,
   );
 };
 
-const formatWorkoutPlanAsMarkdown = (plan: WorkoutPlan): string => {
-  let md = `# ${plan.title}\n\n`;
-
-  if (plan.description) md += `## Trainer's Overview\n\n**Plan Focus:**\n${plan.description}\n\n`;
-  if (plan.weeklySplitDescription) md += `**Weekly Split:**\n${plan.weeklySplitDescription}\n\n`;
-  if (plan.warmupRecommendation) md += `**Warm-up:**\n${plan.warmupRecommendation}\n\n`;
-  if (plan.cooldownRecommendation) md += `**Cool-down:**\n${plan.cooldownRecommendation}\n\n`;
-  if (plan.progressionTips) md += `**Progression Tips:**\n${plan.progressionTips}\n\n`;
-
-  plan.weeklyPlan.forEach(day => {
-    md += `## ${day.day}${day.focus ? ` - ${day.focus}` : ''}\n\n`;
+const formatDaysAsMarkdown = (days: WorkoutDay[], headingLevel: string): string => {
+  let md = '';
+  days.forEach(day => {
+    md += `${headingLevel} ${day.day}${day.focus ? ` - ${day.focus}` : ''}\n\n`;
     if (day.notes) md += `**Note for the day:** ${day.notes}\n\n`;
 
     if (day.exercises && day.exercises.length > 0) {
@@ -40,6 +44,7 @@ const formatWorkoutPlanAsMarkdown = (plan: WorkoutPlan): string => {
         md += `- **${ex.name}**\n`;
         if (ex.sets) md += `  - Sets: ${ex.sets}\n`;
         if (ex.reps) md += `  - Reps: ${ex.reps}\n`;
+        if (ex.targetLoad !== undefined) md += `  - Load: ${ex.targetLoad}${ex.loadUnit || ''}\n`;
         if (ex.rest) md += `  - Rest: ${ex.rest}\n`;
         // PlannedExercise.description removed
         md += "\n";
@@ -48,18 +53,45 @@ const formatWorkoutPlanAsMarkdown = (plan: WorkoutPlan): string => {
       md += "_No specific exercises planned, or rest day._\n\n";
     }
   });
+  return md;
+};
+
+const formatWorkoutPlanAsMarkdown = (plan: WorkoutPlan): string => {
+  let md = `# ${plan.title}\n\n`;
+  if (plan.progression) md += `_Week ${plan.progression.week}${plan.progression.isDeloadWeek ? ' (deload)' : ''}_\n\n`;
+
+  if (plan.description) md += `## Trainer's Overview\n\n**Plan Focus:**\n${plan.description}\n\n`;
+  if (plan.weeklySplitDescription) md += `**Weekly Split:**\n${plan.weeklySplitDescription}\n\n`;
+  if (plan.warmupRecommendation) md += `**Warm-up:**\n${plan.warmupRecommendation}\n\n`;
+  if (plan.cooldownRecommendation) md += `**Cool-down:**\n${plan.cooldownRecommendation}\n\n`;
+  if (plan.progressionTips) md += `**Progression Tips:**\n${plan.progressionTips}\n\n`;
+
+  if (isProgram(plan)) {
+    plan.weeks.forEach(week => {
+      md += `## Week ${week.week} - ${week.phase}${week.isDeload ? ' (Deload)' : ''}\n\n`;
+      if (week.notes) md += `${week.notes}\n\n`;
+      md += formatDaysAsMarkdown(week.weeklyPlan, '###');
+    });
+  } else {
+    md += formatDaysAsMarkdown(plan.weeklyPlan, '##');
+  }
 
   return md;
 };
 
 
-const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises, onSavePlan, isSavingPlan, onStartWorkout }) => {
+const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises, onSavePlan, isSavingPlan, onStartWorkout, onGenerateNextWeek, selectedWeekIndex = 0, onSelectWeek, isStreaming = false }) => {
   const [copySuccessMessage, setCopySuccessMessage] = useState<string | null>(null);
+  const [progressionSettings, setProgressionSettings] = useState<ProgressionSettings>(plan?.progression ?? DEFAULT_PROGRESSION_SETTINGS);
   const [videoSrcMap, setVideoSrcMap] = useState<Record<string, string>>({});
   const [currentVideoModalSrc, setCurrentVideoModalSrc] = useState<string | null>(null);
   const [currentVideoModalTitle, setCurrentVideoModalTitle] = useState<string | null>(null);
 
 
+  useEffect(() => {
+    setProgressionSettings(plan?.progression ?? DEFAULT_PROGRESSION_SETTINGS);
+  }, [plan]);
+
   useEffect(() => {
     if (copySuccessMessage) {
       const timer = setTimeout(() => setCopySuccessMessage(null), 2000);
@@ -68,11 +100,14 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
   }, [copySuccessMessage]);
 
   useEffect(() => {
+    // The plan changes with every streamed chunk; load videos once it's complete
+    if (isStreaming) return;
+
     const currentVideoKeysInUse = new Set<string>();
     const promisesToLoad: Promise<{ key: string; url: string } | null>[] = [];
 
     if (plan && exercises) {
-      plan.weeklyPlan.forEach(day => {
+      getAllPlanDays(plan).forEach(day => {
         day.exercises.forEach(plannedEx => {
           const fullExercise = exercises.find(e => e.id === plannedEx.originalExerciseId);
           if (fullExercise?.videoStorageKey) {
@@ -127,7 +162,7 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
         setVideoSrcMap({});
     }
 
-  }, [plan, exercises]); 
+  }, [plan, exercises, isStreaming]); 
 
   useEffect(() => {
     const mapToClean = { ...videoSrcMap }; 
@@ -142,6 +177,11 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
     return null;
   }
 
+  const program = isProgram(plan) ? plan : null;
+  const selectedWeek = program ? program.weeks[Math.min(selectedWeekIndex, program.weeks.length - 1)] : null;
+  // Single-week view of the plan; for programs this is the selected week
+  const weekPlan = getPlanForWeek(plan, selectedWeekIndex);
+
   const handleCopyToClipboard = () => {
     const markdownPlan = formatWorkoutPlanAsMarkdown(plan);
     navigator.clipboard.writeText(markdownPlan)
@@ -179,35 +219,42 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
     <div className="p-6 bg-gradient-to-br from-gray-900 to-black rounded-3xl shadow-2xl relative border border-gray-800">
       <div className="flex flex-col sm:flex-row justify-between items-start mb-6 gap-2">
         <h3 className="text-3xl font-bold bg-gradient-to-r from-white to-gray-400 bg-clip-text text-transparent">{plan.title}</h3>
-        <div className="flex space-x-2 self-start sm:self-center">
-           <button
-            onClick={handleCopyToClipboard}
-            title="Copy plan as Markdown"
-            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-all"
-            aria-label="Copy plan as Markdown"
-          >
-            <ClipboardIcon className="w-5 h-5" />
-          </button>
-          <button
-            onClick={handleDownloadMarkdown}
-            title="Download plan as Markdown"
-            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-all"
-            aria-label="Download plan as Markdown"
-          >
-            <ArrowDownTrayIcon className="w-5 h-5" />
-          </button>
-           {onSavePlan && (
+        {isStreaming ? (
+          <span className="flex items-center gap-2 text-xs text-gray-400 self-start sm:self-center flex-shrink-0">
+            <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+            Generating...
+          </span>
+        ) : (
+          <div className="flex space-x-2 self-start sm:self-center">
+             <button
+              onClick={handleCopyToClipboard}
+              title="Copy plan as Markdown"
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-all"
+              aria-label="Copy plan as Markdown"
+            >
+              <ClipboardIcon className="w-5 h-5" />
+            </button>
             <button
-                onClick={handleSavePlan}
-                disabled={isSavingPlan}
-                title="Save this workout plan"
-                className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-all disabled:opacity-50"
-                aria-label="Save this workout plan"
+              onClick={handleDownloadMarkdown}
+              title="Download plan as Markdown"
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-all"
+              aria-label="Download plan as Markdown"
             >
-                <SparklesIcon className={`w-5 h-5 ${isSavingPlan ? 'animate-pulse' : ''}`} />
+              <ArrowDownTrayIcon className="w-5 h-5" />
             </button>
-           )}
-        </div>
+             {onSavePlan && (
+              <button
+                  onClick={handleSavePlan}
+                  disabled={isSavingPlan}
+                  title="Save this workout plan"
+                  className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-xl transition-all disabled:opacity-50"
+                  aria-label="Save this workout plan"
+              >
+                  <SparklesIcon className={`w-5 h-5 ${isSavingPlan ? 'animate-pulse' : ''}`} />
+              </button>
+             )}
+          </div>
+        )}
       </div>
 
       {copySuccessMessage && (
@@ -216,11 +263,48 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
         </div>
       )}
 
+      {plan.progression && (
+        <div className="mb-4 flex gap-2 text-xs">
+          <span className="bg-gray-800 text-white px-2 py-1 rounded-lg font-semibold">Week {plan.progression.week}</span>
+          {plan.progression.isDeloadWeek && <span className="bg-indigo-950 text-indigo-200 px-2 py-1 rounded-lg border border-indigo-900">Deload week</span>}
+        </div>
+      )}
+
       <PlanInfoSection title="Trainer's Overview" content={plan.description} />
       <PlanInfoSection title="Weekly Split" content={plan.weeklySplitDescription} />
 
+      {program && selectedWeek && (
+        <div className="mb-4">
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {program.weeks.map((week, weekIndex) => (
+              <button
+                key={week.week}
+                onClick={() => onSelectWeek?.(weekIndex)}
+                className={`flex-shrink-0 px-3 py-2 rounded-xl text-xs font-semibold transition-all border ${
+                  week === selectedWeek
+                    ? 'bg-white text-black border-white'
+                    : week.isDeload
+                      ? 'bg-indigo-950 text-indigo-200 border-indigo-900 hover:bg-indigo-900'
+                      : 'bg-gray-900 text-gray-400 border-gray-800 hover:bg-gray-800'
+                }`}
+                title={`Week ${week.week}: ${week.phase}`}
+              >
+                W{week.week}
+              </button>
+            ))}
+          </div>
+          <div className="p-4 bg-gradient-to-br from-gray-900 to-black border border-gray-800 rounded-xl">
+            <h4 className="font-semibold text-sm text-white">
+              Week {selectedWeek.week} of {program.weeks.length}: {selectedWeek.phase}
+              {selectedWeek.isDeload && <span className="ml-2 text-[10px] bg-indigo-950 text-indigo-200 px-2 py-0.5 rounded-full border border-indigo-900">Deload</span>}
+            </h4>
+            {selectedWeek.notes && <p className="text-xs text-gray-400 whitespace-pre-line mt-1">{selectedWeek.notes}</p>}
+          </div>
+        </div>
+      )}
+
       <div className="space-y-4">
-        {plan.weeklyPlan.map((day, dayIndex) => (
+        {weekPlan.weeklyPlan.map((day, dayIndex) => (
           <div key={dayIndex} className="p-5 bg-gradient-to-br from-gray-950 to-black rounded-2xl shadow-lg border border-gray-800">
             <div className="flex justify-between items-start mb-3">
                 <div>
@@ -228,9 +312,9 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
                     {day.focus && <p className="text-sm text-gray-400 font-semibold mb-1">{day.focus}</p>}
                     {day.notes && <p className="text-xs text-gray-500 italic mb-2 whitespace-pre-line">{day.notes}</p>}
                 </div>
-                {day.exercises.length > 0 && plan && (
+                {day.exercises.length > 0 && plan && !isStreaming && (
                      <button
-                        onClick={() => onStartWorkout({ plan, day })}
+                        onClick={() => onStartWorkout({ plan: weekPlan, day })}
                         className="flex items-center gap-2 px-4 py-2 text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black rounded-xl shadow-lg hover:from-gray-100 hover:to-gray-300 transition-all"
                         title={`Start ${day.day} workout`}
                     >
@@ -302,6 +386,7 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
                       <div className="text-xs text-gray-400 mt-3 flex gap-3">
                         {exercise.sets && <span className="bg-gray-800 px-2 py-1 rounded-lg">Sets: {exercise.sets}</span>}
                         {exercise.reps && <span className="bg-gray-800 px-2 py-1 rounded-lg">Reps: {exercise.reps}</span>}
+                        {exercise.targetLoad !== undefined && <span className="bg-gray-800 px-2 py-1 rounded-lg">Load: {exercise.targetLoad}{exercise.loadUnit || ''}</span>}
                         {exercise.rest && <span className="bg-gray-800 px-2 py-1 rounded-lg">Rest: {exercise.rest}</span>}
                       </div>
                       {/* PlannedExercise.description (Trainer Note) removed */}
@@ -310,6 +395,8 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
                   );
                 })}
               </ul>
+            ) : isStreaming && dayIndex === weekPlan.weeklyPlan.length - 1 ? (
+              <p className="text-sm text-gray-500 mt-2 animate-pulse">Planning exercises...</p>
             ) : (
               <p className="text-sm text-gray-500 italic mt-2">Rest day or no specific exercises.</p>
             )}
@@ -323,6 +410,61 @@ const WorkoutPlanDisplay: React.FC<WorkoutPlanDisplayProps> = ({ plan, exercises
         <PlanInfoSection title="Progression Tips" content={plan.progressionTips} />
       </div>
 
+      {onGenerateNextWeek && !program && !isStreaming && (
+        <div className="mt-6 p-5 bg-gradient-to-br from-gray-950 to-black rounded-2xl border border-gray-800 space-y-4">
+          <div>
+            <h4 className="text-lg font-bold text-white">Progression</h4>
+            <p className="text-xs text-gray-400 mt-1">Build next week's targets from your logged sets. Works offline.</p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-xs text-gray-400">
+              Rule
+              <select
+                value={progressionSettings.rule}
+                onChange={(e) => setProgressionSettings(prev => ({ ...prev, rule: e.target.value as ProgressionRule }))}
+                className="mt-1 w-full bg-gray-900 text-white px-3 py-2 rounded-xl border border-gray-800 focus:border-white focus:outline-none"
+              >
+                {(Object.keys(progressionRuleLabels) as ProgressionRule[]).map(rule => (
+                  <option key={rule} value={rule}>{progressionRuleLabels[rule]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              Load increment
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={progressionSettings.loadIncrement}
+                onChange={(e) => setProgressionSettings(prev => ({ ...prev, loadIncrement: Math.max(0, Number(e.target.value) || 0) }))}
+                className="mt-1 w-full bg-gray-900 text-white px-3 py-2 rounded-xl border border-gray-800 focus:border-white focus:outline-none"
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              Deload every
+              <select
+                value={progressionSettings.deloadEveryWeeks ?? 0}
+                onChange={(e) => {
+                  const weeks = Number(e.target.value);
+                  setProgressionSettings(prev => ({ ...prev, deloadEveryWeeks: weeks > 0 ? weeks : undefined }));
+                }}
+                className="mt-1 w-full bg-gray-900 text-white px-3 py-2 rounded-xl border border-gray-800 focus:border-white focus:outline-none"
+              >
+                <option value={0}>Never</option>
+                {[3, 4, 5, 6, 8].map(weeks => <option key={weeks} value={weeks}>{weeks} weeks</option>)}
+              </select>
+            </label>
+          </div>
+          <button
+            onClick={() => onGenerateNextWeek(progressionSettings)}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 text-sm font-bold bg-gradient-to-r from-white to-gray-200 text-black rounded-xl shadow-lg hover:from-gray-100 hover:to-gray-300 transition-all"
+          >
+            <ArrowRightIcon className="w-4 h-4" />
+            Generate Week {progressionSettings.week + 1}
+          </button>
+        </div>
+      )}
+
       {currentVideoModalSrc && (
         <div
           className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50 p-4"
@@ -0,0 +1,171 @@
+/**
+ * Gemini proxy for the server proxy AI provider (services/aiProviders/proxyProvider.ts)
+ *
+ * Holds the Gemini API key so it never ships in the app, and limits how many requests
+ * each signed-in user can make. Mounted under /ai by referenceServer.js:
+ *
+ *   POST /ai/analyze      { prompt, schema, useProModel, video: { data, mimeType } }  -> { text }
+ *   POST /ai/plan         { prompt, schema, useProModel }  -> the response text, streamed as it's generated
+ *   POST /ai/transcribe   { audio: { data, mimeType } }  -> { text }
+ *   POST /ai/tip          { prompt }  -> { text }
+ *
+ *   GEMINI_API_KEY=... AI_REQUESTS_PER_HOUR=60 npm run server
+ *
+ * Prompts are built by the app, so any signed-in user can send their own; the rate
+ * limit is what bounds the cost.
+ */
+
+import { CORS_HEADERS, HttpError, readBody, sendJson } from './http.js';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+// Gemini takes up to 20MB of inline media, and base64 adds a third
+const MAX_MEDIA_BODY_BYTES = 30 * 1024 * 1024;
+
+const analysisModel = (useProModel) => (useProModel ? 'gemini-2.5-pro' : 'gemini-2.5-flash');
+
+const requireString = (value, field) => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, `${field} is required.`);
+  return value;
+};
+
+const requireMedia = (media, field, kind) => {
+  if (typeof media?.data !== 'string' || typeof media?.mimeType !== 'string' || !media.mimeType.startsWith(`${kind}/`)) {
+    throw new HttpError(400, `${field} must be ${kind} data.`);
+  }
+  return { inlineData: { data: media.data, mimeType: media.mimeType } };
+};
+
+const structuredOutput = (schema, useProModel, withThinking) => {
+  if (!schema || typeof schema !== 'object') throw new HttpError(400, 'schema is required.');
+  return {
+    responseMimeType: 'application/json',
+    responseSchema: schema,
+    ...(withThinking && useProModel && { thinkingConfig: { thinkingBudget: 32768 } }),
+  };
+};
+
+// Text of a response, without any thought summaries
+const responseText = (payload) =>
+  (payload?.candidates?.[0]?.content?.parts || []).filter(part => !part.thought).map(part => part.text || '').join('');
+
+// The Gemini call for each action, built from the request body. Throws 400 for a malformed body.
+const buildRequest = (action, body) => {
+  switch (action) {
+    case 'analyze':
+      return {
+        model: analysisModel(body.useProModel),
+        request: {
+          contents: [{ parts: [{ text: requireString(body.prompt, 'prompt') }, requireMedia(body.video, 'video', 'video')] }],
+          generationConfig: structuredOutput(body.schema, body.useProModel, false),
+        },
+      };
+
+    case 'plan':
+      return {
+        model: analysisModel(body.useProModel),
+        stream: true,
+        request: {
+          contents: [{ role: 'user', parts: [{ text: requireString(body.prompt, 'prompt') }] }],
+          generationConfig: structuredOutput(body.schema, body.useProModel, true),
+        },
+      };
+
+    case 'transcribe':
+      return {
+        model: 'gemini-2.5-flash',
+        request: {
+          contents: [{ parts: [{ text: 'Transcribe the following audio recording accurately.' }, requireMedia(body.audio, 'audio', 'audio')] }],
+        },
+      };
+
+    case 'tip':
+      return {
+        model: 'gemini-flash-lite-latest',
+        request: {
+          contents: [{ parts: [{ text: requireString(body.prompt, 'prompt') }] }],
+        },
+      };
+  }
+};
+
+/**
+ * @param options.apiKey Gemini API key; without one every request fails with 503
+ * @param options.requestsPerHour Requests each user can make in any hour
+ */
+export const createAiProxy = ({ apiKey, requestsPerHour }) => {
+  const recentRequests = new Map(); // email -> request times within the window
+
+  const checkRateLimit = (email) => {
+    const now = Date.now();
+    const times = (recentRequests.get(email) || []).filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+    if (times.length >= requestsPerHour) {
+      const minutesLeft = Math.ceil((times[0] + RATE_LIMIT_WINDOW_MS - now) / 60000);
+      throw new HttpError(429, `AI request limit reached. Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`);
+    }
+    times.push(now);
+    recentRequests.set(email, times);
+  };
+
+  const callGemini = async (model, method, body) => {
+    let response;
+    try {
+      response = await fetch(`${GEMINI_API_URL}/${model}:${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      console.error(`Could not reach Gemini for ${model}:`, error);
+      throw new HttpError(502, 'Could not reach Gemini.');
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      // Bad requests are the app's to fix; anything else is the proxy's problem
+      throw new HttpError(
+        response.status === 400 ? 400 : 502,
+        `Gemini request failed (${response.status}): ${payload?.error?.message || response.statusText}`,
+      );
+    }
+    return response;
+  };
+
+  const generateText = async (model, body) => responseText(await (await callGemini(model, 'generateContent', body)).json());
+
+  /**
+   * Relay a streamed response as plain text. Once streaming has started a failure can
+   * only cut the response short, which the app treats as an incomplete plan.
+   */
+  const streamText = async (res, model, body) => {
+    const response = await callGemini(model, 'streamGenerateContent?alt=sse', body);
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/plain; charset=utf-8' });
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const chunk of response.body) {
+      buffered += decoder.decode(chunk, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop();
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const text = responseText(JSON.parse(line.slice('data:'.length)));
+        if (text) res.write(text);
+      }
+    }
+    res.end();
+  };
+
+  return async (req, res, email, action) => {
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.');
+    if (!['analyze', 'plan', 'transcribe', 'tip'].includes(action)) throw new HttpError(404, 'Not found.');
+    if (!apiKey) throw new HttpError(503, 'The server has no Gemini API key configured.');
+
+    const body = (await readBody(req, MAX_MEDIA_BODY_BYTES)) || {};
+    const { model, request, stream } = buildRequest(action, body);
+    // Only requests that would reach Gemini count towards the limit
+    checkRateLimit(email);
+
+    if (stream) return streamText(res, model, request);
+    return sendJson(res, 200, { text: await generateText(model, request) });
+  };
+};
@@ -0,0 +1,359 @@
+/**
+ * Reference server for the REST data backend (services/backends/restBackend.ts)
+ *
+ * A small stand-in for a real sync server: no dependencies, file-based storage,
+ * tokens held in memory (restarting the server signs everyone out).
+ *
+ *   npm run server            # listens on http://localhost:3001
+ *   PORT=4000 DATA_DIR=./tmp-data npm run server
+ *   GEMINI_API_KEY=... npm run server   # also serves the AI proxy (aiProxy.js) under /ai
+ *
+ * Layout under DATA_DIR:
+ *   users.json                       credentials keyed by email
+ *   users/<id>/data.json             exercises, saved plans, workout logs
+ *   users/<id>/videos/<key>          raw video bytes (+ <key>.json with the mime type)
+ */
+
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { pipeline } from 'node:stream/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { CORS_HEADERS, HttpError, readBody, sendEmpty, sendJson } from './http.js';
+import { createAiProxy } from './aiProxy.js';
+
+const PORT = Number(process.env.PORT) || 3001;
+const DATA_DIR = path.resolve(process.env.DATA_DIR || 'server-data');
+const USERS_FILE = path.join(DATA_DIR, 'users.json');
+
+// Match the client-side rules in services/backends/localBackend.ts
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+const PBKDF2_ITERATIONS = 310000;
+const AI_REQUESTS_PER_HOUR = Number(process.env.AI_REQUESTS_PER_HOUR) || 60;
+
+const sessions = new Map(); // token -> email
+
+const handleAi = createAiProxy({ apiKey: process.env.GEMINI_API_KEY, requestsPerHour: AI_REQUESTS_PER_HOUR });
+
+// --- Storage ---
+
+const readJson = async (file, fallback) => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+};
+
+// Write to a temp file first so a crash never leaves half a JSON document behind.
+// Each write gets its own temp file so concurrent writes can't rename each other's.
+const writeJson = async (file, value) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(value));
+  await fs.rename(tempFile, file);
+};
+
+const userDir = (email) => path.join(DATA_DIR, 'users', crypto.createHash('sha256').update(email).digest('hex'));
+const dataFile = (email) => path.join(userDir(email), 'data.json');
+
+const videoFile = (email, key) => {
+  if (!/^[\w.-]+$/.test(key)) throw new HttpError(400, 'Invalid video key.');
+  return path.join(userDir(email), 'videos', key);
+};
+
+const readUserData = async (email) => {
+  const data = await readJson(dataFile(email), {});
+  return {
+    exercises: data.exercises || [],
+    savedPlans: data.savedPlans || [],
+    workoutLogs: data.workoutLogs || [],
+  };
+};
+
+const fileQueues = new Map(); // file path -> the last queued change to it
+
+/**
+ * Run changes to a JSON file one at a time, so parallel requests can't read the same
+ * document and overwrite each other's changes. The task should re-read the file itself.
+ */
+const withFileQueue = (file, task) => {
+  const previous = fileQueues.get(file) || Promise.resolve();
+  const run = previous.then(task, task);
+  const queued = run.catch(() => {});
+  fileQueues.set(file, queued);
+  queued.then(() => {
+    if (fileQueues.get(file) === queued) fileQueues.delete(file);
+  });
+  return run;
+};
+
+const withUserData = (email, task) => withFileQueue(dataFile(email), task);
+
+/**
+ * Read users.json, let the task change it, and save it, queued behind every other change
+ * so concurrent signups and failed logins can't overwrite each other
+ */
+const withUsers = (task) => withFileQueue(USERS_FILE, async () => task(await readJson(USERS_FILE, {})));
+
+const updateUserData = (email, update) =>
+  withUserData(email, async () => {
+    const data = await readUserData(email);
+    update(data);
+    await writeJson(dataFile(email), data);
+  });
+
+const upsertById = (items, item) => {
+  const existingIndex = items.findIndex(existing => existing.id === item.id);
+  if (existingIndex > -1) {
+    items[existingIndex] = item;
+  } else {
+    items.push(item);
+  }
+};
+
+// --- Passwords ---
+
+const hashPassword = (password, salt = crypto.randomBytes(16).toString('base64'), iterations = PBKDF2_ITERATIONS) =>
+  new Promise((resolve, reject) => {
+    crypto.pbkdf2(password, Buffer.from(salt, 'base64'), iterations, 32, 'sha256', (error, key) => {
+      if (error) reject(error);
+      else resolve({ salt, hash: key.toString('base64'), iterations });
+    });
+  });
+
+const verifyPassword = async (password, stored) => {
+  const { hash } = await hashPassword(password, stored.salt, stored.iterations);
+  return crypto.timingSafeEqual(Buffer.from(hash, 'base64'), Buffer.from(stored.hash, 'base64'));
+};
+
+// Verified against for unknown emails, so a login takes as long whether or not the account exists
+const dummyCredentials = hashPassword(crypto.randomBytes(16).toString('base64'));
+
+const validatePasswordStrength = (password) => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+};
+
+/**
+ * Check a password against users.json, tracking failures and lockout the same way the local backend does.
+ * Must run inside withUsers, which saves the changes to users.
+ */
+const checkPassword = async (users, email, password) => {
+  const credentials = users[email];
+  if (!credentials) {
+    await verifyPassword(String(password), await dummyCredentials);
+    throw new HttpError(400, 'Incorrect email or password.');
+  }
+
+  if (credentials.lockedUntil && credentials.lockedUntil > Date.now()) {
+    const minutesLeft = Math.ceil((credentials.lockedUntil - Date.now()) / 60000);
+    throw new HttpError(429, `Too many failed attempts. Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`);
+  }
+
+  if (await verifyPassword(String(password), credentials)) {
+    users[email] = { ...credentials, failedAttempts: 0, lockedUntil: undefined };
+    await writeJson(USERS_FILE, users);
+    return;
+  }
+
+  const failedAttempts = (credentials.failedAttempts || 0) + 1;
+  if (failedAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+    users[email] = { ...credentials, failedAttempts: 0, lockedUntil: Date.now() + LOCKOUT_DURATION_MS };
+    await writeJson(USERS_FILE, users);
+    throw new HttpError(429, `Too many failed attempts. Try again in ${LOCKOUT_DURATION_MS / 60000} minutes.`);
+  }
+  users[email] = { ...credentials, failedAttempts };
+  await writeJson(USERS_FILE, users);
+  throw new HttpError(400, 'Incorrect email or password.');
+};
+
+const startSession = (email) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  sessions.set(token, email);
+  return { email, token };
+};
+
+// --- HTTP helpers ---
+
+const requireUser = (req) => {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  const email = token && sessions.get(token);
+  if (!email) throw new HttpError(401, 'Not authenticated.');
+  return email;
+};
+
+// --- Routes ---
+
+const handleAuth = async (req, res, action) => {
+  if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.');
+
+  if (action === 'logout') {
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (token) sessions.delete(token);
+    return sendEmpty(res);
+  }
+
+  const body = (await readBody(req)) || {};
+
+  if (action === 'signup') {
+    const email = String(body.email || '').trim();
+    if (!email) throw new HttpError(400, 'Email is required.');
+    validatePasswordStrength(body.password);
+    const credentials = await hashPassword(body.password);
+    await withUsers(async (users) => {
+      if (users[email]) throw new HttpError(409, 'An account with this email already exists.');
+      users[email] = { ...credentials, failedAttempts: 0 };
+      await writeJson(USERS_FILE, users);
+    });
+    await withUserData(email, () => writeJson(dataFile(email), { exercises: [], savedPlans: [], workoutLogs: [] }));
+    return sendJson(res, 201, startSession(email));
+  }
+
+  if (action === 'login') {
+    const email = String(body.email || '').trim();
+    await withUsers(users => checkPassword(users, email, body.password));
+    return sendJson(res, 200, startSession(email));
+  }
+
+  if (action === 'password') {
+    const email = requireUser(req);
+    await withUsers(async (users) => {
+      await checkPassword(users, email, body.currentPassword);
+      validatePasswordStrength(body.newPassword);
+      users[email] = { ...(await hashPassword(body.newPassword)), failedAttempts: 0 };
+      await writeJson(USERS_FILE, users);
+    });
+    return sendEmpty(res);
+  }
+
+  throw new HttpError(404, 'Not found.');
+};
+
+const handleVideo = async (req, res, email, key) => {
+  const file = videoFile(email, key);
+
+  if (req.method === 'PUT') {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await pipeline(req, createWriteStream(file));
+    await writeJson(`${file}.json`, { mimeType: req.headers['content-type'] || 'application/octet-stream' });
+    return sendEmpty(res);
+  }
+
+  if (req.method === 'GET') {
+    const meta = await readJson(`${file}.json`, null);
+    if (!meta) throw new HttpError(404, 'Video not found.');
+    const { size } = await fs.stat(file);
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': meta.mimeType, 'Content-Length': size });
+    await pipeline(createReadStream(file), res);
+    return;
+  }
+
+  if (req.method === 'DELETE') {
+    await fs.rm(file, { force: true });
+    await fs.rm(`${file}.json`, { force: true });
+    return sendEmpty(res);
+  }
+
+  throw new HttpError(405, 'Method not allowed.');
+};
+
+/**
+ * Collection routes: GET lists, PUT /:id upserts, DELETE /:id removes
+ */
+const handleCollection = async (req, res, email, field, id) => {
+  if (req.method === 'GET' && !id) {
+    const data = await readUserData(email);
+    return sendJson(res, 200, data[field]);
+  }
+  if (req.method === 'PUT' && id) {
+    const item = await readBody(req);
+    if (!item || item.id !== id) throw new HttpError(400, 'Body id does not match the URL.');
+    await updateUserData(email, data => upsertById(data[field], item));
+    return sendEmpty(res);
+  }
+  if (req.method === 'DELETE' && id) {
+    await updateUserData(email, data => {
+      data[field] = data[field].filter(item => item.id !== id);
+    });
+    return sendEmpty(res);
+  }
+  throw new HttpError(405, 'Method not allowed.');
+};
+
+const route = async (req, res) => {
+  if (req.method === 'OPTIONS') return sendEmpty(res);
+
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const [resource, rawId] = pathname.split('/').filter(Boolean);
+  const id = rawId && decodeURIComponent(rawId);
+
+  if (resource === 'auth') return handleAuth(req, res, id);
+
+  const email = requireUser(req);
+
+  switch (resource) {
+    case 'data':
+      if (req.method === 'GET') return sendJson(res, 200, await readUserData(email));
+      if (req.method === 'PUT') {
+        const body = await readBody(req);
+        await withUserData(email, () => writeJson(dataFile(email), {
+          exercises: body?.exercises || [],
+          savedPlans: body?.savedPlans || [],
+          workoutLogs: body?.workoutLogs || [],
+        }));
+        return sendEmpty(res);
+      }
+      throw new HttpError(405, 'Method not allowed.');
+
+    case 'exercises':
+      // The client saves the whole library at once
+      if (req.method === 'PUT' && !id) {
+        const exercises = await readBody(req);
+        if (!Array.isArray(exercises)) throw new HttpError(400, 'Expected an array of exercises.');
+        await updateUserData(email, data => { data.exercises = exercises; });
+        return sendEmpty(res);
+      }
+      return handleCollection(req, res, email, 'exercises', id);
+
+    case 'plans':
+      return handleCollection(req, res, email, 'savedPlans', id);
+
+    case 'logs':
+      return handleCollection(req, res, email, 'workoutLogs', id);
+
+    case 'videos':
+      if (!id) throw new HttpError(404, 'Not found.');
+      return handleVideo(req, res, email, id);
+
+    case 'ai':
+      return handleAi(req, res, email, id);
+
+    default:
+      throw new HttpError(404, 'Not found.');
+  }
+};
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch(error => {
+    if (error instanceof HttpError && !res.headersSent) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      console.error(`${req.method} ${req.url} failed:`, error);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error.' });
+      else res.destroy();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Reference backend listening on http://localhost:${PORT} (data in ${DATA_DIR})`);
+  if (!process.env.GEMINI_API_KEY) {
+    console.log('GEMINI_API_KEY is not set, so the AI proxy is disabled.');
+  }
+});
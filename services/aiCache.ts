@@ -1,35 +1,147 @@
 /**
- * AI response caching service to avoid re-analyzing the same videos
+ * AI response caching service to avoid paying for the same request twice
+ *
+ * Video analyses, generated plans and exercise tips are kept in IndexedDB. Each kind
+ * of entry expires after a while, and once the cache grows past its size budget the
+ * least recently used entries are evicted. Values are encrypted while the signed-in
+ * user has encryption on, since plans are built from their library. Caching is best
+ * effort: a failed lookup is a miss and a failed write is only logged.
  */
 
-import { AICacheEntry } from '../types';
+import { AICacheEntry, AICacheKind } from '../types';
+import { openDatabase, requestToPromise, transactionDone, AI_CACHE_STORE_NAME } from './database';
+import { isUnlocked, isEncryptedJson, encryptJson, decryptJson } from './encryption';
+import { createSha256 } from './sha256';
 
-const CACHE_STORAGE_KEY = 'ai_workout_analysis_cache';
-const CACHE_EXPIRY_DAYS = 30; // Cache expires after 30 days
+// The cache used to be a single localStorage key. Its entries were keyed by the old
+// metadata-based video hashes, so they could never be hit again and are dropped.
+const LEGACY_CACHE_STORAGE_KEY = 'ai_workout_analysis_cache';
+
+export const MAX_CACHE_BYTES = 25 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long each kind of entry stays valid
+const EXPIRY_DAYS: Record<AICacheKind, number> = {
+  analysis: 30,
+  plan: 7,
+  tip: 30,
+};
+
+export interface AICacheStats {
+  totalEntries: number;
+  expiredEntries: number;
+  totalBytes: number;
+  maxBytes: number;
+  byKind: Record<AICacheKind, { entries: number; bytes: number }>;
+}
+
+const isExpired = (entry: AICacheEntry, now: number = Date.now()): boolean =>
+  now - entry.createdAt > EXPIRY_DAYS[entry.kind] * DAY_MS;
 
 /**
- * Get AI cache from localStorage
+ * Cache key for a request: a hash of everything that affects the response
  */
-const getCache = (): Record<string, AICacheEntry> => {
-  const cacheJson = localStorage.getItem(CACHE_STORAGE_KEY);
-  return cacheJson ? JSON.parse(cacheJson) : {};
+export const createCacheKey = (kind: AICacheKind, ...parts: unknown[]): string => {
+  const hash = createSha256();
+  hash.update(new TextEncoder().encode(JSON.stringify(parts)));
+  return `${kind}_${hash.digestHex()}`;
+};
+
+const analysisKey = (videoHash: string, modelUsed: string) => `analysis_${videoHash}_${modelUsed}`;
+
+// --- Storage ---
+
+const getAllEntries = async (): Promise<AICacheEntry[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE_NAME, 'readonly');
+  return requestToPromise<AICacheEntry[]>(transaction.objectStore(AI_CACHE_STORE_NAME).getAll());
+};
+
+const getEntry = async (key: string): Promise<AICacheEntry | undefined> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE_NAME, 'readonly');
+  return requestToPromise<AICacheEntry | undefined>(transaction.objectStore(AI_CACHE_STORE_NAME).get(key));
+};
+
+const putEntry = async (entry: AICacheEntry): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE_NAME, 'readwrite');
+  transaction.objectStore(AI_CACHE_STORE_NAME).put(entry);
+  await transactionDone(transaction);
+};
+
+const deleteEntries = async (keys: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(AI_CACHE_STORE_NAME);
+  keys.forEach(key => store.delete(key));
+  await transactionDone(transaction);
 };
 
 /**
- * Save AI cache to localStorage
+ * Drop the least recently used entries until the cache fits its budget
  */
-const saveCache = (cache: Record<string, AICacheEntry>): void => {
-  localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache));
+const evictToBudget = async (): Promise<void> => {
+  const entries = (await getAllEntries()).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: string[] = [];
+  for (const entry of entries) {
+    if (totalBytes <= MAX_CACHE_BYTES) break;
+    evicted.push(entry.key);
+    totalBytes -= entry.size;
+  }
+  if (evicted.length > 0) {
+    await deleteEntries(evicted);
+    console.log(`Evicted ${evicted.length} AI cache entries to stay under the size limit`);
+  }
 };
 
+// --- Lookups ---
+
 /**
- * Check if a cache entry is expired
+ * Get a cached response and mark it as recently used
+ * @returns The cached value, or null if there is none, it expired, or it can't be decrypted
  */
-const isExpired = (entry: AICacheEntry): boolean => {
-  const entryDate = new Date(entry.timestamp);
-  const now = new Date();
-  const daysDiff = (now.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24);
-  return daysDiff > CACHE_EXPIRY_DAYS;
+export const getCached = async <T>(key: string): Promise<T | null> => {
+  try {
+    const entry = await getEntry(key);
+    if (!entry) {
+      return null;
+    }
+    if (isExpired(entry)) {
+      await deleteEntries([key]);
+      return null;
+    }
+    // Entries cached by another account with encryption on fail to decrypt here, which is a miss
+    const value = isEncryptedJson(entry.value) ? await decryptJson<T>(entry.value) : (entry.value as T);
+    await putEntry({ ...entry, lastUsedAt: Date.now() });
+    return value;
+  } catch (error) {
+    console.warn(`AI cache lookup failed for ${key}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Cache a response, evicting older entries if the cache is over budget
+ */
+export const setCached = async (kind: AICacheKind, key: string, value: unknown, modelUsed: string): Promise<void> => {
+  try {
+    const stored = isUnlocked() ? await encryptJson(value) : value;
+    const now = Date.now();
+    await putEntry({
+      key,
+      kind,
+      value: stored,
+      modelUsed,
+      size: new TextEncoder().encode(JSON.stringify(stored)).length,
+      createdAt: now,
+      lastUsedAt: now,
+    });
+    await evictToBudget();
+  } catch (error) {
+    console.warn(`Could not cache AI response ${key}:`, error);
+  }
 };
 
 /**
@@ -38,29 +150,8 @@ const isExpired = (entry: AICacheEntry): boolean => {
  * @param modelUsed The model that was used ('pro' or 'flash')
  * @returns Cached analysis result or null if not found/expired
  */
-export const getCachedAnalysis = (
-  videoHash: string,
-  modelUsed: string
-): any | null => {
-  const cache = getCache();
-  const key = `${videoHash}_${modelUsed}`;
-  const entry = cache[key];
-
-  if (!entry) {
-    return null;
-  }
-
-  // Check if expired
-  if (isExpired(entry)) {
-    console.log(`Cache entry for ${videoHash} expired, removing...`);
-    delete cache[key];
-    saveCache(cache);
-    return null;
-  }
-
-  console.log(`Using cached AI analysis for video hash: ${videoHash}`);
-  return entry.analysisResult;
-};
+export const getCachedAnalysis = (videoHash: string, modelUsed: string): Promise<any | null> =>
+  getCached(analysisKey(videoHash, modelUsed));
 
 /**
  * Cache an AI analysis result
@@ -68,77 +159,60 @@ export const getCachedAnalysis = (
  * @param analysisResult The AI analysis result
  * @param modelUsed The model that was used ('pro' or 'flash')
  */
-export const cacheAnalysis = (
-  videoHash: string,
-  analysisResult: any,
-  modelUsed: string
-): void => {
-  const cache = getCache();
-  const key = `${videoHash}_${modelUsed}`;
-
-  const entry: AICacheEntry = {
-    videoHash,
-    analysisResult,
-    timestamp: new Date().toISOString(),
-    modelUsed,
-  };
+export const cacheAnalysis = (videoHash: string, analysisResult: any, modelUsed: string): Promise<void> =>
+  setCached('analysis', analysisKey(videoHash, modelUsed), analysisResult, modelUsed);
 
-  cache[key] = entry;
-  saveCache(cache);
-  console.log(`Cached AI analysis for video hash: ${videoHash}`);
-};
+// --- Maintenance ---
 
 /**
  * Clear expired cache entries
+ * Run at startup, so entries that are never looked up again don't linger.
+ * @returns How many entries were removed
  */
-export const clearExpiredCache = (): number => {
-  const cache = getCache();
-  const keys = Object.keys(cache);
-  let removedCount = 0;
-
-  keys.forEach(key => {
-    if (isExpired(cache[key])) {
-      delete cache[key];
-      removedCount++;
-    }
-  });
-
-  if (removedCount > 0) {
-    saveCache(cache);
-    console.log(`Cleared ${removedCount} expired cache entries`);
+export const clearExpiredCache = async (): Promise<number> => {
+  localStorage.removeItem(LEGACY_CACHE_STORAGE_KEY);
+
+  const now = Date.now();
+  const expired = (await getAllEntries()).filter(entry => isExpired(entry, now)).map(entry => entry.key);
+  if (expired.length > 0) {
+    await deleteEntries(expired);
+    console.log(`Cleared ${expired.length} expired cache entries`);
   }
-
-  return removedCount;
+  return expired.length;
 };
 
 /**
  * Clear all cache
  */
-export const clearAllCache = (): void => {
-  localStorage.removeItem(CACHE_STORAGE_KEY);
-  console.log('Cleared all AI analysis cache');
+export const clearAllCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE_NAME, 'readwrite');
+  transaction.objectStore(AI_CACHE_STORE_NAME).clear();
+  await transactionDone(transaction);
+  console.log('Cleared all AI cache');
 };
 
 /**
  * Get cache statistics
  */
-export const getCacheStats = (): {
-  totalEntries: number;
-  expiredEntries: number;
-  cacheSize: string;
-} => {
-  const cache = getCache();
-  const keys = Object.keys(cache);
-  const expiredCount = keys.filter(key => isExpired(cache[key])).length;
-
-  // Estimate cache size
-  const cacheJson = localStorage.getItem(CACHE_STORAGE_KEY) || '';
-  const sizeInBytes = new Blob([cacheJson]).size;
-  const sizeInKB = (sizeInBytes / 1024).toFixed(2);
+export const getCacheStats = async (): Promise<AICacheStats> => {
+  const entries = await getAllEntries();
+  const now = Date.now();
+  const byKind: AICacheStats['byKind'] = {
+    analysis: { entries: 0, bytes: 0 },
+    plan: { entries: 0, bytes: 0 },
+    tip: { entries: 0, bytes: 0 },
+  };
+  entries.forEach(entry => {
+    byKind[entry.kind].entries++;
+    byKind[entry.kind].bytes += entry.size;
+  });
 
   return {
-    totalEntries: keys.length,
-    expiredEntries: expiredCount,
-    cacheSize: `${sizeInKB} KB`,
+    totalEntries: entries.length,
+    expiredEntries: entries.filter(entry => isExpired(entry, now)).length,
+    totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    maxBytes: MAX_CACHE_BYTES,
+    byKind,
   };
 };
@@ -0,0 +1,58 @@
+/**
+ * AI provider contract used by geminiService
+ * Each provider sends a request to a model and returns its raw response. Prompts,
+ * caching and response checks stay in geminiService, so every provider is held to
+ * the same rules.
+ */
+
+export interface VideoAnalysisRequest {
+  video: File;
+  prompt: string;
+  schema: object; // JSON schema the response must follow
+  useProModel: boolean;
+}
+
+export interface PlanRequest {
+  prompt: string;
+  schema: object;
+  useProModel: boolean;
+  // What the prompt was built from, for providers that don't call a model
+  exercises: { id: string; name: string; description: string }[];
+  goal: string;
+  trainingDays: number;
+  totalWeeks?: number; // Set for a multi-week program
+}
+
+export interface TipRequest {
+  prompt: string;
+  exerciseName: string;
+  exerciseDescription: string;
+}
+
+export interface AIProvider {
+  /**
+   * Find the exercises in a video
+   * @returns The model's JSON response text
+   */
+  analyzeVideo(request: VideoAnalysisRequest): Promise<string>;
+
+  /**
+   * Generate a plan or program, yielding the JSON response text as it arrives
+   */
+  streamPlan(request: PlanRequest): AsyncGenerator<string>;
+
+  transcribeAudio(audio: Blob): Promise<string>;
+
+  getExerciseTip(request: TipRequest): Promise<string>;
+}
+
+export type AIProviderType = 'gemini' | 'proxy' | 'openai' | 'mock';
+
+export interface AIProviderConfig {
+  type: AIProviderType;
+  // 'openai' only: an OpenAI-compatible chat completions server
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  mockFailEvery?: number; // 'mock' only: fail every Nth request; 0 or unset never fails
+}
@@ -0,0 +1,76 @@
+/**
+ * Google Gemini provider
+ * Calls the Gemini API directly from the app. The key is only built into development
+ * builds (see vite.config.ts); released apps go through the proxy provider instead.
+ */
+
+import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
+import { AIProvider } from './aiProvider';
+import { blobToInlineData } from './inlineData';
+
+export const createGeminiProvider = (apiKey: string | undefined): AIProvider => {
+  let genAIInstance: GoogleGenAI | null = null;
+
+  const getGenAIInstance = (): GoogleGenAI => {
+    if (!genAIInstance) {
+      if (!apiKey) {
+        console.error("API_KEY for Gemini is not set in environment variables. Gemini services will fail.");
+        throw new Error("API_KEY for Gemini is not configured. Choose the Server Proxy or another AI provider in Settings.");
+      }
+      genAIInstance = new GoogleGenAI({ apiKey });
+    }
+    return genAIInstance;
+  };
+
+  return {
+    async analyzeVideo({ video, prompt, schema, useProModel }) {
+      const ai = getGenAIInstance();
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: useProModel ? 'gemini-2.5-pro' : 'gemini-2.5-flash',
+        contents: { parts: [{ text: prompt }, { inlineData: await blobToInlineData(video) }] },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: schema,
+        },
+      });
+      return response.text;
+    },
+
+    async *streamPlan({ prompt, schema, useProModel }) {
+      const ai = getGenAIInstance();
+      const chat: Chat = ai.chats.create({
+        model: useProModel ? 'gemini-2.5-pro' : 'gemini-2.5-flash',
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          ...(useProModel && { thinkingConfig: { thinkingBudget: 32768 } }),
+        },
+      });
+
+      const responseStream = await chat.sendMessageStream({ message: prompt });
+      for await (const chunk of responseStream) {
+        if (chunk.text) {
+          yield chunk.text;
+        }
+      }
+    },
+
+    async transcribeAudio(audio) {
+      const ai = getGenAIInstance();
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: { parts: [{ text: "Transcribe the following audio recording accurately." }, { inlineData: await blobToInlineData(audio) }] },
+      });
+      return response.text;
+    },
+
+    async getExerciseTip({ prompt }) {
+      const ai = getGenAIInstance();
+      const response = await ai.models.generateContent({
+        model: 'gemini-flash-lite-latest',
+        contents: prompt,
+      });
+      return response.text;
+    },
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Encode a video or audio blob the way Gemini takes inline media
+ */
+
+export interface InlineData {
+  data: string; // base64
+  mimeType: string;
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result.split(',')[1]);
+      } else {
+        reject(new Error("Failed to read file as data URL."));
+      }
+    };
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const blobToInlineData = async (blob: Blob): Promise<InlineData> => {
+  try {
+    return { data: await blobToBase64(blob), mimeType: blob.type };
+  } catch (error) {
+    console.error("Error converting file to base64:", error);
+    throw new Error("Could not process file for analysis.");
+  }
+};
@@ -0,0 +1,117 @@
+/**
+ * Canned responses for the offline demo provider
+ */
+
+export interface ExerciseFixture {
+  name: string;
+  description: string;
+  muscleGroups: string[];
+  equipment: string;
+  difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
+  duration: number; // Seconds the exercise takes up in a "video"
+}
+
+export const EXERCISE_FIXTURES: ExerciseFixture[] = [
+  {
+    name: 'Push-up',
+    description: 'Lower your chest to the floor with elbows at about 45 degrees, then press back up. Keep your body in a straight line.',
+    muscleGroups: ['Chest', 'Triceps', 'Shoulders'],
+    equipment: 'Bodyweight',
+    difficulty: 'Beginner',
+    duration: 20,
+  },
+  {
+    name: 'Bodyweight Squat',
+    description: 'Sit your hips back and down until your thighs are parallel to the floor, keeping your heels down and chest up.',
+    muscleGroups: ['Quadriceps', 'Glutes'],
+    equipment: 'Bodyweight',
+    difficulty: 'Beginner',
+    duration: 25,
+  },
+  {
+    name: 'Dumbbell Row',
+    description: 'With one hand braced on a bench, pull the dumbbell toward your hip and lower it under control. Avoid twisting your torso.',
+    muscleGroups: ['Back', 'Biceps'],
+    equipment: 'Dumbbells',
+    difficulty: 'Intermediate',
+    duration: 30,
+  },
+  {
+    name: 'Reverse Lunge',
+    description: 'Step back and lower until both knees are bent at 90 degrees, then drive through the front heel to stand.',
+    muscleGroups: ['Quadriceps', 'Glutes', 'Hamstrings'],
+    equipment: 'Bodyweight',
+    difficulty: 'Beginner',
+    duration: 25,
+  },
+  {
+    name: 'Barbell Deadlift',
+    description: 'Hinge at the hips with a flat back, grip the bar and stand up by driving your hips forward. Keep the bar close to your legs.',
+    muscleGroups: ['Hamstrings', 'Glutes', 'Back'],
+    equipment: 'Barbell',
+    difficulty: 'Advanced',
+    duration: 35,
+  },
+  {
+    name: 'Plank',
+    description: 'Hold a straight line from head to heels on your forearms, bracing your core and squeezing your glutes.',
+    muscleGroups: ['Core'],
+    equipment: 'Bodyweight',
+    difficulty: 'Beginner',
+    duration: 30,
+  },
+  {
+    name: 'Overhead Press',
+    description: 'Press the dumbbells from shoulder height to overhead without arching your lower back, then lower them slowly.',
+    muscleGroups: ['Shoulders', 'Triceps'],
+    equipment: 'Dumbbells',
+    difficulty: 'Intermediate',
+    duration: 25,
+  },
+  {
+    name: 'Glute Bridge',
+    description: 'Lying on your back with knees bent, drive your hips up until your body forms a straight line from shoulders to knees.',
+    muscleGroups: ['Glutes', 'Hamstrings'],
+    equipment: 'Bodyweight',
+    difficulty: 'Beginner',
+    duration: 20,
+  },
+];
+
+// {name} is replaced with the exercise name
+export const TIP_FIXTURES: string[] = [
+  'Brace your core before every rep of the {name} and breathe out as you push.',
+  'Slow down the lowering part of the {name}; a three-second descent builds control.',
+  'On the {name}, focus on the working muscle and stop the set when your form slips.',
+  'Keep your neck neutral during the {name} by looking at a point just ahead of you.',
+];
+
+export const TRANSCRIPT_FIXTURES: string[] = [
+  'Felt strong today, last set was hard but my form held up.',
+  'Lower back felt a little tight, so I kept the weight the same.',
+  'Easy session, I could add weight next time.',
+];
+
+export interface Prescription {
+  sets: string;
+  reps: string;
+  rest: string;
+}
+
+/**
+ * Sets, reps and rest for a goal, matched on keywords in the goal text
+ */
+export const prescriptionForGoal = (goal: string): Prescription => {
+  const text = goal.toLowerCase();
+  if (text.includes('strength') || text.includes('power')) {
+    return { sets: '4-5', reps: '4-6', rest: '120-180 seconds' };
+  }
+  if (text.includes('muscle') || text.includes('hypertrophy')) {
+    return { sets: '3-4', reps: '8-12', rest: '60-90 seconds' };
+  }
+  return { sets: '2-3', reps: '15-20', rest: '30-60 seconds' };
+};
+
+export const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const PHASES = ['Accumulation', 'Intensification', 'Realization'];
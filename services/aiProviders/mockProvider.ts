@@ -0,0 +1,168 @@
+/**
+ * Offline demo provider
+ * Answers from fixtures without a key or network. Responses depend only on the request,
+ * so the same video, library or exercise always gives the same result. Plans are built
+ * from the exercises in the request and streamed in small chunks like a real model.
+ * It can also fail every Nth request to exercise retries and error handling.
+ */
+
+import { WorkoutDay } from '../../types';
+import { AIProvider, PlanRequest } from './aiProvider';
+import {
+  DAY_NAMES,
+  EXERCISE_FIXTURES,
+  PHASES,
+  Prescription,
+  TIP_FIXTURES,
+  TRANSCRIPT_FIXTURES,
+  prescriptionForGoal,
+} from './mockFixtures';
+
+export interface MockProviderOptions {
+  failEvery?: number; // Fail every Nth request; 0 or unset never fails
+  responseDelayMs?: number; // Simulated latency before a response
+  chunkDelayMs?: number; // Simulated delay between streamed chunks
+}
+
+const CHUNK_SIZE = 80;
+const EXERCISES_PER_DAY = 4;
+const DELOAD_EVERY_WEEKS = 4;
+
+/**
+ * FNV-1a hash, used to pick fixtures deterministically
+ */
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number): T => items[seed % items.length];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const simulatedFailure = (requestNumber: number) =>
+  new Error(`Simulated AI failure on request ${requestNumber} (offline demo provider).`);
+
+/**
+ * Spread the training days over the week, e.g. 3 days gives Monday, Wednesday, Friday
+ */
+const trainingDayIndexes = (trainingDays: number): Set<number> => {
+  const days = Math.min(Math.max(Math.round(trainingDays), 1), 7);
+  return new Set(Array.from({ length: days }, (_, i) => Math.floor((i * 7) / days)));
+};
+
+const buildWeek = (request: PlanRequest, prescription: Prescription): WorkoutDay[] => {
+  const trainingIndexes = trainingDayIndexes(request.trainingDays);
+  const perDay = Math.min(EXERCISES_PER_DAY, request.exercises.length);
+  let next = hashString(request.goal) % request.exercises.length;
+
+  return DAY_NAMES.map((day, index) => {
+    if (!trainingIndexes.has(index)) {
+      return { day, focus: 'Rest', exercises: [] };
+    }
+    const exercises = Array.from({ length: perDay }, () => {
+      const exercise = request.exercises[next % request.exercises.length];
+      next++;
+      return { originalExerciseId: exercise.id, name: exercise.name, ...prescription };
+    });
+    return { day, focus: `${request.goal} Session`, exercises, notes: 'Focus on form.' };
+  });
+};
+
+const buildPlan = (request: PlanRequest): object => {
+  const prescription = prescriptionForGoal(request.goal);
+  const trainingDays = trainingDayIndexes(request.trainingDays).size;
+  const overview = {
+    title: `Offline ${request.goal} Plan`,
+    description: `A demo plan for ${request.goal.toLowerCase()}, built offline from your library without an AI model.`,
+    weeklySplitDescription: `${trainingDays}-Day Full Body Split`,
+    warmupRecommendation: '5-10 minutes of light cardio and dynamic stretching.',
+    cooldownRecommendation: '5-10 minutes of static stretching for the muscles worked.',
+    progressionTips: 'Add a rep or a little weight each week while your form stays solid.',
+  };
+
+  if (!request.totalWeeks) {
+    return { ...overview, weeklyPlan: buildWeek(request, prescription) };
+  }
+
+  const weeks = Array.from({ length: request.totalWeeks }, (_, i) => {
+    const week = i + 1;
+    const isDeload = week % DELOAD_EVERY_WEEKS === 0;
+    return {
+      week,
+      phase: isDeload ? 'Deload' : PHASES[Math.min(Math.floor((i * PHASES.length) / request.totalWeeks!), PHASES.length - 1)],
+      isDeload,
+      notes: isDeload ? 'Reduced volume to recover before the next phase.' : 'Build on last week.',
+      weeklyPlan: buildWeek(request, isDeload ? { ...prescription, sets: '2' } : prescription),
+    };
+  });
+  return { ...overview, weeks };
+};
+
+export const createMockProvider = (options: MockProviderOptions = {}): AIProvider => {
+  const { failEvery = 0, responseDelayMs = 600, chunkDelayMs = 40 } = options;
+  let requestCount = 0;
+
+  // Count the request and report whether it should fail
+  const nextRequestFails = (): number | null => {
+    requestCount++;
+    return failEvery > 0 && requestCount % failEvery === 0 ? requestCount : null;
+  };
+
+  const respond = async <T>(response: () => T): Promise<T> => {
+    const failing = nextRequestFails();
+    await wait(responseDelayMs);
+    if (failing !== null) {
+      throw simulatedFailure(failing);
+    }
+    return response();
+  };
+
+  return {
+    analyzeVideo({ video }) {
+      return respond(() => {
+        const seed = hashString(`${video.name}:${video.size}`);
+        const count = 1 + (seed % 3);
+        let startTime = 0;
+        const exercises = Array.from({ length: count }, (_, i) => {
+          const { duration, ...fixture } = pick(EXERCISE_FIXTURES, seed + i);
+          const exercise = { ...fixture, startTime, endTime: startTime + duration };
+          startTime += duration;
+          return exercise;
+        });
+        return JSON.stringify(exercises);
+      });
+    },
+
+    async *streamPlan(request) {
+      const failing = nextRequestFails();
+      await wait(responseDelayMs);
+      if (request.exercises.length === 0) {
+        throw new Error('The offline demo provider needs at least one exercise to build a plan.');
+      }
+
+      const text = JSON.stringify(buildPlan(request), null, 2);
+      // A failing stream breaks off halfway, like a dropped connection
+      const end = failing !== null ? Math.floor(text.length / 2) : text.length;
+      for (let offset = 0; offset < end; offset += CHUNK_SIZE) {
+        await wait(chunkDelayMs);
+        yield text.slice(offset, Math.min(offset + CHUNK_SIZE, end));
+      }
+      if (failing !== null) {
+        throw simulatedFailure(failing);
+      }
+    },
+
+    transcribeAudio(audio) {
+      return respond(() => pick(TRANSCRIPT_FIXTURES, audio.size));
+    },
+
+    getExerciseTip({ exerciseName }) {
+      return respond(() => pick(TIP_FIXTURES, hashString(exerciseName)).replace('{name}', exerciseName));
+    },
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * OpenAI-compatible provider
+ * Sends plan and tip requests to any server with an OpenAI-style chat completions API,
+ * such as a self-hosted llama.cpp or Ollama server, so member data can stay on
+ * infrastructure the gym controls. Those servers don't take videos or audio, so video
+ * analysis and transcription aren't supported.
+ */
+
+import { AIProvider } from './aiProvider';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // Only for servers that require one
+}
+
+/**
+ * Convert a Gemini response schema to standard JSON schema
+ * Gemini's Type enum uses upper-case type names ('OBJECT'); JSON schema uses lower case.
+ */
+export const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) {
+    return schema.map(toJsonSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') {
+      return [key, value.toLowerCase()];
+    }
+    return [key, toJsonSchema(value)];
+  }));
+};
+
+const unsupported = (capability: string) =>
+  new Error(`${capability} is not supported by the OpenAI-compatible provider. Choose Google Gemini or the offline demo in Settings to use it.`);
+
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleOptions): AIProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const complete = async (body: object): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, ...body }),
+      });
+    } catch {
+      throw new Error(`Could not reach the AI server at ${root}. Check that it is running and the URL in Settings.`);
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.error?.message || payload?.error || `AI server request failed (${response.status}).`);
+    }
+    return response;
+  };
+
+  return {
+    async analyzeVideo() {
+      throw unsupported('Video analysis');
+    },
+
+    async *streamPlan({ prompt, schema }) {
+      const response = await complete({
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'workout_plan', schema: toJsonSchema(schema) },
+        },
+      });
+      if (!response.body) {
+        throw new Error('The AI server returned an empty response.');
+      }
+
+      // Server-sent events: one "data: {...}" line per chunk, ending with "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const data = trimmed.slice('data:'.length).trim();
+          if (data === '[DONE]') continue;
+          const text = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+      }
+    },
+
+    async transcribeAudio() {
+      throw unsupported('Audio transcription');
+    },
+
+    async getExerciseTip({ prompt }) {
+      const response = await complete({ messages: [{ role: 'user', content: prompt }] });
+      const payload = await response.json();
+      return payload.choices?.[0]?.message?.content?.trim() ?? '';
+    },
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Server proxy provider
+ * Sends requests to the AI proxy on the sync server (server/aiProxy.js), which holds
+ * the Gemini key so it never ships in the app. Requests are signed in with the sync
+ * server session, and the server rate-limits each user.
+ */
+
+import { AIProvider } from './aiProvider';
+import { blobToInlineData } from './inlineData';
+
+/**
+ * @param getServer The sync server and session to use, looked up per request since the user can switch backends
+ */
+export const createProxyProvider = (getServer: () => { baseUrl: string; token: string } | null): AIProvider => {
+  const send = async (path: string, body: object): Promise<Response> => {
+    const server = getServer();
+    if (!server) {
+      throw new Error('The AI proxy runs on the sync server. Choose Sync Server under Data Backend in Settings and log in to use it.');
+    }
+    const root = server.baseUrl.replace(/\/+$/, '');
+    let response: Response;
+    try {
+      response = await fetch(`${root}/ai/${path}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${server.token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      throw new Error(`Could not reach the AI proxy at ${root}. Check your connection and backend settings.`);
+    }
+    if (response.ok) {
+      return response;
+    }
+    if (response.status === 401) {
+      throw new Error('Your session has expired. Please log in again.');
+    }
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || `AI proxy request failed (${response.status}).`);
+  };
+
+  const requestText = async (path: string, body: object): Promise<string> => {
+    const { text } = await (await send(path, body)).json();
+    return text;
+  };
+
+  return {
+    async analyzeVideo({ video, prompt, schema, useProModel }) {
+      return requestText('analyze', { prompt, schema, useProModel, video: await blobToInlineData(video) });
+    },
+
+    async *streamPlan({ prompt, schema, useProModel }) {
+      const response = await send('plan', { prompt, schema, useProModel });
+      if (!response.body) {
+        throw new Error('The AI proxy returned an empty response.');
+      }
+      // The proxy relays the model's text as it arrives
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const text = decoder.decode(value, { stream: true });
+        if (text) {
+          yield text;
+        }
+      }
+    },
+
+    async transcribeAudio(audio) {
+      return requestText('transcribe', { audio: await blobToInlineData(audio) });
+    },
+
+    getExerciseTip({ prompt }) {
+      return requestText('tip', { prompt });
+    },
+  };
+};
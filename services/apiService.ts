@@ -1,171 +1,350 @@
-import { Exercise, SavedWorkoutPlanEntry, User, FullUserDataBackup } from '../types';
+import { Exercise, SavedWorkoutPlanEntry, User, FullUserDataBackup, WorkoutLog, BackupProgress } from '../types';
 import * as videoStorage from './videoStorage';
+import * as encryption from './encryption';
+import * as backupArchive from './backupArchive';
+import { BackupMediaSource } from './backupArchive';
+import { previewMerge, MergeChange, MergePreview } from './backupMerge';
+import { getExerciseMediaKeys, renameExerciseMediaKeys, splitSharedMediaKeys } from './mediaKeys';
+import { AuthSession, BackendConfig, DataBackend, UserDataStore } from './backends/dataBackend';
+import { localBackend, readAllDeviceExercises, hasStoredPassword, setInitialPassword } from './backends/localBackend';
+import { createRestBackend } from './backends/restBackend';
+
+export type { UserDataStore, BackendConfig, BackendType } from './backends/dataBackend';
+export { getExerciseMediaKeys } from './mediaKeys';
 
-const MOCK_LATENCY = 300; // ms
 const CURRENT_USER_SESSION_KEY = 'ai_workout_currentUser';
+const BACKEND_CONFIG_KEY = 'ai_workout_backendConfig';
 
-// --- Helper Functions to simulate backend behavior ---
+// --- Backend Selection ---
 
-const simulateDelay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY));
+const DEFAULT_BACKEND_CONFIG: BackendConfig = { type: 'local' };
 
-// This interface now ONLY describes what's in localStorage for the user.
-export interface UserDataStore {
-  exercises: Exercise[];
-  savedPlans: SavedWorkoutPlanEntry[];
-  // The 'videos' property is completely removed to avoid quota errors.
-}
+export const getBackendConfig = (): BackendConfig => {
+  const json = localStorage.getItem(BACKEND_CONFIG_KEY);
+  return json ? JSON.parse(json) : DEFAULT_BACKEND_CONFIG;
+};
+
+/**
+ * Switch where data is stored. The current session belongs to the old backend,
+ * so the user is logged out and must sign in again.
+ */
+export const setBackendConfig = (config: BackendConfig): void => {
+  if (config.type === 'rest' && !config.baseUrl?.trim()) {
+    throw new Error('Enter the server URL to use a remote backend.');
+  }
+  localStorage.setItem(BACKEND_CONFIG_KEY, JSON.stringify(config));
+  localStorage.removeItem(CURRENT_USER_SESSION_KEY);
+};
+
+const getBackend = (): DataBackend => {
+  const config = getBackendConfig();
+  return config.type === 'rest' && config.baseUrl ? createRestBackend(config.baseUrl) : localBackend;
+};
+
+// --- Session Helpers ---
+
+const getSession = (): AuthSession | null => {
+  const sessionJson = localStorage.getItem(CURRENT_USER_SESSION_KEY);
+  return sessionJson ? JSON.parse(sessionJson) : null;
+};
+
+const requireSession = (): AuthSession => {
+  const session = getSession();
+  if (!session) throw new Error("User not authenticated");
+  return session;
+};
+
+/**
+ * Sync server URL and session token, for services that call the sync server directly
+ * @returns null when data is stored on this device or no one is logged in
+ */
+export const getSyncServerSession = (): { baseUrl: string; token: string } | null => {
+  const config = getBackendConfig();
+  const token = getSession()?.token;
+  return config.type === 'rest' && config.baseUrl && token ? { baseUrl: config.baseUrl, token } : null;
+};
+
+const startSession = (session: AuthSession): User => {
+  localStorage.setItem(CURRENT_USER_SESSION_KEY, JSON.stringify(session));
+  return { email: session.email };
+};
 
 // --- Auth Functions ---
 
-export const signup = async (email: string, password?: string): Promise<User> => {
-  await simulateDelay();
-  const storageKey = `user_${email}`;
-  if (localStorage.getItem(storageKey)) {
-    throw new Error('An account with this email already exists.');
+export const signup = async (email: string, password: string): Promise<User> => {
+  encryption.lock();
+  return startSession(await getBackend().signup(email, password));
+};
+
+export const login = async (email: string, password: string): Promise<User> => {
+  const backend = getBackend();
+  const session = await backend.login(email, password);
+  try {
+    await encryption.unlock(email, password);
+  } catch (error) {
+    await backend.logout(session);
+    throw error;
   }
-  const newUser: User = { email };
-  const initialData: UserDataStore = {
-    exercises: [],
-    savedPlans: [],
-  };
-  localStorage.setItem(storageKey, JSON.stringify(initialData));
-  localStorage.setItem(CURRENT_USER_SESSION_KEY, JSON.stringify(newUser));
-  return newUser;
-};
-
-export const login = async (email: string, password?: string): Promise<User> => {
-  await simulateDelay();
-  const storageKey = `user_${email}`;
-  if (!localStorage.getItem(storageKey)) {
-    throw new Error('No account found with this email.');
+  return startSession(session);
+};
+
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  const session = requireSession();
+  await getBackend().changePassword(session, currentPassword, newPassword);
+  await encryption.rewrapKey(session.email, newPassword);
+};
+
+/**
+ * Whether the logged-in user still has to set a password
+ * Local accounts created before passwords were stored are locked out once they log out.
+ */
+export const needsPassword = (): boolean => {
+  const session = getSession();
+  return !!session && getBackendConfig().type === 'local' && !hasStoredPassword(session.email);
+};
+
+/**
+ * Set the first password for the logged-in user's local account
+ */
+export const setPassword = async (newPassword: string): Promise<void> => {
+  const session = requireSession();
+  if (getBackendConfig().type !== 'local') {
+    throw new Error('Your account on the sync server already has a password. Use Change Password instead.');
   }
-  const user: User = { email };
-  localStorage.setItem(CURRENT_USER_SESSION_KEY, JSON.stringify(user));
-  return user;
+  await setInitialPassword(session.email, newPassword);
 };
 
 export const logout = async (): Promise<void> => {
-  await simulateDelay();
+  const session = getSession();
+  if (session) {
+    await getBackend().logout(session);
+  }
+  encryption.lock();
   localStorage.removeItem(CURRENT_USER_SESSION_KEY);
 };
 
 export const getCurrentUser = (): User | null => {
-  const userJson = localStorage.getItem(CURRENT_USER_SESSION_KEY);
-  return userJson ? JSON.parse(userJson) : null;
+  const session = getSession();
+  if (!session) return null;
+  // The data key only lives in memory, so encrypted accounts log in again after a restart
+  if (encryption.isEncryptionEnabled(session.email) && !encryption.isUnlocked()) {
+    localStorage.removeItem(CURRENT_USER_SESSION_KEY);
+    return null;
+  }
+  return { email: session.email };
+};
+
+// --- Encryption Functions ---
+
+/**
+ * Check the password with the backend before using it as key material,
+ * since a typo here would make the data unrecoverable
+ */
+const confirmPassword = async (session: AuthSession, password: string): Promise<void> => {
+  const backend = getBackend();
+  const confirmed = await backend.login(session.email, password);
+  if (confirmed.token && confirmed.token !== session.token) {
+    await backend.logout(confirmed);
+  }
 };
 
+const getUserMediaKeys = (exercises: Exercise[]): string[] =>
+  Array.from(new Set(exercises.flatMap(getExerciseMediaKeys)));
+
+/**
+ * Copy a video and its thumbnail to a new key, written with the current encryption setting
+ * @returns The new key, or null if nothing readable is stored under the old one
+ */
+const copyMediaToNewKey = async (session: AuthSession, key: string): Promise<string | null> => {
+  // Files already encrypted under another account's key can't be read, so are left alone
+  const readable = (kind: videoStorage.MediaKind) => videoStorage.getMediaBlob(kind, key).catch(() => null);
+  const video = await readable('video');
+  const thumbnail = await readable('thumbnail');
+  if (!video && !thumbnail) {
+    return null;
+  }
+  const newKey = `${key}-${Math.random().toString(36).substring(2, 9)}`;
+  if (video) {
+    await getBackend().saveVideo(session, newKey, video instanceof File ? video : new File([video], newKey, { type: video.type }));
+  }
+  if (thumbnail) {
+    await videoStorage.saveThumbnail(newKey, thumbnail);
+  }
+  return newKey;
+};
 
-// --- Data Helper Functions ---
+export const isEncryptionEnabled = (): boolean => {
+  const session = getSession();
+  return !!session && encryption.isEncryptionEnabled(session.email);
+};
 
-const getUserData = (): UserDataStore | null => {
-  const user = getCurrentUser();
-  if (!user) return null;
-  const dataJson = localStorage.getItem(`user_${user.email}`);
-  return dataJson ? JSON.parse(dataJson) : { exercises: [], savedPlans: [] };
+/**
+ * Encrypt the current user's data on this device with a key derived from their password
+ * Covers the local data store (when using the local backend) plus every video and thumbnail.
+ * Videos and thumbnails another account on this device also uses are copied rather than
+ * encrypted in place, so that account can still read them.
+ */
+export const enableEncryption = async (password: string): Promise<void> => {
+  const session = requireSession();
+  if (encryption.isEncryptionEnabled(session.email)) return;
+  await confirmPassword(session, password);
+
+  const backend = getBackend();
+  const isLocal = getBackendConfig().type === 'local';
+  const data = await backend.getUserData(session);
+  const { exercises: otherExercises, isComplete } = await readAllDeviceExercises(isLocal ? session.email : undefined);
+  const { owned, shared } = splitSharedMediaKeys(data.exercises, otherExercises, isComplete);
+  await encryption.enableEncryption(session.email, password);
+
+  // Media other accounts use stays as it is for them; this user gets an encrypted copy
+  const renamed = new Map<string, string>();
+  for (const key of shared) {
+    const newKey = await copyMediaToNewKey(session, key);
+    if (newKey) renamed.set(key, newKey);
+  }
+  if (renamed.size > 0) {
+    data.exercises = data.exercises.map(ex => renameExerciseMediaKeys(ex, renamed));
+    if (!isLocal) await backend.saveExercises(session, data.exercises);
+  }
+  if (isLocal) {
+    await backend.replaceUserData(session, data);
+  }
+  await videoStorage.rewriteMedia(owned, true);
 };
 
-const saveUserData = (data: UserDataStore): void => {
-  const user = getCurrentUser();
-  if (!user) throw new Error('No authenticated user. Cannot save data.');
-  localStorage.setItem(`user_${user.email}`, JSON.stringify(data));
+/**
+ * Decrypt the current user's data on this device and forget the key
+ */
+export const disableEncryption = async (password: string): Promise<void> => {
+  const session = requireSession();
+  if (!encryption.isEncryptionEnabled(session.email)) return;
+  await confirmPassword(session, password);
+
+  const backend = getBackend();
+  const data = await backend.getUserData(session);
+  await videoStorage.rewriteMedia(getUserMediaKeys(data.exercises), false);
+  encryption.disableEncryption(session.email);
+  if (getBackendConfig().type === 'local') {
+    await backend.replaceUserData(session, data);
+  }
 };
 
 
 // --- Video Functions ---
-// These now delegate to the new videoStorage service which uses IndexedDB.
-
-export const saveVideoFile = async (file: File): Promise<string> => {
-  await simulateDelay();
-  const user = getCurrentUser();
-  if (!user) {
-    throw new Error("User not authenticated");
-  }
-  // Delegate to IndexedDB storage
-  const key = await videoStorage.saveVideo(file);
+// Videos are always kept on the device; remote backends also upload a copy.
+
+/**
+ * Save a video and return its storage key
+ * @param key Pass a key from videoStorage.createVideoKey to know it before the write finishes
+ */
+export const saveVideoFile = async (file: File, key: string = videoStorage.createVideoKey(file)): Promise<string> => {
+  const session = requireSession();
+  await getBackend().saveVideo(session, key, file);
   return key;
 };
 
 export const getVideoFile = async (key: string): Promise<File | null> => {
-    await simulateDelay();
-    // Delegate to IndexedDB storage
-    return await videoStorage.getVideo(key);
+  const session = getSession();
+  return session ? getBackend().getVideo(session, key) : videoStorage.getVideo(key);
+};
+
+/**
+ * Delete a video and its thumbnail
+ */
+export const deleteVideoFile = async (key: string): Promise<void> => {
+  await getBackend().deleteVideo(requireSession(), key);
+  await videoStorage.deleteThumbnail(key);
+};
+
+export interface MediaReferenceCounts {
+  counts: Map<string, number>; // Storage key -> number of exercises using it as their video or thumbnail
+  isComplete: boolean; // False if another account's encrypted exercises couldn't be read
+}
+
+/**
+ * Count how many exercises use each video and thumbnail key
+ * Media is shared by every account on the device (restoring one backup into two
+ * accounts gives both the same keys), so all local accounts are counted, plus the
+ * current user's exercises when they live on a remote backend.
+ */
+export const getMediaReferenceCounts = async (): Promise<MediaReferenceCounts> => {
+  const { exercises, isComplete } = await readAllDeviceExercises();
+  if (getBackendConfig().type !== 'local') {
+    exercises.push(...(await getAllExercises()));
+  }
+  const counts = new Map<string, number>();
+  exercises.forEach(ex => {
+    getExerciseMediaKeys(ex).forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+  return { counts, isComplete };
+};
+
+/**
+ * Delete a video and its thumbnail if no exercise uses them any more
+ * Files are kept when another account's encrypted data means that can't be known for sure.
+ * @returns Whether the video was deleted
+ */
+export const deleteVideoIfUnused = async (key: string): Promise<boolean> => {
+  const { counts, isComplete } = await getMediaReferenceCounts();
+  if (counts.has(key) || !isComplete) {
+    return false;
+  }
+  await deleteVideoFile(key);
+  return true;
 };
 
 // --- Exercise Functions ---
 
 export const getAllExercises = async (): Promise<Exercise[]> => {
-  await simulateDelay();
-  const data = getUserData();
-  return data?.exercises || [];
+  const session = getSession();
+  return session ? getBackend().getExercises(session) : [];
 };
 
 export const saveAllExercises = async (exercises: Exercise[]): Promise<void> => {
-  await simulateDelay();
-  const data = getUserData();
-  if (!data) throw new Error("User not authenticated");
-  data.exercises = exercises;
-  saveUserData(data);
+  await getBackend().saveExercises(requireSession(), exercises);
 };
 
 export const deleteExercise = async (exerciseId: string): Promise<void> => {
-  await simulateDelay();
-  const data = getUserData();
-  if (!data) throw new Error("User not authenticated");
-  data.exercises = data.exercises.filter(ex => ex.id !== exerciseId);
-  saveUserData(data);
+  await getBackend().deleteExercise(requireSession(), exerciseId);
 };
 
 // --- Saved Plan Functions ---
 
 export const getAllSavedPlanEntries = async (): Promise<SavedWorkoutPlanEntry[]> => {
-    await simulateDelay();
-    const data = getUserData();
-    return data?.savedPlans || [];
+    const session = getSession();
+    return session ? getBackend().getPlans(session) : [];
 };
 
 export const getSavedPlanEntry = async (planId: string): Promise<SavedWorkoutPlanEntry | null> => {
-    await simulateDelay();
-    const data = getUserData();
-    return data?.savedPlans.find(p => p.id === planId) || null;
+    const plans = await getAllSavedPlanEntries();
+    return plans.find(p => p.id === planId) || null;
 };
 
 export const savePlanEntry = async (entry: SavedWorkoutPlanEntry): Promise<void> => {
-    await simulateDelay();
-    const data = getUserData();
-    if (!data) throw new Error("User not authenticated");
-    const existingIndex = data.savedPlans.findIndex(p => p.id === entry.id);
-    if (existingIndex > -1) {
-        data.savedPlans[existingIndex] = entry;
-    } else {
-        data.savedPlans.push(entry);
-    }
-    saveUserData(data);
+    await getBackend().savePlan(requireSession(), entry);
 };
 
 export const deleteSavedPlanEntry = async (planId: string): Promise<void> => {
-    await simulateDelay();
-    const data = getUserData();
-    if (!data) throw new Error("User not authenticated");
-    data.savedPlans = data.savedPlans.filter(p => p.id !== planId);
-    saveUserData(data);
+    await getBackend().deletePlan(requireSession(), planId);
 };
 
-// --- Backup/Restore Functions ---
+// --- Workout Log Functions ---
 
-const fileToBase64 = (file: File): Promise<{ mimeType: string, data: string }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-        const result = reader.result as string;
-        // result is "data:video/mp4;base64,.....", we want the part after the comma
-        const base64Data = result.split(',')[1];
-        resolve({ mimeType: file.type, data: base64Data });
-    };
-    reader.onerror = error => reject(error);
-  });
+export const getAllWorkoutLogs = async (): Promise<WorkoutLog[]> => {
+    const session = getSession();
+    return session ? getBackend().getWorkoutLogs(session) : [];
+};
+
+export const saveWorkoutLog = async (log: WorkoutLog): Promise<void> => {
+    await getBackend().saveWorkoutLog(requireSession(), log);
+};
+
+export const deleteWorkoutLog = async (logId: string): Promise<void> => {
+    await getBackend().deleteWorkoutLog(requireSession(), logId);
 };
 
+// --- Backup/Restore Functions ---
+
 const base64ToFile = (base64: string, filename: string, mimeType: string): File => {
     const byteCharacters = atob(base64);
     const byteNumbers = new Array(byteCharacters.length);
@@ -178,63 +357,166 @@ const base64ToFile = (base64: string, filename: string, mimeType: string): File
 };
 
 
-export const getAllUserDataForBackup = async (): Promise<FullUserDataBackup> => {
-    await simulateDelay();
-    const localData = getUserData();
-    const exercises = localData?.exercises || [];
-    const savedPlans = localData?.savedPlans || [];
-    
-    const videos: Record<string, { mimeType: string, data: string }> = {};
-    const videoKeys = new Set<string>();
-    
-    // Collect all unique video storage keys from exercises
-    exercises.forEach(ex => {
-        if (ex.videoStorageKey) {
-            videoKeys.add(ex.videoStorageKey);
-        }
-    });
+export interface RestoreSummary {
+    exerciseCount: number;
+    planCount: number;
+    logCount: number;
+    videoCount: number;
+}
 
-    // Asynchronously fetch each video from IndexedDB and convert it to base64
-    const videoConversionPromises = Array.from(videoKeys).map(async (key) => {
-        const file = await videoStorage.getVideo(key);
-        if (file) {
-            const videoData = await fileToBase64(file);
-            videos[key] = videoData;
+const restoreBackupMedia = async (
+    session: AuthSession,
+    backend: DataBackend,
+    media: backupArchive.BackupMedia[],
+    onProgress?: (progress: BackupProgress) => void
+): Promise<void> => {
+    let processedBytes = 0;
+    for (const [index, item] of media.entries()) {
+        onProgress?.({ stage: 'restoring', completedFiles: index, totalFiles: media.length, processedBytes, currentFile: item.key });
+        if (item.kind === 'video') {
+            await backend.saveVideo(session, item.key, new File([item.data], item.key, { type: item.mimeType }));
+        } else {
+            await videoStorage.saveThumbnail(item.key, item.data);
         }
+        processedBytes += item.data.size;
+    }
+};
+
+/**
+ * Stream a ZIP backup of all the current user's data, videos and thumbnails
+ * @param includeVideos Leave this off for backups kept on this device, which already has the videos
+ */
+export const createBackupArchive = async (
+    onProgress?: (progress: BackupProgress) => void,
+    includeVideos: boolean = true
+): Promise<ReadableStream<Uint8Array>> => {
+    const session = requireSession();
+    const backend = getBackend();
+    const data = await backend.getUserData(session);
+
+    const videoKeys = new Set<string>();
+    const thumbnailKeys = new Set<string>();
+    data.exercises.forEach(ex => {
+        if (ex.thumbnailStorageKey) thumbnailKeys.add(ex.thumbnailStorageKey);
+        if (!includeVideos) return;
+        if (ex.videoStorageKey) videoKeys.add(ex.videoStorageKey);
+        ex.alternateAngles?.forEach(angle => videoKeys.add(angle.videoStorageKey));
     });
 
-    await Promise.all(videoConversionPromises);
+    const media: BackupMediaSource[] = [
+        ...Array.from(videoKeys).map(key => ({
+            kind: 'video' as const,
+            key,
+            // Prefer the copy on this device; remote backends may have to download it
+            load: async () => (await videoStorage.getMediaBlob('video', key)) ?? backend.getVideo(session, key),
+        })),
+        ...Array.from(thumbnailKeys).map(key => ({
+            kind: 'thumbnail' as const,
+            key,
+            load: () => videoStorage.getMediaBlob('thumbnail', key),
+        })),
+    ];
+
+    return backupArchive.createBackupArchive(data, media, onProgress);
+};
+
+/**
+ * Restore a ZIP backup, replacing the current user's data
+ * The archive is fully verified before anything is overwritten.
+ */
+export const restoreBackupArchive = async (
+    archive: Blob,
+    onProgress?: (progress: BackupProgress) => void
+): Promise<RestoreSummary> => {
+    const session = getSession();
+    if (!session) {
+        throw new Error("You must be logged in to restore data.");
+    }
+    const backup = await backupArchive.readBackupArchive(archive, onProgress);
+    const backend = getBackend();
+
+    await backend.replaceUserData(session, backup.data);
+    await restoreBackupMedia(session, backend, backup.media, onProgress);
+
+    return {
+        exerciseCount: backup.data.exercises.length,
+        planCount: backup.data.savedPlans.length,
+        logCount: backup.data.workoutLogs.length,
+        videoCount: backup.manifest.counts.videos,
+    };
+};
 
-    return { exercises, savedPlans, videos };
+export interface MergeRestorePlan {
+    backup: backupArchive.VerifiedBackup;
+    preview: MergePreview;
 }
 
-export const restoreUserData = async (dataToRestore: FullUserDataBackup): Promise<{
-    exerciseCount: number;
-    planCount: number;
-    videoCount: number;
-}> => {
-    await simulateDelay();
-    const user = getCurrentUser();
-    if (!user) {
+/**
+ * Verify a ZIP backup and work out what merging it would change, without changing anything
+ */
+export const prepareMergeRestore = async (
+    archive: Blob,
+    onProgress?: (progress: BackupProgress) => void
+): Promise<MergeRestorePlan> => {
+    const session = requireSession();
+    const backup = await backupArchive.readBackupArchive(archive, onProgress);
+    const current = await getBackend().getUserData(session);
+    return { backup, preview: previewMerge(current, backup.data) };
+};
+
+/**
+ * Merge a previewed backup into the current user's data
+ * The merge is recomputed against the latest data so nothing saved since the preview is lost.
+ */
+export const applyMergeRestore = async (
+    restorePlan: MergeRestorePlan,
+    onProgress?: (progress: BackupProgress) => void
+): Promise<RestoreSummary> => {
+    const session = requireSession();
+    const backend = getBackend();
+    const { merged, changes, mediaKeys } = previewMerge(await backend.getUserData(session), restorePlan.backup.data);
+
+    await backend.replaceUserData(session, merged);
+    const neededMedia = restorePlan.backup.media.filter(item => mediaKeys.includes(item.key));
+    await restoreBackupMedia(session, backend, neededMedia, onProgress);
+
+    const countChanges = (kind: MergeChange['kind']) =>
+        changes.filter(change => change.kind === kind && change.status !== 'skipped').length;
+    return {
+        exerciseCount: countChanges('exercise'),
+        planCount: countChanges('plan'),
+        logCount: countChanges('log'),
+        videoCount: neededMedia.filter(item => item.kind === 'video').length,
+    };
+};
+
+/**
+ * Restore a backup in the legacy single-JSON format (base64-encoded videos)
+ */
+export const restoreUserData = async (dataToRestore: FullUserDataBackup): Promise<RestoreSummary> => {
+    const session = getSession();
+    if (!session) {
         throw new Error("You must be logged in to restore data.");
     }
+    const backend = getBackend();
 
-    // 1. Restore exercises and plans to localStorage
+    // 1. Restore exercises, plans and workout history
     const userData: UserDataStore = {
         exercises: dataToRestore.exercises,
         savedPlans: dataToRestore.savedPlans,
+        workoutLogs: dataToRestore.workoutLogs || [],
     };
-    saveUserData(userData);
-    
+    await backend.replaceUserData(session, userData);
+
     let videoCount = 0;
-    // 2. Restore videos to IndexedDB
+    // 2. Restore videos
     if (dataToRestore.videos) {
         const videoRestorePromises: Promise<void>[] = [];
         for (const key in dataToRestore.videos) {
             const videoInfo = dataToRestore.videos[key];
             const file = base64ToFile(videoInfo.data, key, videoInfo.mimeType);
-            // Save the file to IndexedDB with its original key
-            videoRestorePromises.push(videoStorage.saveVideoWithKey(key, file));
+            // Save the file with its original key
+            videoRestorePromises.push(backend.saveVideo(session, key, file));
             videoCount++;
         }
         await Promise.all(videoRestorePromises);
@@ -243,6 +525,7 @@ export const restoreUserData = async (dataToRestore: FullUserDataBackup): Promis
     return {
         exerciseCount: dataToRestore.exercises.length,
         planCount: dataToRestore.savedPlans.length,
+        logCount: userData.workoutLogs.length,
         videoCount,
     };
 }
\ No newline at end of file
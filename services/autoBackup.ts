@@ -0,0 +1,259 @@
+/**
+ * Automatic backups
+ *
+ * While the app is open, a ZIP backup (the same format as a manual backup) is taken
+ * whenever the last one is older than the configured interval. Only the newest few
+ * snapshots are kept. They stay on this device: in the app's data folder on native
+ * and in IndexedDB on web, so they protect against mistakes and bad imports, not
+ * against losing the device.
+ *
+ * Web snapshots leave the videos out. Those are already in IndexedDB, and copies
+ * there would eat into the same storage quota the snapshots are meant to protect.
+ * Encrypted snapshots leave them out too, since encrypting means holding the whole
+ * archive in memory. Restoring such a snapshot brings back every exercise, but
+ * exercises whose videos were deleted after it was taken come back without video.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { BackupProgress } from '../types';
+import * as apiService from './apiService';
+import { writeStreamToNativeFile } from './backupArchive';
+import { openDatabase, requestToPromise, transactionDone, BACKUP_STORE_NAME, OWNER_INDEX_NAME } from './database';
+import { isUnlocked, encryptBlob, decryptBlob, isEncryptedBlob } from './encryption';
+import { createSha256 } from './sha256';
+
+const isNativePlatform = Capacitor.isNativePlatform();
+
+// How often the scheduler checks whether a backup is due
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  intervalHours: number;
+  keepLast: number;
+  lastBackupAt?: string; // ISO date of the last successful snapshot
+  lastError?: string;
+}
+
+export interface BackupSnapshot {
+  id: string;
+  createdAt: string;
+  size: number;
+  encrypted: boolean;
+}
+
+interface StoredSnapshot extends BackupSnapshot {
+  owner: string;
+  data: Blob;
+}
+
+const DEFAULT_SETTINGS: AutoBackupSettings = {
+  enabled: false,
+  intervalHours: 24,
+  keepLast: 5,
+};
+
+/**
+ * Whether new snapshots include videos, or only data and thumbnails
+ * Unencrypted native snapshots are streamed to a file, so only they can afford videos.
+ */
+export const snapshotsIncludeVideos = (): boolean => isNativePlatform && !isUnlocked();
+
+const settingsKey = (email: string) => `autoBackup_${email}`;
+
+export const getAutoBackupSettings = (email: string): AutoBackupSettings => {
+  try {
+    const stored = localStorage.getItem(settingsKey(email));
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveAutoBackupSettings = (email: string, settings: AutoBackupSettings): void => {
+  if (!Number.isInteger(settings.keepLast) || settings.keepLast < 1) {
+    throw new Error('Keep at least one backup.');
+  }
+  if (!(settings.intervalHours > 0)) {
+    throw new Error('Choose how often to back up.');
+  }
+  localStorage.setItem(settingsKey(email), JSON.stringify(settings));
+};
+
+const updateSettings = (email: string, changes: Partial<AutoBackupSettings>) =>
+  saveAutoBackupSettings(email, { ...getAutoBackupSettings(email), ...changes });
+
+// --- Native storage: Directory.Data/backups/<sha256(email)>/<id>.zip (or .enc) ---
+
+const nativeUserDir = (email: string): string => {
+  const hash = createSha256();
+  hash.update(new TextEncoder().encode(email));
+  return `backups/${hash.digestHex()}`;
+};
+
+const nativeSnapshotPath = (email: string, snapshot: Pick<BackupSnapshot, 'id' | 'encrypted'>) =>
+  `${nativeUserDir(email)}/${snapshot.id}.${snapshot.encrypted ? 'enc' : 'zip'}`;
+
+const listNativeSnapshots = async (email: string): Promise<BackupSnapshot[]> => {
+  let files;
+  try {
+    ({ files } = await Filesystem.readdir({ path: nativeUserDir(email), directory: Directory.Data }));
+  } catch {
+    return []; // No snapshots yet, so the folder doesn't exist
+  }
+  return files.flatMap(file => {
+    const match = file.name.match(/^(snapshot-(\d+))\.(zip|enc)$/);
+    if (!match) return [];
+    return [{
+      id: match[1],
+      createdAt: new Date(Number(match[2])).toISOString(),
+      size: file.size,
+      encrypted: match[3] === 'enc',
+    }];
+  });
+};
+
+// --- Web storage: the backups store in IndexedDB ---
+
+const listWebSnapshots = async (email: string): Promise<StoredSnapshot[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BACKUP_STORE_NAME, 'readonly');
+  const index = transaction.objectStore(BACKUP_STORE_NAME).index(OWNER_INDEX_NAME);
+  return requestToPromise<StoredSnapshot[]>(index.getAll(email));
+};
+
+/**
+ * The current user's snapshots, newest first
+ */
+export const listSnapshots = async (email: string): Promise<BackupSnapshot[]> => {
+  const snapshots = isNativePlatform
+    ? await listNativeSnapshots(email)
+    : (await listWebSnapshots(email)).map(({ id, createdAt, size, encrypted }) => ({ id, createdAt, size, encrypted }));
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteSnapshot = async (email: string, snapshot: BackupSnapshot): Promise<void> => {
+  if (isNativePlatform) {
+    await Filesystem.deleteFile({ path: nativeSnapshotPath(email, snapshot), directory: Directory.Data });
+    return;
+  }
+  const db = await openDatabase();
+  const transaction = db.transaction(BACKUP_STORE_NAME, 'readwrite');
+  transaction.objectStore(BACKUP_STORE_NAME).delete(snapshot.id);
+  await transactionDone(transaction);
+};
+
+const pruneSnapshots = async (email: string, keepLast: number): Promise<void> => {
+  const snapshots = await listSnapshots(email);
+  for (const snapshot of snapshots.slice(keepLast)) {
+    await deleteSnapshot(email, snapshot);
+  }
+};
+
+/**
+ * Take a snapshot of the current user's data now, then drop any beyond the configured count
+ * Snapshots are encrypted when the user has encryption turned on, since the archive
+ * itself holds everything in plaintext.
+ */
+export const createSnapshot = async (
+  email: string,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<BackupSnapshot> => {
+  const createdAt = new Date();
+  const encrypted = isUnlocked();
+  const stream = await apiService.createBackupArchive(onProgress, snapshotsIncludeVideos());
+  const snapshot: BackupSnapshot = { id: `snapshot-${createdAt.getTime()}`, createdAt: createdAt.toISOString(), size: 0, encrypted };
+
+  if (isNativePlatform) {
+    const data = encrypted ? (await encryptBlob(await new Response(stream).blob())).stream() : stream;
+    snapshot.size = await writeStreamToNativeFile(data, nativeSnapshotPath(email, snapshot), Directory.Data);
+  } else {
+    const archive = await new Response(stream).blob();
+    const data = encrypted ? await encryptBlob(archive) : archive;
+    snapshot.size = data.size;
+    const db = await openDatabase();
+    const transaction = db.transaction(BACKUP_STORE_NAME, 'readwrite');
+    const stored: StoredSnapshot = { ...snapshot, owner: email, data };
+    transaction.objectStore(BACKUP_STORE_NAME).put(stored);
+    await transactionDone(transaction);
+  }
+
+  updateSettings(email, { lastBackupAt: snapshot.createdAt, lastError: undefined });
+  await pruneSnapshots(email, getAutoBackupSettings(email).keepLast);
+  return snapshot;
+};
+
+const readSnapshot = async (email: string, snapshot: BackupSnapshot): Promise<Blob> => {
+  let data: Blob | undefined;
+  if (isNativePlatform) {
+    // Let the WebView load the file rather than pulling it through the bridge as base64
+    const { uri } = await Filesystem.getUri({ path: nativeSnapshotPath(email, snapshot), directory: Directory.Data });
+    data = await (await fetch(Capacitor.convertFileSrc(uri))).blob();
+  } else {
+    const db = await openDatabase();
+    const transaction = db.transaction(BACKUP_STORE_NAME, 'readonly');
+    const stored = await requestToPromise<StoredSnapshot | undefined>(transaction.objectStore(BACKUP_STORE_NAME).get(snapshot.id));
+    data = stored?.owner === email ? stored.data : undefined;
+  }
+  if (!data) {
+    throw new Error('That backup no longer exists.');
+  }
+  return (await isEncryptedBlob(data)) ? decryptBlob(data) : data;
+};
+
+/**
+ * Replace the current user's data with a snapshot
+ * The snapshot is verified like any other backup before anything is overwritten.
+ */
+export const restoreSnapshot = async (
+  email: string,
+  snapshot: BackupSnapshot,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<apiService.RestoreSummary> =>
+  apiService.restoreBackupArchive(await readSnapshot(email, snapshot), onProgress);
+
+const isBackupDue = (settings: AutoBackupSettings): boolean =>
+  settings.enabled &&
+  (!settings.lastBackupAt || Date.now() - new Date(settings.lastBackupAt).getTime() >= settings.intervalHours * HOUR_MS);
+
+let runningBackup: Promise<BackupSnapshot | null> | null = null;
+
+/**
+ * Take a snapshot if automatic backups are on and the last one is old enough
+ * Failures are recorded in the settings (shown in Settings) rather than thrown.
+ * @returns The new snapshot, or null if none was taken
+ */
+export const runAutoBackupIfDue = (email: string): Promise<BackupSnapshot | null> => {
+  if (runningBackup) return runningBackup;
+  if (!isBackupDue(getAutoBackupSettings(email))) return Promise.resolve(null);
+
+  runningBackup = createSnapshot(email)
+    .catch(error => {
+      console.error('Automatic backup failed:', error);
+      updateSettings(email, { lastError: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    })
+    .finally(() => {
+      runningBackup = null;
+    });
+  return runningBackup;
+};
+
+/**
+ * Check for a due backup now and then periodically while the app is open
+ * @returns A function that stops the scheduler
+ */
+export const startAutoBackupScheduler = (
+  email: string,
+  onSnapshot?: (snapshot: BackupSnapshot) => void
+): (() => void) => {
+  const check = async () => {
+    const snapshot = await runAutoBackupIfDue(email);
+    if (snapshot) onSnapshot?.(snapshot);
+  };
+  check();
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  return () => clearInterval(timer);
+};
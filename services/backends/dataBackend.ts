@@ -0,0 +1,62 @@
+/**
+ * Storage backend contract used by apiService
+ * Each adapter owns where accounts, exercises, plans, logs and videos live.
+ */
+
+import { Exercise, SavedWorkoutPlanEntry, WorkoutLog } from '../../types';
+
+// Everything stored for a user, apart from videos.
+export interface UserDataStore {
+  exercises: Exercise[];
+  savedPlans: SavedWorkoutPlanEntry[];
+  workoutLogs: WorkoutLog[];
+  // The 'videos' property is completely removed to avoid quota errors.
+}
+
+/**
+ * The logged-in user as far as a backend is concerned.
+ * Remote backends put their bearer token here; the local backend has none.
+ */
+export interface AuthSession {
+  email: string;
+  token?: string;
+}
+
+export interface DataBackend {
+  // --- Auth ---
+  signup(email: string, password: string): Promise<AuthSession>;
+  login(email: string, password: string): Promise<AuthSession>;
+  logout(session: AuthSession): Promise<void>;
+  changePassword(session: AuthSession, currentPassword: string, newPassword: string): Promise<void>;
+
+  // --- Whole-store access, used by backup and restore ---
+  getUserData(session: AuthSession): Promise<UserDataStore>;
+  replaceUserData(session: AuthSession, data: UserDataStore): Promise<void>;
+
+  // --- Exercises ---
+  getExercises(session: AuthSession): Promise<Exercise[]>;
+  saveExercises(session: AuthSession, exercises: Exercise[]): Promise<void>;
+  deleteExercise(session: AuthSession, exerciseId: string): Promise<void>;
+
+  // --- Saved plans ---
+  getPlans(session: AuthSession): Promise<SavedWorkoutPlanEntry[]>;
+  savePlan(session: AuthSession, entry: SavedWorkoutPlanEntry): Promise<void>;
+  deletePlan(session: AuthSession, planId: string): Promise<void>;
+
+  // --- Workout logs ---
+  getWorkoutLogs(session: AuthSession): Promise<WorkoutLog[]>;
+  saveWorkoutLog(session: AuthSession, log: WorkoutLog): Promise<void>;
+  deleteWorkoutLog(session: AuthSession, logId: string): Promise<void>;
+
+  // --- Videos ---
+  saveVideo(session: AuthSession, key: string, file: File): Promise<void>;
+  getVideo(session: AuthSession, key: string): Promise<File | null>;
+  deleteVideo(session: AuthSession, key: string): Promise<void>;
+}
+
+export type BackendType = 'local' | 'rest';
+
+export interface BackendConfig {
+  type: BackendType;
+  baseUrl?: string; // Required for 'rest', e.g. http://localhost:3001
+}
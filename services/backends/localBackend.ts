@@ -0,0 +1,370 @@
+/**
+ * Device-only backend
+ * Keeps exercises, plans and logs in IndexedDB, videos in IndexedDB / the native filesystem,
+ * and credentials in localStorage.
+ */
+
+import { Exercise, SavedWorkoutPlanEntry, WorkoutLog } from '../../types';
+import * as videoStorage from '../videoStorage';
+import { hashPassword, verifyPassword, PasswordHash } from '../passwordHash';
+import { isUnlocked, isEncryptedJson, encryptJson, decryptJson } from '../encryption';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  EXERCISE_STORE_NAME,
+  PLAN_STORE_NAME,
+  WORKOUT_LOG_STORE_NAME,
+  OWNER_INDEX_NAME,
+} from '../database';
+import { AuthSession, DataBackend, UserDataStore } from './dataBackend';
+
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
+// Stored separately from UserDataStore so credentials never end up in backups.
+interface StoredCredentials extends PasswordHash {
+  failedAttempts: number;
+  lockedUntil?: number; // epoch ms
+}
+
+// Before IndexedDB, all of a user's data was one JSON blob under this key
+const legacyUserDataKey = (email: string) => `user_${email}`;
+const credentialsKey = (email: string) => `credentials_${email}`;
+
+const getCredentials = (email: string): StoredCredentials | null => {
+  const json = localStorage.getItem(credentialsKey(email));
+  return json ? JSON.parse(json) : null;
+};
+
+const saveCredentials = (email: string, credentials: StoredCredentials): void => {
+  localStorage.setItem(credentialsKey(email), JSON.stringify(credentials));
+};
+
+const validatePasswordStrength = (password: string): void => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+};
+
+/**
+ * Verifies a password against the stored credentials, tracking failures and lockout.
+ * Throws with a user-facing message on failure.
+ */
+const checkPassword = async (email: string, password: string, credentials: StoredCredentials): Promise<void> => {
+  if (credentials.lockedUntil && credentials.lockedUntil > Date.now()) {
+    const minutesLeft = Math.ceil((credentials.lockedUntil - Date.now()) / 60000);
+    throw new Error(`Too many failed attempts. Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`);
+  }
+
+  if (await verifyPassword(password, credentials)) {
+    saveCredentials(email, { ...credentials, failedAttempts: 0, lockedUntil: undefined });
+    return;
+  }
+
+  const failedAttempts = credentials.failedAttempts + 1;
+  if (failedAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+    saveCredentials(email, { ...credentials, failedAttempts: 0, lockedUntil: Date.now() + LOCKOUT_DURATION_MS });
+    throw new Error(`Too many failed attempts. Try again in ${LOCKOUT_DURATION_MS / 60000} minutes.`);
+  }
+  saveCredentials(email, { ...credentials, failedAttempts });
+  throw new Error('Incorrect email or password.');
+};
+
+/**
+ * Whether a password is stored for this account. Accounts created before passwords
+ * were stored have none and can't be logged in to until one is set.
+ */
+export const hasStoredPassword = (email: string): boolean => !!getCredentials(email);
+
+/**
+ * Set the first password for an account created before passwords were stored
+ * Only call this for the logged-in user: their session is the only proof they own the account.
+ */
+export const setInitialPassword = async (email: string, password: string): Promise<void> => {
+  if (getCredentials(email)) {
+    throw new Error('This account already has a password. Use Change Password instead.');
+  }
+  validatePasswordStrength(password);
+  saveCredentials(email, { ...(await hashPassword(password)), failedAttempts: 0 });
+};
+
+const accountExists = (email: string): boolean =>
+  !!getCredentials(email) || !!localStorage.getItem(legacyUserDataKey(email));
+
+// --- Records ---
+
+// One row per exercise/plan/log. The value is encrypted when the user's data key is unlocked.
+interface StoredRecord {
+  owner: string;
+  id: string;
+  position?: number; // Library order for exercises; plans and logs sort by their time-based ids
+  value: unknown;
+}
+
+const encodeRecord = async (owner: string, item: { id: string }, position?: number): Promise<StoredRecord> => ({
+  owner,
+  id: item.id,
+  position,
+  value: isUnlocked() ? await encryptJson(item) : item,
+});
+
+const decodeRecord = async <T>(record: StoredRecord): Promise<T> =>
+  isEncryptedJson(record.value) ? decryptJson<T>(record.value) : (record.value as T);
+
+// Every [owner, id] key for one owner (arrays sort after strings, so [owner, []] is past every id)
+const ownerKeyRange = (owner: string) => IDBKeyRange.bound([owner], [owner, []]);
+
+const toUserDataStore = (data: Partial<UserDataStore>): UserDataStore => ({
+  exercises: data.exercises || [],
+  savedPlans: data.savedPlans || [],
+  // Accounts created before workout history existed have no workoutLogs array.
+  workoutLogs: data.workoutLogs || [],
+});
+
+/**
+ * Replace everything one owner has in the given stores, in a single transaction
+ * Records are encrypted before the transaction opens, since IndexedDB commits
+ * a transaction as soon as it waits on anything else.
+ */
+const replaceRecords = async (owner: string, itemsByStore: Record<string, { id: string }[]>): Promise<void> => {
+  const storeNames = Object.keys(itemsByStore);
+  const recordsByStore: Record<string, StoredRecord[]> = {};
+  for (const storeName of storeNames) {
+    const positioned = storeName === EXERCISE_STORE_NAME;
+    recordsByStore[storeName] = await Promise.all(
+      itemsByStore[storeName].map((item, index) => encodeRecord(owner, item, positioned ? index : undefined))
+    );
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(storeName => {
+    const store = transaction.objectStore(storeName);
+    store.delete(ownerKeyRange(owner));
+    recordsByStore[storeName].forEach(record => store.put(record));
+  });
+  await transactionDone(transaction);
+};
+
+/**
+ * Bring one owner's exercises in line with a full library, writing only the records
+ * that were added, changed or moved and deleting the ones that are gone
+ */
+const syncExerciseRecords = async (owner: string, exercises: Exercise[]): Promise<void> => {
+  const db = await openDatabase();
+  const existing = await requestToPromise<StoredRecord[]>(
+    db.transaction(EXERCISE_STORE_NAME, 'readonly').objectStore(EXERCISE_STORE_NAME).index(OWNER_INDEX_NAME).getAll(owner)
+  );
+  const existingById = new Map<string, { position?: number; encrypted: boolean; json: string }>();
+  for (const record of existing) {
+    existingById.set(record.id, {
+      position: record.position,
+      encrypted: isEncryptedJson(record.value),
+      json: JSON.stringify(await decodeRecord<Exercise>(record)),
+    });
+  }
+
+  // Encrypt before the transaction opens, as in replaceRecords
+  const changed: StoredRecord[] = [];
+  for (const [position, exercise] of exercises.entries()) {
+    const current = existingById.get(exercise.id);
+    if (current?.position === position && current.encrypted === isUnlocked() && current.json === JSON.stringify(exercise)) continue;
+    changed.push(await encodeRecord(owner, exercise, position));
+  }
+  const keptIds = new Set(exercises.map(exercise => exercise.id));
+  const removedIds = existing.map(record => record.id).filter(id => !keptIds.has(id));
+  if (changed.length === 0 && removedIds.length === 0) return;
+
+  const transaction = db.transaction(EXERCISE_STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(EXERCISE_STORE_NAME);
+  removedIds.forEach(id => store.delete([owner, id]));
+  changed.forEach(record => store.put(record));
+  await transactionDone(transaction);
+};
+
+const importsInProgress = new Map<string, Promise<void>>();
+
+/**
+ * Move a user's localStorage blob into IndexedDB the first time their data is read
+ * This runs per user rather than during the database upgrade because an encrypted
+ * blob can only be read once that user has logged in.
+ */
+const importLegacyData = (email: string): Promise<void> => {
+  const json = localStorage.getItem(legacyUserDataKey(email));
+  if (!json) {
+    return Promise.resolve();
+  }
+  let pending = importsInProgress.get(email);
+  if (!pending) {
+    pending = (async () => {
+      const stored = JSON.parse(json);
+      const data = toUserDataStore(isEncryptedJson(stored) ? await decryptJson<Partial<UserDataStore>>(stored) : stored);
+      await replaceRecords(email, {
+        [EXERCISE_STORE_NAME]: data.exercises,
+        [PLAN_STORE_NAME]: data.savedPlans,
+        [WORKOUT_LOG_STORE_NAME]: data.workoutLogs,
+      });
+      localStorage.removeItem(legacyUserDataKey(email));
+      console.log(`Imported ${email}'s data from localStorage into IndexedDB`);
+    })().finally(() => importsInProgress.delete(email));
+    importsInProgress.set(email, pending);
+  }
+  return pending;
+};
+
+const getRecords = async <T>(storeName: string, owner: string): Promise<T[]> => {
+  await importLegacyData(owner);
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readonly');
+  const records = await requestToPromise<StoredRecord[]>(
+    transaction.objectStore(storeName).index(OWNER_INDEX_NAME).getAll(owner)
+  );
+  records.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  return Promise.all(records.map(record => decodeRecord<T>(record)));
+};
+
+const putRecord = async (storeName: string, owner: string, item: { id: string }): Promise<void> => {
+  await importLegacyData(owner);
+  const record = await encodeRecord(owner, item);
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).put(record);
+  await transactionDone(transaction);
+};
+
+const deleteRecord = async (storeName: string, owner: string, id: string): Promise<void> => {
+  await importLegacyData(owner);
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).delete([owner, id]);
+  await transactionDone(transaction);
+};
+
+/**
+ * Every exercise saved on this device, across all local accounts
+ * Videos and thumbnails are stored once per device rather than per account, so deciding
+ * whether a file is still needed means looking at everyone's exercises. Records encrypted
+ * under another account's key can't be read, which is reported rather than thrown.
+ * @param excludeOwner An account whose exercises to leave out
+ * @returns The exercises that could be read, and whether that was all of them
+ */
+export const readAllDeviceExercises = async (excludeOwner?: string): Promise<{ exercises: Exercise[]; isComplete: boolean }> => {
+  const exercises: Exercise[] = [];
+  let isComplete = true;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(EXERCISE_STORE_NAME, 'readonly');
+  const records = await requestToPromise<StoredRecord[]>(transaction.objectStore(EXERCISE_STORE_NAME).getAll());
+  for (const record of records) {
+    if (record.owner === excludeOwner) continue;
+    try {
+      exercises.push(await decodeRecord<Exercise>(record));
+    } catch {
+      isComplete = false;
+    }
+  }
+
+  // Accounts that haven't logged in since the move to IndexedDB
+  const legacyPrefix = legacyUserDataKey('');
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(legacyPrefix) || (excludeOwner !== undefined && key === legacyUserDataKey(excludeOwner))) continue;
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) || '{}');
+      const data = toUserDataStore(isEncryptedJson(stored) ? await decryptJson<Partial<UserDataStore>>(stored) : stored);
+      exercises.push(...data.exercises);
+    } catch {
+      isComplete = false;
+    }
+  }
+
+  return { exercises, isComplete };
+};
+
+export const localBackend: DataBackend = {
+  async signup(email, password) {
+    if (accountExists(email)) {
+      throw new Error('An account with this email already exists.');
+    }
+    validatePasswordStrength(password);
+    saveCredentials(email, { ...(await hashPassword(password)), failedAttempts: 0 });
+    return { email };
+  },
+
+  async login(email, password) {
+    if (!accountExists(email)) {
+      throw new Error('Incorrect email or password.');
+    }
+    const credentials = getCredentials(email);
+    if (!credentials) {
+      // Anyone could claim a password-less account here, so it stays locked until
+      // its owner sets a password from the session they're still logged in with
+      throw new Error('This account was created before passwords were required. Set a password in Settings while you are still logged in to it.');
+    }
+    await checkPassword(email, password, credentials);
+    return { email };
+  },
+
+  async logout() {
+    // Nothing to revoke; apiService clears the session.
+  },
+
+  async changePassword(session, currentPassword, newPassword) {
+    const credentials = getCredentials(session.email);
+    if (!credentials) throw new Error("No password is set for this account.");
+
+    await checkPassword(session.email, currentPassword, credentials);
+    validatePasswordStrength(newPassword);
+    saveCredentials(session.email, { ...(await hashPassword(newPassword)), failedAttempts: 0 });
+  },
+
+  async getUserData(session) {
+    const [exercises, savedPlans, workoutLogs] = await Promise.all([
+      getRecords<Exercise>(EXERCISE_STORE_NAME, session.email),
+      getRecords<SavedWorkoutPlanEntry>(PLAN_STORE_NAME, session.email),
+      getRecords<WorkoutLog>(WORKOUT_LOG_STORE_NAME, session.email),
+    ]);
+    return { exercises, savedPlans, workoutLogs };
+  },
+
+  async replaceUserData(session, data) {
+    await importLegacyData(session.email);
+    const normalized = toUserDataStore(data);
+    await replaceRecords(session.email, {
+      [EXERCISE_STORE_NAME]: normalized.exercises,
+      [PLAN_STORE_NAME]: normalized.savedPlans,
+      [WORKOUT_LOG_STORE_NAME]: normalized.workoutLogs,
+    });
+  },
+
+  getExercises: session => getRecords<Exercise>(EXERCISE_STORE_NAME, session.email),
+
+  async saveExercises(session, exercises) {
+    await importLegacyData(session.email);
+    await syncExerciseRecords(session.email, exercises);
+  },
+
+  deleteExercise: (session, exerciseId) => deleteRecord(EXERCISE_STORE_NAME, session.email, exerciseId),
+
+  getPlans: session => getRecords<SavedWorkoutPlanEntry>(PLAN_STORE_NAME, session.email),
+  savePlan: (session, entry) => putRecord(PLAN_STORE_NAME, session.email, entry),
+  deletePlan: (session, planId) => deleteRecord(PLAN_STORE_NAME, session.email, planId),
+
+  getWorkoutLogs: session => getRecords<WorkoutLog>(WORKOUT_LOG_STORE_NAME, session.email),
+  saveWorkoutLog: (session, log) => putRecord(WORKOUT_LOG_STORE_NAME, session.email, log),
+  deleteWorkoutLog: (session, logId) => deleteRecord(WORKOUT_LOG_STORE_NAME, session.email, logId),
+
+  async saveVideo(_session, key, file) {
+    await videoStorage.saveVideoWithKey(key, file);
+  },
+
+  async getVideo(_session, key) {
+    return videoStorage.getVideo(key);
+  },
+
+  async deleteVideo(_session, key) {
+    await videoStorage.deleteVideo(key);
+  },
+};
@@ -0,0 +1,118 @@
+/**
+ * HTTP backend
+ * Talks to a server implementing the API in server/referenceServer.js so data follows
+ * the account across devices. Videos are also cached on the device so playback
+ * doesn't need a download every time.
+ */
+
+import * as videoStorage from '../videoStorage';
+import { AuthSession, DataBackend } from './dataBackend';
+
+interface RequestOptions {
+  method?: string;
+  body?: unknown;
+  session?: AuthSession;
+}
+
+export const createRestBackend = (baseUrl: string): DataBackend => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const authHeaders = (session?: AuthSession): Record<string, string> =>
+    session?.token ? { Authorization: `Bearer ${session.token}` } : {};
+
+  const send = async (path: string, init: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, init);
+    } catch {
+      throw new Error(`Could not reach the server at ${root}. Check your connection and backend settings.`);
+    }
+    if (response.ok) {
+      return response;
+    }
+    if (response.status === 401) {
+      throw new Error('Your session has expired. Please log in again.');
+    }
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || `Server request failed (${response.status}).`);
+  };
+
+  const request = async <T>(path: string, { method = 'GET', body, session }: RequestOptions = {}): Promise<T> => {
+    const response = await send(path, {
+      method,
+      headers: {
+        ...authHeaders(session),
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  const videoPath = (key: string) => `/videos/${encodeURIComponent(key)}`;
+
+  return {
+    signup: (email, password) =>
+      request<AuthSession>('/auth/signup', { method: 'POST', body: { email, password } }),
+
+    login: (email, password) =>
+      request<AuthSession>('/auth/login', { method: 'POST', body: { email, password } }),
+
+    async logout(session) {
+      // The local session is cleared regardless, so an unreachable server is not an error here
+      await request<void>('/auth/logout', { method: 'POST', session }).catch(() => undefined);
+    },
+
+    changePassword: (session, currentPassword, newPassword) =>
+      request<void>('/auth/password', { method: 'POST', body: { currentPassword, newPassword }, session }),
+
+    getUserData: session => request('/data', { session }),
+    replaceUserData: (session, data) => request<void>('/data', { method: 'PUT', body: data, session }),
+
+    getExercises: session => request('/exercises', { session }),
+    saveExercises: (session, exercises) => request<void>('/exercises', { method: 'PUT', body: exercises, session }),
+    deleteExercise: (session, exerciseId) =>
+      request<void>(`/exercises/${encodeURIComponent(exerciseId)}`, { method: 'DELETE', session }),
+
+    getPlans: session => request('/plans', { session }),
+    savePlan: (session, entry) =>
+      request<void>(`/plans/${encodeURIComponent(entry.id)}`, { method: 'PUT', body: entry, session }),
+    deletePlan: (session, planId) =>
+      request<void>(`/plans/${encodeURIComponent(planId)}`, { method: 'DELETE', session }),
+
+    getWorkoutLogs: session => request('/logs', { session }),
+    saveWorkoutLog: (session, log) =>
+      request<void>(`/logs/${encodeURIComponent(log.id)}`, { method: 'PUT', body: log, session }),
+    deleteWorkoutLog: (session, logId) =>
+      request<void>(`/logs/${encodeURIComponent(logId)}`, { method: 'DELETE', session }),
+
+    async saveVideo(session, key, file) {
+      await videoStorage.saveVideoWithKey(key, file);
+      await send(videoPath(key), {
+        method: 'PUT',
+        headers: { ...authHeaders(session), 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+    },
+
+    async getVideo(session, key) {
+      const cached = await videoStorage.getVideo(key);
+      if (cached) {
+        return cached;
+      }
+      const response = await fetch(`${root}${videoPath(key)}`, { headers: authHeaders(session) }).catch(() => null);
+      if (!response?.ok) {
+        return null;
+      }
+      const blob = await response.blob();
+      const file = new File([blob], key, { type: blob.type });
+      await videoStorage.saveVideoWithKey(key, file);
+      return file;
+    },
+
+    async deleteVideo(session, key) {
+      await send(videoPath(key), { method: 'DELETE', headers: authHeaders(session) });
+      await videoStorage.deleteVideo(key);
+    },
+  };
+};
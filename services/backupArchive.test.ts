@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createBackupArchive, readBackupArchive } from './backupArchive';
+
+const data = { exercises: [], savedPlans: [], workoutLogs: [] };
+
+const archiveWithVideo = (key: string): Promise<Blob> =>
+  new Response(createBackupArchive(data, [
+    { kind: 'video', key, load: async () => new Blob(['video'], { type: 'video/mp4' }) },
+  ])).blob();
+
+describe('readBackupArchive', () => {
+  it('restores the videos listed in the manifest', async () => {
+    const backup = await readBackupArchive(await archiveWithVideo('video-123-squat.mp4'));
+    expect(backup.media.map(media => media.key)).toEqual(['video-123-squat.mp4']);
+  });
+
+  it.each(['../../escape', 'nested/video', '..'])('rejects the storage key %s', async key => {
+    await expect(readBackupArchive(await archiveWithVideo(key))).rejects.toThrow('invalid storage key');
+  });
+
+  it('reports an archive cut short before its directory as not a valid backup', async () => {
+    const archive = await archiveWithVideo('video-1');
+    await expect(readBackupArchive(archive.slice(archive.size - 22))).rejects.toThrow('not a valid backup archive');
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Backup archive format
+ *
+ * A backup is a ZIP archive holding:
+ *   data.json              exercises, saved plans and workout logs
+ *   videos/<key>           raw video files
+ *   thumbnails/<key>       raw thumbnail images
+ *   manifest.json          written last; lists every file above with its size and SHA-256
+ *
+ * Archives are produced and consumed as streams so even very large video libraries
+ * never have to fit in memory at once.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { BackupManifest, BackupManifestFile, BackupProgress } from '../types';
+import { UserDataStore } from './backends/dataBackend';
+import { createSha256, Sha256 } from './sha256';
+import { createZipStream, readZipEntries, getZipEntryData, updateCrc32, ZipInputFile } from './zipArchive';
+
+const BACKUP_FORMAT = 'ai-workout-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const DATA_PATH = 'data.json';
+
+export type BackupMediaKind = 'video' | 'thumbnail';
+
+export interface BackupMediaSource {
+  kind: BackupMediaKind;
+  key: string;
+  load: () => Promise<Blob | null>;
+}
+
+export interface BackupMedia {
+  kind: BackupMediaKind;
+  key: string;
+  mimeType: string;
+  data: Blob; // A lazy slice of the archive
+}
+
+export interface VerifiedBackup {
+  manifest: BackupManifest;
+  data: UserDataStore;
+  media: BackupMedia[];
+}
+
+// Keys become file names on native, so anything that could leave the media folders is refused
+// (the same rule the reference server applies to video keys)
+const isSafeMediaKey = (key: unknown): boolean =>
+  typeof key === 'string' && /^[\w.-]+$/.test(key) && !key.includes('..');
+
+const mediaPath = (kind: BackupMediaKind, key: string) => `${kind === 'video' ? 'videos' : 'thumbnails'}/${key}`;
+
+export const getBackupFileName = (date: Date = new Date()): string =>
+  `ai-workout-backup-${date.toISOString().split('T')[0]}.zip`;
+
+/**
+ * Stream a backup archive
+ * Media is loaded one file at a time, only when the archive reaches it.
+ * @param data The user's exercises, plans and logs
+ * @param media Videos and thumbnails to include; sources that load as null are left out
+ */
+export const createBackupArchive = (
+  data: UserDataStore,
+  media: BackupMediaSource[],
+  onProgress?: (progress: BackupProgress) => void
+): ReadableStream<Uint8Array> => {
+  const manifestFiles: BackupManifestFile[] = [];
+  const totalFiles = media.length + 1;
+  let completedFiles = 0;
+  let processedBytes = 0;
+  let currentHash: Sha256 = createSha256();
+
+  const report = (currentFile?: string) =>
+    onProgress?.({ stage: 'exporting', completedFiles, totalFiles, processedBytes, currentFile });
+
+  // The zip writer only asks for the next file once the previous one is fully written,
+  // so by the time this generator resumes after a yield, that file's hash is complete.
+  async function* addFile(file: Omit<BackupManifestFile, 'size' | 'sha256'>, blob: Blob): AsyncGenerator<ZipInputFile> {
+    currentHash = createSha256();
+    yield { name: file.path, data: blob };
+    manifestFiles.push({ ...file, size: blob.size, sha256: currentHash.digestHex() });
+    completedFiles++;
+    report();
+  }
+
+  async function* files(): AsyncGenerator<ZipInputFile> {
+    const dataBlob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+    yield* addFile({ path: DATA_PATH, kind: 'data', mimeType: 'application/json' }, dataBlob);
+
+    for (const source of media) {
+      const blob = await source.load();
+      if (!blob) {
+        console.warn(`Skipping missing ${source.kind} ${source.key} in backup`);
+        completedFiles++;
+        continue;
+      }
+      yield* addFile(
+        { path: mediaPath(source.kind, source.key), kind: source.kind, key: source.key, mimeType: blob.type },
+        blob
+      );
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      counts: {
+        exercises: data.exercises.length,
+        plans: data.savedPlans.length,
+        logs: data.workoutLogs.length,
+        videos: manifestFiles.filter(file => file.kind === 'video').length,
+        thumbnails: manifestFiles.filter(file => file.kind === 'thumbnail').length,
+      },
+      files: manifestFiles,
+    };
+    yield { name: MANIFEST_PATH, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) };
+  }
+
+  report();
+  return createZipStream(files(), (file, chunk) => {
+    currentHash.update(chunk);
+    processedBytes += chunk.length;
+    report(file.name);
+  });
+};
+
+/**
+ * Open a backup archive and verify it completely
+ * Checks the manifest, that every listed file is present, and each file's size,
+ * CRC and SHA-256. Throws before the caller has changed anything if any check fails.
+ */
+export const readBackupArchive = async (
+  archive: Blob,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<VerifiedBackup> => {
+  const entries = new Map((await readZipEntries(archive)).map(entry => [entry.name, entry]));
+
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new Error('This archive has no manifest.json, so it was not created by this app.');
+  }
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(await getZipEntryData(archive, manifestEntry).text());
+  } catch {
+    throw new Error('The backup manifest is unreadable.');
+  }
+  if (manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.files)) {
+    throw new Error('This archive is not a backup created by this app.');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app to restore it.');
+  }
+  const unsafeFile = manifest.files.find(file => file.kind !== 'data' && file.key !== undefined && !isSafeMediaKey(file.key));
+  if (unsafeFile) {
+    throw new Error(`The backup is corrupted: ${unsafeFile.path} has an invalid storage key.`);
+  }
+
+  const totalFiles = manifest.files.length;
+  let completedFiles = 0;
+  let processedBytes = 0;
+  const report = (currentFile?: string) =>
+    onProgress?.({ stage: 'verifying', completedFiles, totalFiles, processedBytes, currentFile });
+
+  for (const file of manifest.files) {
+    const entry = entries.get(file.path);
+    if (!entry) {
+      throw new Error(`The backup is incomplete: ${file.path} is missing.`);
+    }
+    if (entry.size !== file.size) {
+      throw new Error(`The backup is corrupted: ${file.path} has the wrong size.`);
+    }
+
+    const hash = createSha256();
+    let crc32 = 0;
+    const reader = getZipEntryData(archive, entry).stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+      crc32 = updateCrc32(crc32, value);
+      processedBytes += value.length;
+      report(file.path);
+    }
+    if (crc32 !== entry.crc32 || hash.digestHex() !== file.sha256) {
+      throw new Error(`The backup is corrupted: ${file.path} failed its checksum.`);
+    }
+    completedFiles++;
+    report();
+  }
+
+  const dataFile = manifest.files.find(file => file.kind === 'data');
+  const data = dataFile && JSON.parse(await getZipEntryData(archive, entries.get(dataFile.path)!).text());
+  if (!data || !Array.isArray(data.exercises) || !Array.isArray(data.savedPlans)) {
+    throw new Error('Invalid backup file format. The file does not contain the expected data.');
+  }
+
+  const media: BackupMedia[] = manifest.files
+    .filter(file => file.kind !== 'data' && file.key)
+    .map(file => ({
+      kind: file.kind as BackupMediaKind,
+      key: file.key!,
+      mimeType: file.mimeType || '',
+      data: getZipEntryData(archive, entries.get(file.path)!, file.mimeType),
+    }));
+
+  return {
+    manifest,
+    data: { exercises: data.exercises, savedPlans: data.savedPlans, workoutLogs: data.workoutLogs || [] },
+    media,
+  };
+};
+
+const chunkToBase64 = (chunk: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < chunk.length; i += 0x8000) {
+    binary += String.fromCharCode(...chunk.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Write a stream to a native file chunk by chunk, so it never has to fit in memory
+ * @returns The number of bytes written
+ */
+export const writeStreamToNativeFile = async (
+  stream: ReadableStream<Uint8Array>,
+  path: string,
+  directory: Directory
+): Promise<number> => {
+  await Filesystem.writeFile({ path, data: '', directory, recursive: true });
+  let size = 0;
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    await Filesystem.appendFile({ path, data: chunkToBase64(value), directory });
+    size += value.length;
+  }
+  return size;
+};
+
+/**
+ * Save a backup stream somewhere the user can get at it
+ * On native it is appended chunk by chunk to the app's Documents folder; on web it is downloaded.
+ * @returns The file's size and a description of where it went
+ */
+export const saveBackupStream = async (
+  stream: ReadableStream<Uint8Array>,
+  fileName: string = getBackupFileName()
+): Promise<{ size: number; location: string }> => {
+  if (Capacitor.isNativePlatform()) {
+    const size = await writeStreamToNativeFile(stream, fileName, Directory.Documents);
+    return { size, location: `Documents/${fileName}` };
+  }
+
+  // Browsers keep large Blobs on disk, so this doesn't hold the archive in memory
+  const blob = await new Response(stream).blob();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return { size: blob.size, location: 'your Downloads folder' };
+};
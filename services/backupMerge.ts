@@ -0,0 +1,132 @@
+/**
+ * Merge a backup into the data already on this device
+ * Used by merge-mode restore so moving data between devices doesn't wipe either side.
+ */
+
+import { Exercise, SavedWorkoutPlanEntry, WorkoutLog } from '../types';
+import { UserDataStore } from './backends/dataBackend';
+import { mapPlanDays } from './program';
+
+// Exercises cut from the same video count as duplicates if their clips start and end within this many seconds
+const TIME_RANGE_TOLERANCE_SECONDS = 1;
+
+export type MergeStatus = 'added' | 'changed' | 'skipped';
+
+export interface MergeChange {
+  kind: 'exercise' | 'plan' | 'log';
+  status: MergeStatus;
+  name: string;
+  reason: string;
+}
+
+export interface MergePreview {
+  changes: MergeChange[];
+  merged: UserDataStore;
+  // Video and thumbnail keys from the backup that the merged data needs
+  mediaKeys: string[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const isSameTime = (a?: number, b?: number) =>
+  a === undefined || b === undefined ? a === b : Math.abs(a - b) <= TIME_RANGE_TOLERANCE_SECONDS;
+
+/**
+ * Two exercises are the same clip if they come from the same video (by content hash when
+ * both have one, otherwise by storage key), have the same name and cover the same time range
+ */
+const isSameExercise = (a: Exercise, b: Exercise): boolean => {
+  const sameVideo = a.videoHash && b.videoHash
+    ? a.videoHash === b.videoHash
+    : !!a.videoStorageKey && a.videoStorageKey === b.videoStorageKey;
+  return sameVideo
+    && normalizeName(a.name) === normalizeName(b.name)
+    && isSameTime(a.startTime, b.startTime)
+    && isSameTime(a.endTime, b.endTime);
+};
+
+const isSameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const remapExerciseId = (idMap: Map<string, string>, id: string) => idMap.get(id) ?? id;
+
+/**
+ * Work out what a merge restore would do, without changing anything
+ * - Exercises already in the library (same id, or same clip) are skipped, and the backup's
+ *   plans and logs are pointed at the existing copy instead
+ * - Plans that exist on both sides with different content are kept twice; the backup's copy is renamed
+ * - Logs are added unless one with the same id already exists
+ * @param current The data on this device
+ * @param incoming The data from the backup
+ */
+export const previewMerge = (current: UserDataStore, incoming: UserDataStore): MergePreview => {
+  const changes: MergeChange[] = [];
+  const idMap = new Map<string, string>();
+  const mediaKeys = new Set<string>();
+
+  const exercises = current.exercises.slice();
+  for (const exercise of incoming.exercises) {
+    const match = current.exercises.find(existing => existing.id === exercise.id || isSameExercise(existing, exercise));
+    if (match) {
+      idMap.set(exercise.id, match.id);
+      changes.push({
+        kind: 'exercise',
+        status: 'skipped',
+        name: exercise.name,
+        reason: match.id === exercise.id ? 'Already in your library' : `Duplicate of "${match.name}"`,
+      });
+      continue;
+    }
+    exercises.push(exercise);
+    if (exercise.videoStorageKey) mediaKeys.add(exercise.videoStorageKey);
+    if (exercise.thumbnailStorageKey) mediaKeys.add(exercise.thumbnailStorageKey);
+    exercise.alternateAngles?.forEach(angle => mediaKeys.add(angle.videoStorageKey));
+    changes.push({ kind: 'exercise', status: 'added', name: exercise.name, reason: 'New exercise' });
+  }
+
+  // Only one plan can be on the calendar, and this device's active plan wins
+  const hasActivePlan = current.savedPlans.some(entry => !!entry.schedule);
+  const savedPlans = current.savedPlans.slice();
+  for (const entry of incoming.savedPlans) {
+    const remapped: SavedWorkoutPlanEntry = {
+      ...entry,
+      plan: mapPlanDays(entry.plan, day => ({
+        ...day,
+        exercises: day.exercises.map(ex => ({ ...ex, originalExerciseId: remapExerciseId(idMap, ex.originalExerciseId) })),
+      })),
+      schedule: hasActivePlan ? undefined : entry.schedule,
+    };
+    const existing = current.savedPlans.find(plan => plan.id === entry.id);
+
+    if (!existing) {
+      savedPlans.push(remapped);
+      changes.push({ kind: 'plan', status: 'added', name: entry.name, reason: 'New plan' });
+    } else if (isSameJson(existing.plan, remapped.plan) && existing.name === entry.name) {
+      changes.push({ kind: 'plan', status: 'skipped', name: entry.name, reason: 'Identical plan already saved' });
+    } else {
+      const copyName = `${entry.name} (restored)`;
+      savedPlans.push({ ...remapped, id: `${entry.id}-restored-${Date.now()}`, name: copyName, schedule: undefined });
+      changes.push({ kind: 'plan', status: 'changed', name: entry.name, reason: `Differs from this device's version; both kept, backup saved as "${copyName}"` });
+    }
+  }
+
+  const workoutLogs = current.workoutLogs.slice();
+  for (const log of incoming.workoutLogs) {
+    const label = `${log.day} - ${new Date(log.finishedAt).toLocaleDateString()}`;
+    if (current.workoutLogs.some(existing => existing.id === log.id)) {
+      changes.push({ kind: 'log', status: 'skipped', name: label, reason: 'Already in your history' });
+      continue;
+    }
+    const remapped: WorkoutLog = {
+      ...log,
+      exercises: log.exercises.map(ex => ({ ...ex, originalExerciseId: remapExerciseId(idMap, ex.originalExerciseId) })),
+    };
+    workoutLogs.push(remapped);
+    changes.push({ kind: 'log', status: 'added', name: label, reason: 'New workout' });
+  }
+
+  return {
+    changes,
+    merged: { exercises, savedPlans, workoutLogs },
+    mediaKeys: Array.from(mediaKeys),
+  };
+};
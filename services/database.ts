@@ -0,0 +1,132 @@
+/**
+ * Shared IndexedDB database for videos, thumbnails, user records and app caches
+ *
+ * Schema changes are versioned migrations: bump DB_VERSION and add a step to
+ * MIGRATIONS. When the database opens, every step newer than the version on the
+ * device runs in order inside the upgrade transaction.
+ */
+
+const DB_NAME = 'AIWorkoutVideoDB';
+
+export const VIDEO_STORE_NAME = 'videos';
+export const THUMBNAIL_STORE_NAME = 'thumbnails';
+export const EXERCISE_STORE_NAME = 'exercises';
+export const PLAN_STORE_NAME = 'savedPlans';
+export const WORKOUT_LOG_STORE_NAME = 'workoutLogs';
+export const BACKUP_STORE_NAME = 'backups';
+export const UPLOAD_QUEUE_STORE_NAME = 'uploadQueue';
+export const UPLOAD_QUEUE_FILE_STORE_NAME = 'uploadQueueFiles';
+export const AI_CACHE_STORE_NAME = 'aiCache';
+
+// User records are keyed by [owner, id] so several accounts can share a device
+export const USER_RECORD_STORE_NAMES = [EXERCISE_STORE_NAME, PLAN_STORE_NAME, WORKOUT_LOG_STORE_NAME];
+export const OWNER_INDEX_NAME = 'by_owner';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Index N upgrades the database from version N to N + 1
+const MIGRATIONS: Migration[] = [
+  // v1: video files
+  db => {
+    if (!db.objectStoreNames.contains(VIDEO_STORE_NAME)) {
+      db.createObjectStore(VIDEO_STORE_NAME);
+    }
+  },
+  // v2: thumbnails for the exercise gallery
+  db => {
+    if (!db.objectStoreNames.contains(THUMBNAIL_STORE_NAME)) {
+      db.createObjectStore(THUMBNAIL_STORE_NAME);
+    }
+  },
+  // v3: exercises, plans and workout logs move out of localStorage
+  db => {
+    USER_RECORD_STORE_NAMES.forEach(name => {
+      const store = db.createObjectStore(name, { keyPath: ['owner', 'id'] });
+      store.createIndex(OWNER_INDEX_NAME, 'owner');
+    });
+  },
+  // v4: automatic backup snapshots (web only; native keeps them on the filesystem)
+  db => {
+    const store = db.createObjectStore(BACKUP_STORE_NAME, { keyPath: 'id' });
+    store.createIndex(OWNER_INDEX_NAME, 'owner');
+  },
+  // v5: videos waiting to be analyzed, so the upload queue survives reloads.
+  // The files live in their own store so status updates don't rewrite them.
+  db => {
+    const store = db.createObjectStore(UPLOAD_QUEUE_STORE_NAME, { keyPath: 'id' });
+    store.createIndex(OWNER_INDEX_NAME, 'owner');
+    db.createObjectStore(UPLOAD_QUEUE_FILE_STORE_NAME);
+  },
+  // v6: cached AI responses move out of localStorage
+  db => {
+    db.createObjectStore(AI_CACHE_STORE_NAME, { keyPath: 'key' });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      console.error('IndexedDB error:', request.error);
+      dbPromise = null;
+      reject(new Error('Could not open the on-device database.'));
+    };
+
+    request.onblocked = () => {
+      console.warn('Database upgrade is waiting for other open tabs of the app to close.');
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onclose = () => {
+        console.warn('IndexedDB connection closed.');
+        dbPromise = null;
+      };
+      // Another tab wants to upgrade; let it, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        console.log(`Migrating database to v${version + 1}`);
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+  });
+  return dbPromise;
+};
+
+/**
+ * Resolve with a request's result once it succeeds
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolve once a transaction has committed
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+};
@@ -0,0 +1,197 @@
+/**
+ * Optional at-rest encryption for data stored on the device
+ *
+ * Each user gets a random AES-GCM data key. It is wrapped with a key derived from
+ * their password (PBKDF2) and stored in localStorage, so changing the password only
+ * re-wraps the data key instead of re-encrypting everything. The unwrapped key lives
+ * in memory only, between login and logout.
+ */
+
+import { bytesToBase64, base64ToBytes } from './passwordHash';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const BLOB_MAGIC = 'AWE1'; // Marks an encrypted blob: magic | iv | type length (uint16) | type | ciphertext
+
+// Stored separately from UserDataStore so the wrapped key never ends up in backups.
+interface StoredEncryptionKey {
+  salt: string; // base64
+  iterations: number;
+  iv: string; // base64, used to wrap the data key
+  wrappedKey: string; // base64
+}
+
+export interface EncryptedJson {
+  encrypted: 'AES-GCM';
+  iv: string; // base64
+  data: string; // base64
+}
+
+let activeKey: CryptoKey | null = null;
+
+const keyRecordKey = (email: string) => `encryption_${email}`;
+
+const getKeyRecord = (email: string): StoredEncryptionKey | null => {
+  const json = localStorage.getItem(keyRecordKey(email));
+  return json ? JSON.parse(json) : null;
+};
+
+const deriveWrappingKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const storeWrappedKey = async (email: string, password: string, dataKey: CryptoKey): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrappingKey = await deriveWrappingKey(password, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  const record: StoredEncryptionKey = {
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    iv: bytesToBase64(iv),
+    wrappedKey: bytesToBase64(new Uint8Array(wrapped)),
+  };
+  localStorage.setItem(keyRecordKey(email), JSON.stringify(record));
+};
+
+const requireKey = (): CryptoKey => {
+  if (!activeKey) {
+    throw new Error('Your data is encrypted. Log in again to unlock it.');
+  }
+  return activeKey;
+};
+
+// --- Key Management ---
+
+export const isEncryptionEnabled = (email: string): boolean => getKeyRecord(email) !== null;
+
+export const isUnlocked = (): boolean => activeKey !== null;
+
+/**
+ * Create a data key for the user and make it the active key
+ */
+export const enableEncryption = async (email: string, password: string): Promise<void> => {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  await storeWrappedKey(email, password, dataKey);
+  activeKey = dataKey;
+};
+
+/**
+ * Unwrap the user's data key with their password and keep it in memory
+ * Does nothing if the user hasn't enabled encryption.
+ */
+export const unlock = async (email: string, password: string): Promise<void> => {
+  const record = getKeyRecord(email);
+  if (!record) {
+    return;
+  }
+  const wrappingKey = await deriveWrappingKey(password, base64ToBytes(record.salt), record.iterations);
+  try {
+    activeKey = await crypto.subtle.unwrapKey(
+      'raw',
+      base64ToBytes(record.wrappedKey),
+      wrappingKey,
+      { name: 'AES-GCM', iv: base64ToBytes(record.iv) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new Error('Could not unlock the data on this device with that password.');
+  }
+};
+
+/**
+ * Re-wrap the active data key after a password change
+ */
+export const rewrapKey = async (email: string, newPassword: string): Promise<void> => {
+  if (!activeKey || !isEncryptionEnabled(email)) {
+    return;
+  }
+  await storeWrappedKey(email, newPassword, activeKey);
+};
+
+/**
+ * Forget the user's data key. Anything still encrypted with it becomes unreadable,
+ * so callers must decrypt their data first.
+ */
+export const disableEncryption = (email: string): void => {
+  localStorage.removeItem(keyRecordKey(email));
+  activeKey = null;
+};
+
+export const lock = (): void => {
+  activeKey = null;
+};
+
+// --- JSON ---
+
+export const isEncryptedJson = (value: unknown): value is EncryptedJson =>
+  typeof value === 'object' && value !== null && (value as EncryptedJson).encrypted === 'AES-GCM';
+
+export const encryptJson = async (value: unknown): Promise<EncryptedJson> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    requireKey(),
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { encrypted: 'AES-GCM', iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(ciphertext)) };
+};
+
+export const decryptJson = async <T>(envelope: EncryptedJson): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) },
+    requireKey(),
+    base64ToBytes(envelope.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// --- Blobs (videos and thumbnails) ---
+
+export const isEncryptedBlob = async (blob: Blob): Promise<boolean> => {
+  const header = new Uint8Array(await blob.slice(0, BLOB_MAGIC.length).arrayBuffer());
+  return new TextDecoder().decode(header) === BLOB_MAGIC;
+};
+
+/**
+ * Encrypt a blob, keeping its mime type in the header so it can be restored on decrypt
+ */
+export const encryptBlob = async (blob: Blob): Promise<Blob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, requireKey(), await blob.arrayBuffer());
+  const type = new TextEncoder().encode(blob.type);
+  const typeLength = new Uint8Array(2);
+  new DataView(typeLength.buffer).setUint16(0, type.length);
+  return new Blob([new TextEncoder().encode(BLOB_MAGIC), iv, typeLength, type, ciphertext], {
+    type: 'application/octet-stream',
+  });
+};
+
+export const decryptBlob = async (blob: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let offset = BLOB_MAGIC.length;
+  const iv = bytes.subarray(offset, offset + IV_BYTES);
+  offset += IV_BYTES;
+  const typeLength = new DataView(bytes.buffer, bytes.byteOffset + offset, 2).getUint16(0);
+  offset += 2;
+  const type = new TextDecoder().decode(bytes.subarray(offset, offset + typeLength));
+  offset += typeLength;
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, requireKey(), bytes.subarray(offset));
+  return new Blob([plaintext], { type });
+};
@@ -1,45 +1,76 @@
 
-import { GoogleGenAI, GenerateContentResponse, Type, Chat } from "@google/genai";
+import { Type } from "@google/genai";
 import { Exercise, WorkoutPlan } from '../types';
 import * as aiCache from './aiCache';
+import { getSyncServerSession } from './apiService';
+import { AIProvider, AIProviderConfig, AIProviderType, PlanRequest } from './aiProviders/aiProvider';
+import { createGeminiProvider } from './aiProviders/geminiProvider';
+import { createMockProvider } from './aiProviders/mockProvider';
+import { createOpenAICompatibleProvider } from './aiProviders/openAICompatibleProvider';
+import { createProxyProvider } from './aiProviders/proxyProvider';
+import { validateWorkoutPlan } from './planValidation';
 
+export type { AIProviderConfig, AIProviderType } from './aiProviders/aiProvider';
+
+// Only set in development builds; released apps use the proxy
 const API_KEY = process.env.API_KEY;
+const AI_PROVIDER_CONFIG_KEY = 'ai_workout_aiProvider';
 
-let genAIInstance: GoogleGenAI | null = null;
+// --- Provider Selection ---
 
-function getGenAIInstance(): GoogleGenAI {
-    if (!genAIInstance) {
-        if (!API_KEY) {
-            console.error("API_KEY for Gemini is not set in environment variables. Gemini services will fail.");
-            throw new Error("API_KEY for Gemini is not configured. Cannot initialize AI service.");
-        }
-        genAIInstance = new GoogleGenAI({ apiKey: API_KEY });
-    }
-    return genAIInstance;
-}
+const DEFAULT_AI_PROVIDER_CONFIG: AIProviderConfig = { type: API_KEY ? 'gemini' : 'proxy' };
+const AI_PROVIDER_TYPES: AIProviderType[] = ['gemini', 'proxy', 'openai', 'mock'];
 
-const fileToGenerativePart = async (file: File) => {
-  const base64EncodedDataPromise = new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result.split(',')[1]); 
-      } else {
-        reject(new Error("Failed to read file as data URL."));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
+export const getAIProviderConfig = (): AIProviderConfig => {
   try {
-    const base64Data = await base64EncodedDataPromise;
-    return {
-      inlineData: { data: base64Data, mimeType: file.type },
-    };
-  } catch (error) {
-    console.error("Error converting file to base64:", error);
-    throw new Error("Could not process file for analysis.");
+    const stored = JSON.parse(localStorage.getItem(AI_PROVIDER_CONFIG_KEY) || 'null');
+    return AI_PROVIDER_TYPES.includes(stored?.type) ? stored : DEFAULT_AI_PROVIDER_CONFIG;
+  } catch {
+    return DEFAULT_AI_PROVIDER_CONFIG;
+  }
+};
+
+/**
+ * Choose which provider answers AI requests from now on
+ */
+export const setAIProviderConfig = (config: AIProviderConfig): void => {
+  if (config.type === 'openai' && (!config.baseUrl?.trim() || !config.model?.trim())) {
+    throw new Error('Enter the server URL and model to use an OpenAI-compatible server.');
+  }
+  localStorage.setItem(AI_PROVIDER_CONFIG_KEY, JSON.stringify(config));
+};
+
+// Kept while the config is unchanged, so the demo provider's request count carries over
+let currentProvider: { configJson: string; provider: AIProvider } | null = null;
+
+const getProvider = (): AIProvider => {
+  const config = getAIProviderConfig();
+  const configJson = JSON.stringify(config);
+  if (currentProvider?.configJson !== configJson) {
+    const provider = config.type === 'mock'
+      ? createMockProvider({ failEvery: config.mockFailEvery })
+      : config.type === 'openai' && config.baseUrl && config.model
+        ? createOpenAICompatibleProvider({ baseUrl: config.baseUrl, model: config.model, apiKey: config.apiKey })
+        : config.type === 'proxy'
+          ? createProxyProvider(getSyncServerSession)
+          : createGeminiProvider(API_KEY);
+    currentProvider = { configJson, provider };
+  }
+  return currentProvider.provider;
+};
+
+/**
+ * Label cached responses with the provider that produced them, so switching providers
+ * never serves another provider's answers. Gemini keeps the bare model names its
+ * existing cache entries use, and the proxy shares them since it runs the same models.
+ */
+const cacheModelLabel = (model: string): string => {
+  const config = getAIProviderConfig();
+  if (config.type === 'openai') {
+    // The server decides what the model is, so the pro/flash choice doesn't apply
+    return `openai-${config.baseUrl}-${config.model}`;
   }
+  return config.type === 'gemini' || config.type === 'proxy' ? model : `${config.type}-${model}`;
 };
 
 interface ExtractedExerciseData {
@@ -71,7 +102,7 @@ async function retryWithBackoff<T>(
       // Don't retry on certain errors (client errors)
       if (error instanceof Error) {
         const errorMsg = error.message.toLowerCase();
-        if (errorMsg.includes('400') || errorMsg.includes('invalid file') || errorMsg.includes('malformed')) {
+        if (errorMsg.includes('400') || errorMsg.includes('invalid file') || errorMsg.includes('malformed') || errorMsg.includes('not supported') || errorMsg.includes('limit reached')) {
           throw error; // Don't retry client errors
         }
       }
@@ -90,29 +121,25 @@ async function retryWithBackoff<T>(
 export const analyzeVideoAndExtractExercises = async (
   videoFile: File,
   useProModel: boolean,
-  videoHash?: string
+  videoHash?: string,
+  ignoreCache: boolean = false // Analyze again even if cached; the new result replaces the cached one
 ): Promise<ExtractedExerciseData[]> => {
   // Check cache first if videoHash is provided
-  if (videoHash) {
-    const modelUsed = useProModel ? 'pro' : 'flash';
-    const cached = aiCache.getCachedAnalysis(videoHash, modelUsed);
+  const modelUsed = cacheModelLabel(useProModel ? 'pro' : 'flash');
+  if (videoHash && !ignoreCache) {
+    const cached = await aiCache.getCachedAnalysis(videoHash, modelUsed);
     if (cached) {
       console.log('Using cached analysis result');
       return cached as ExtractedExerciseData[];
     }
   }
 
-  const ai = getGenAIInstance();
-
   if (!videoFile.type.startsWith('video/')) {
     throw new Error("Invalid file type. Please upload a video file.");
   }
 
-  const videoPart = await fileToGenerativePart(videoFile);
-  
-  const textPart = {
-    text: useProModel
-      ? `
+  const prompt = useProModel
+    ? `
 Analyze the provided video in detail to identify all distinct physical exercises being performed.
 For each exercise you find, determine:
 1. Its specific name
@@ -123,7 +150,7 @@ For each exercise you find, determine:
 6. Start time and end time in seconds
 The output must be structured according to the JSON schema provided.
 If no exercises are identifiable, return an empty array.`
-      : `
+    : `
 Analyze the provided video to identify all distinct physical exercises being performed.
 For each exercise you find, determine:
 1. Its specific name
@@ -133,8 +160,7 @@ For each exercise you find, determine:
 5. Difficulty level
 6. Start time and end time in seconds
 The output must be structured according to the JSON schema provided.
-If no exercises are identifiable, return an empty array.`
-  };
+If no exercises are identifiable, return an empty array.`;
   
   const exerciseSchema = {
     type: Type.ARRAY,
@@ -182,22 +208,15 @@ If no exercises are identifiable, return an empty array.`
 
 
   // Wrap the API call in retry logic
-  const performAnalysis = async () => {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: useProModel ? 'gemini-2.5-pro' : 'gemini-2.5-flash',
-      contents: { parts: [textPart, videoPart] },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: exerciseSchema
-      }
-    });
-    return response;
-  };
+  const performAnalysis = () => getProvider().analyzeVideo({
+    video: videoFile,
+    prompt,
+    schema: exerciseSchema,
+    useProModel,
+  });
 
   try {
-    const response = await retryWithBackoff(performAnalysis, 3, 2000);
-
-    const text = response.text.trim();
+    const text = (await retryWithBackoff(performAnalysis, 3, 2000)).trim();
     
     const cleanedJsonString = text.replace(/^```json\s*|```$/g, '').trim();
 
@@ -237,8 +256,7 @@ If no exercises are identifiable, return an empty array.`
 
         // Cache the result if videoHash is provided
         if (videoHash) {
-          const modelUsed = useProModel ? 'pro' : 'flash';
-          aiCache.cacheAnalysis(videoHash, result, modelUsed);
+          await aiCache.cacheAnalysis(videoHash, result, modelUsed);
         }
 
         return result;
@@ -260,18 +278,139 @@ If no exercises are identifiable, return an empty array.`
 };
 
 
+/**
+ * Whether a plan response is complete and follows everything the request asked for
+ * Plans that don't are never cached, so asking again gets a fresh answer.
+ */
+const isValidPlanResponse = (text: string, request: PlanRequest): boolean => {
+  let plan: WorkoutPlan;
+  try {
+    plan = JSON.parse(text);
+  } catch {
+    return false;
+  }
+  const { unresolved } = validateWorkoutPlan(plan, request.exercises, { trainingDays: request.trainingDays, totalWeeks: request.totalWeeks });
+  return unresolved.length === 0;
+};
+
+/**
+ * Stream a JSON plan response, or replay a cached one for an identical request
+ * Only responses that pass plan validation are cached.
+ * @param ignoreCache Generate again even if this exact request was made before
+ */
+async function* streamStructuredResponse(request: PlanRequest, ignoreCache: boolean = false): AsyncGenerator<string> {
+  const modelUsed = cacheModelLabel(request.useProModel ? 'pro' : 'flash');
+  const cacheKey = aiCache.createCacheKey('plan', modelUsed, request.schema, request.prompt);
+  if (!ignoreCache) {
+    const cached = await aiCache.getCached<string>(cacheKey);
+    // Entries cached before plans were validated may not pass
+    if (cached && isValidPlanResponse(cached, request)) {
+      console.log('Using cached plan for an identical request');
+      yield cached;
+      return;
+    }
+  }
+
+  let fullResponse = '';
+  for await (const chunk of getProvider().streamPlan(request)) {
+    fullResponse += chunk;
+    yield chunk;
+  }
+
+  if (isValidPlanResponse(fullResponse, request)) {
+    await aiCache.setCached('plan', cacheKey, fullResponse, modelUsed);
+  }
+}
+
+const workoutDaySchema = {
+  type: Type.OBJECT,
+  properties: {
+    day: { type: Type.STRING, description: "The day of the week (e.g., 'Monday')." },
+    focus: { type: Type.STRING, description: "The main focus for the day, e.g., 'Upper Body Strength', 'Leg Day', 'Full Body', or 'Rest'." },
+    exercises: {
+      type: Type.ARRAY,
+      description: "A list of exercises planned for the day. Should be an empty array for rest days.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          originalExerciseId: { type: Type.STRING, description: "The unique ID of the exercise from the provided available exercises list." },
+          name: { type: Type.STRING, description: "The name of the exercise, matching the name from the available list." },
+          sets: { type: Type.STRING, description: "The number of sets to perform, e.g., '3-4'." },
+          reps: { type: Type.STRING, description: "The number of repetitions per set, e.g., '8-12'." },
+          rest: { type: Type.STRING, description: "The rest period between sets, e.g., '60-90 seconds'." },
+        },
+        required: ["originalExerciseId", "name", "sets", "reps", "rest"],
+      }
+    },
+    notes: { type: Type.STRING, description: "Any additional notes for the day, such as 'Focus on form' or 'Go heavy today'." },
+  },
+  required: ["day", "focus", "exercises"],
+};
+
+const weeklyPlanSchema = {
+  type: Type.ARRAY,
+  description: "An array of 7 workout days, one for each day of the week (e.g., 'Monday', 'Tuesday', ... 'Sunday').",
+  items: workoutDaySchema,
+};
+
+const planOverviewProperties = (trainingDays: number) => ({
+  title: { type: Type.STRING, description: "A catchy, motivating title for the workout plan that reflects the user's goal." },
+  description: { type: Type.STRING, description: "A brief, encouraging overview of the plan's focus and how it helps the user achieve their goal." },
+  weeklySplitDescription: { type: Type.STRING, description: `A description of the weekly structure, e.g., '${trainingDays}-Day Full Body Split' or 'Push/Pull/Legs'.` },
+  warmupRecommendation: { type: Type.STRING, description: "General warm-up instructions, like 5-10 minutes of light cardio and dynamic stretching." },
+  cooldownRecommendation: { type: Type.STRING, description: "General cool-down instructions, like 5-10 minutes of static stretching for muscles worked." },
+  progressionTips: { type: Type.STRING, description: "Tips on how to progress over time, such as increasing weight, reps, or reducing rest, relevant to the user's goal." },
+});
+
+/**
+ * JSON schema for a single-week WorkoutPlan
+ */
+export const buildWorkoutPlanSchema = (trainingDays: number) => ({
+  type: Type.OBJECT,
+  properties: {
+    ...planOverviewProperties(trainingDays),
+    weeklyPlan: weeklyPlanSchema,
+  },
+  required: ["title", "description", "weeklySplitDescription", "weeklyPlan", "warmupRecommendation", "cooldownRecommendation", "progressionTips"]
+});
+
+/**
+ * JSON schema for a multi-week Program
+ */
+export const buildProgramSchema = (trainingDays: number, totalWeeks: number) => ({
+  type: Type.OBJECT,
+  properties: {
+    ...planOverviewProperties(trainingDays),
+    weeks: {
+      type: Type.ARRAY,
+      description: `An array of exactly ${totalWeeks} weeks, in order.`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          week: { type: Type.NUMBER, description: "The 1-based week number." },
+          phase: { type: Type.STRING, description: "The training phase for the week, e.g., 'Accumulation', 'Intensification', 'Realization' or 'Deload'." },
+          isDeload: { type: Type.BOOLEAN, description: "True if this is a deload week with reduced volume and intensity." },
+          notes: { type: Type.STRING, description: "A short explanation of the week's intent and how it differs from the previous week." },
+          weeklyPlan: weeklyPlanSchema,
+        },
+        required: ["week", "phase", "isDeload", "weeklyPlan"],
+      }
+    }
+  },
+  required: ["title", "description", "weeklySplitDescription", "weeks", "warmupRecommendation", "cooldownRecommendation", "progressionTips"]
+});
+
 export async function* generateWorkoutPlanWithGemini(
   availableExercises: Exercise[],
   goal: string,
   trainingDays: number,
-  useProModel: boolean
+  useProModel: boolean,
+  ignoreCache: boolean = false
 ): AsyncGenerator<string> {
   if (availableExercises.length === 0) {
     throw new Error("Cannot generate a plan with no exercises. Please add exercises first.");
   }
   
-  const ai = getGenAIInstance();
-  
   const exerciseList = availableExercises.map(ex => ({
       id: ex.id,
       name: ex.name,
@@ -304,112 +443,152 @@ export async function* generateWorkoutPlanWithGemini(
   Your response MUST be a single, valid JSON object that conforms to the schema below. Do not include any text or markdown formatting outside of the JSON object itself.
   `;
   
-  const workoutPlanSchema = {
-    type: Type.OBJECT,
-    properties: {
-      title: { type: Type.STRING, description: "A catchy, motivating title for the workout plan that reflects the user's goal." },
-      description: { type: Type.STRING, description: "A brief, encouraging overview of the plan's focus and how it helps the user achieve their goal." },
-      weeklySplitDescription: { type: Type.STRING, description: `A description of the weekly structure, e.g., '${trainingDays}-Day Full Body Split' or 'Push/Pull/Legs'.` },
-      warmupRecommendation: { type: Type.STRING, description: "General warm-up instructions, like 5-10 minutes of light cardio and dynamic stretching." },
-      cooldownRecommendation: { type: Type.STRING, description: "General cool-down instructions, like 5-10 minutes of static stretching for muscles worked." },
-      progressionTips: { type: Type.STRING, description: "Tips on how to progress over time, such as increasing weight, reps, or reducing rest, relevant to the user's goal." },
-      weeklyPlan: {
-        type: Type.ARRAY,
-        description: "An array of 7 workout days, one for each day of the week (e.g., 'Monday', 'Tuesday', ... 'Sunday').",
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            day: { type: Type.STRING, description: "The day of the week (e.g., 'Monday')." },
-            focus: { type: Type.STRING, description: "The main focus for the day, e.g., 'Upper Body Strength', 'Leg Day', 'Full Body', or 'Rest'." },
-            exercises: {
-              type: Type.ARRAY,
-              description: "A list of exercises planned for the day. Should be an empty array for rest days.",
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  originalExerciseId: { type: Type.STRING, description: "The unique ID of the exercise from the provided available exercises list." },
-                  name: { type: Type.STRING, description: "The name of the exercise, matching the name from the available list." },
-                  sets: { type: Type.STRING, description: "The number of sets to perform, e.g., '3-4'." },
-                  reps: { type: Type.STRING, description: "The number of repetitions per set, e.g., '8-12'." },
-                  rest: { type: Type.STRING, description: "The rest period between sets, e.g., '60-90 seconds'." },
-                },
-                required: ["originalExerciseId", "name", "sets", "reps", "rest"],
-              }
-            },
-            notes: { type: Type.STRING, description: "Any additional notes for the day, such as 'Focus on form' or 'Go heavy today'." },
-          },
-          required: ["day", "focus", "exercises"],
-        }
-      }
-    },
-    required: ["title", "description", "weeklySplitDescription", "weeklyPlan", "warmupRecommendation", "cooldownRecommendation", "progressionTips"]
-  };
+  yield* streamStructuredResponse({
+    prompt,
+    schema: buildWorkoutPlanSchema(trainingDays),
+    useProModel,
+    exercises: exerciseList,
+    goal,
+    trainingDays,
+  }, ignoreCache);
+};
 
-  const modelConfig = {
-      responseMimeType: "application/json",
-      responseSchema: workoutPlanSchema,
-      ...(useProModel && { thinkingConfig: { thinkingBudget: 32768 } })
-  };
+export async function* generateProgramWithGemini(
+  availableExercises: Exercise[],
+  goal: string,
+  trainingDays: number,
+  totalWeeks: number,
+  useProModel: boolean,
+  ignoreCache: boolean = false
+): AsyncGenerator<string> {
+  if (availableExercises.length === 0) {
+    throw new Error("Cannot generate a program with no exercises. Please add exercises first.");
+  }
 
-  const chat: Chat = ai.chats.create({
-      model: useProModel ? 'gemini-2.5-pro' : 'gemini-2.5-flash',
-      config: modelConfig,
-  });
+  const exerciseList = availableExercises.map(ex => ({
+      id: ex.id,
+      name: ex.name,
+      description: ex.description,
+  }));
 
-  const responseStream = await chat.sendMessageStream({ message: prompt });
+  const prompt = `
+  You are an expert strength and conditioning coach${useProModel ? ' and kinesiologist' : ''}. Your task is to create a periodized ${totalWeeks}-week training program (mesocycle). Use ONLY the list of available exercises provided. Each exercise includes a name and a description for better context.
 
-  for await (const chunk of responseStream) {
-      if(chunk.text) {
-          yield chunk.text;
-      }
-  }
+  **User's Goal and Schedule:**
+  - **Primary Goal:** ${goal}. The entire program, including exercise selection, sets, reps, and rest times, must be tailored to achieve this goal.
+  - **Training Frequency:** The user can train ${trainingDays} days per week. Every week must have exactly ${trainingDays} training days and ${7-trainingDays} rest or active recovery days.
+  - **Program Length:** Exactly ${totalWeeks} weeks.
+
+  **Available Exercises (use ONLY these for the program):**
+  \`\`\`json
+  ${JSON.stringify(exerciseList, null, 2)}
+  \`\`\`
+
+  **Instructions:**
+  1.  **Organize the weeks into intensity phases** (for example Accumulation, then Intensification, then Realization) that build toward the goal of "${goal}". Label each week's phase.
+  2.  **Include deload weeks** with reduced volume and intensity, roughly every 3-5 weeks, and mark them with isDeload = true.
+  3.  **Keep the weekly split consistent** from week to week so progress is measurable, and change sets, reps and rest between weeks to reflect each phase.
+  4.  **Use the exercise description** to understand the equipment needed and the movement's nature to make appropriate selections. Do not simply copy the description into your output.
+  5.  **Include an encouraging title, an overall description of how the program supports the user's goal, and practical recommendations** for warming up, cooling down, and progression.
+  6.  **Structure the output strictly as JSON** according to the provided schema. Ensure every planned exercise includes the 'originalExerciseId' from the list of available exercises.
+
+  Your response MUST be a single, valid JSON object that conforms to the schema below. Do not include any text or markdown formatting outside of the JSON object itself.
+  `;
+
+  yield* streamStructuredResponse({
+    prompt,
+    schema: buildProgramSchema(trainingDays, totalWeeks),
+    useProModel,
+    exercises: exerciseList,
+    goal,
+    trainingDays,
+    totalWeeks,
+  }, ignoreCache);
 };
 
-const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const base64Data = (reader.result as string).split(',')[1];
-            resolve(base64Data);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
+/**
+ * Ask the model to correct a plan it generated
+ * @param plan The plan with the automatic fixes already applied
+ * @param violations What is still wrong, one problem per entry
+ * @param totalWeeks Set when the plan is a multi-week program
+ */
+export async function* repairWorkoutPlanWithGemini(
+  plan: WorkoutPlan,
+  violations: string[],
+  availableExercises: Exercise[],
+  goal: string,
+  trainingDays: number,
+  useProModel: boolean,
+  totalWeeks?: number,
+  ignoreCache: boolean = false
+): AsyncGenerator<string> {
+  const exerciseList = availableExercises.map(ex => ({
+      id: ex.id,
+      name: ex.name,
+      description: ex.description,
+  }));
+
+  const prompt = `
+  You are an expert fitness coach. You generated the ${totalWeeks ? `${totalWeeks}-week program` : 'workout plan'} below for the goal "${goal}", but it breaks some of the rules it had to follow. Correct it.
+
+  **Problems to fix:**
+  ${violations.map(violation => `- ${violation}`).join('\n  ')}
+
+  **Rules:**
+  - ${totalWeeks ? `Exactly ${totalWeeks} weeks, each with` : 'Exactly'} ${trainingDays} training days and ${7-trainingDays} rest or active recovery days. Rest days have an empty exercises array.
+  - Use ONLY exercises from the available list, with their exact 'id' as 'originalExerciseId' and their exact name.
+  - 'sets' starts with a number of sets, e.g. '3' or '3-4'. 'reps' is a number, a range or a duration, e.g. '8-12' or '30 seconds'.
+  - Keep everything that already follows the rules unchanged.
+
+  **Available Exercises:**
+  \`\`\`json
+  ${JSON.stringify(exerciseList, null, 2)}
+  \`\`\`
+
+  **Plan to correct:**
+  \`\`\`json
+  ${JSON.stringify(totalWeeks ? { ...plan, weeklyPlan: undefined } : plan, null, 2)}
+  \`\`\`
+
+  Your response MUST be the complete corrected plan as a single, valid JSON object that conforms to the schema. Do not include any text or markdown formatting outside of the JSON object itself.
+  `;
+
+  yield* streamStructuredResponse({
+    prompt,
+    schema: totalWeeks ? buildProgramSchema(trainingDays, totalWeeks) : buildWorkoutPlanSchema(trainingDays),
+    useProModel,
+    exercises: exerciseList,
+    goal,
+    trainingDays,
+    totalWeeks,
+  }, ignoreCache);
 };
 
 export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
-    const ai = getGenAIInstance();
     try {
-        const audioData = await blobToBase64(audioBlob);
-        const audioPart = {
-            inlineData: {
-                mimeType: audioBlob.type,
-                data: audioData,
-            },
-        };
-        const textPart = { text: "Transcribe the following audio recording accurately." };
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart, audioPart] },
-        });
-
-        return response.text;
+        return await getProvider().transcribeAudio(audioBlob);
     } catch (error) {
         console.error("Error during audio transcription:", error);
+        if (error instanceof Error && error.message.includes('not supported')) {
+            throw error;
+        }
         throw new Error("Failed to transcribe audio.");
     }
 };
 
 export const getQuickExerciseTip = async (exerciseName: string, exerciseDescription: string): Promise<string> => {
-    const ai = getGenAIInstance();
+    const modelUsed = cacheModelLabel('flash-lite');
+    const cacheKey = aiCache.createCacheKey('tip', modelUsed, exerciseName, exerciseDescription);
+    const cached = await aiCache.getCached<string>(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
     const prompt = `You are a concise fitness coach. Give me one quick, actionable tip for performing a '${exerciseName}'. The exercise is described as: '${exerciseDescription}'. The tip should focus on form, breathing, or mind-muscle connection. Keep the tip under 30 words and start directly with the advice.`;
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-flash-lite-latest',
-            contents: prompt,
-        });
-        return response.text;
+        const tip = await getProvider().getExerciseTip({ prompt, exerciseName, exerciseDescription });
+        await aiCache.setCached('tip', cacheKey, tip, modelUsed);
+        return tip;
     } catch (error) {
         console.error("Error getting quick tip:", error);
         throw new Error("Failed to get quick tip.");
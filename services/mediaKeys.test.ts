@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Exercise } from '../types';
+import { renameExerciseMediaKeys, splitSharedMediaKeys } from './mediaKeys';
+
+const exercise = (id: string, videoStorageKey: string, thumbnailStorageKey?: string): Exercise => ({
+  id,
+  name: id,
+  description: '',
+  videoStorageKey,
+  thumbnailStorageKey,
+} as Exercise);
+
+describe('splitSharedMediaKeys', () => {
+  // Both accounts restored the same backup, so they point at one stored video
+  const alice = [exercise('a-1', 'video-shared', 'thumb-shared'), exercise('a-2', 'video-alice')];
+  const bob = [exercise('b-1', 'video-shared', 'thumb-shared')];
+
+  it('separates media another account also uses', () => {
+    expect(splitSharedMediaKeys(alice, bob, true)).toEqual({
+      owned: ['video-alice'],
+      shared: ['video-shared', 'thumb-shared'],
+    });
+  });
+
+  it('owns everything when no other account uses it', () => {
+    expect(splitSharedMediaKeys(alice, [], true).shared).toEqual([]);
+  });
+
+  it('treats every key as shared when another account could not be read', () => {
+    expect(splitSharedMediaKeys(alice, [], false)).toEqual({
+      owned: [],
+      shared: ['video-shared', 'thumb-shared', 'video-alice'],
+    });
+  });
+});
+
+describe('renameExerciseMediaKeys', () => {
+  it('moves the video, thumbnail and alternate angles to their new keys', () => {
+    const original = {
+      ...exercise('a-1', 'video-shared', 'thumb-shared'),
+      alternateAngles: [{ videoStorageKey: 'video-shared' }],
+    } as Exercise;
+    const renamed = renameExerciseMediaKeys(original, new Map([
+      ['video-shared', 'video-shared-copy'],
+      ['thumb-shared', 'thumb-shared-copy'],
+    ]));
+    expect(renamed.videoStorageKey).toBe('video-shared-copy');
+    expect(renamed.thumbnailStorageKey).toBe('thumb-shared-copy');
+    expect(renamed.alternateAngles?.[0].videoStorageKey).toBe('video-shared-copy');
+  });
+
+  it('leaves keys that were not copied alone', () => {
+    const original = exercise('a-2', 'video-alice');
+    expect(renameExerciseMediaKeys(original, new Map([['video-shared', 'video-shared-copy']])).videoStorageKey).toBe('video-alice');
+  });
+});
@@ -0,0 +1,48 @@
+import { Exercise } from '../types';
+
+/**
+ * Every video and thumbnail key an exercise uses, alternate angles included
+ */
+export const getExerciseMediaKeys = (exercise: Exercise): string[] => {
+  const keys = new Set<string>();
+  if (exercise.videoStorageKey) keys.add(exercise.videoStorageKey);
+  if (exercise.thumbnailStorageKey) keys.add(exercise.thumbnailStorageKey);
+  exercise.alternateAngles?.forEach(angle => keys.add(angle.videoStorageKey));
+  return Array.from(keys);
+};
+
+/**
+ * Split one account's media keys into those only it uses and those another account
+ * on the device uses too (restoring one backup into two accounts gives both the same keys)
+ * @param otherExercises Every other account's exercises that could be read
+ * @param isComplete False if some accounts couldn't be read, in which case any key may be shared
+ */
+export const splitSharedMediaKeys = (
+  ownExercises: Exercise[],
+  otherExercises: Exercise[],
+  isComplete: boolean,
+): { owned: string[]; shared: string[] } => {
+  const ownKeys = Array.from(new Set(ownExercises.flatMap(getExerciseMediaKeys)));
+  if (!isComplete) {
+    return { owned: [], shared: ownKeys };
+  }
+  const otherKeys = new Set(otherExercises.flatMap(getExerciseMediaKeys));
+  return {
+    owned: ownKeys.filter(key => !otherKeys.has(key)),
+    shared: ownKeys.filter(key => otherKeys.has(key)),
+  };
+};
+
+/**
+ * Point an exercise's videos and thumbnail at new keys
+ * @param renamed Old key -> new key; keys not in it are left as they are
+ */
+export const renameExerciseMediaKeys = (exercise: Exercise, renamed: Map<string, string>): Exercise => {
+  const rename = (key: string) => renamed.get(key) ?? key;
+  return {
+    ...exercise,
+    videoStorageKey: exercise.videoStorageKey && rename(exercise.videoStorageKey),
+    thumbnailStorageKey: exercise.thumbnailStorageKey && rename(exercise.thumbnailStorageKey),
+    alternateAngles: exercise.alternateAngles?.map(angle => ({ ...angle, videoStorageKey: rename(angle.videoStorageKey) })),
+  };
+};
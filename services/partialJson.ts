@@ -0,0 +1,150 @@
+/**
+ * Tolerant parser for JSON that is still being streamed
+ *
+ * Parses a document that may be cut off at any point and returns everything written so
+ * far: open objects and arrays are closed, a string cut off part way keeps the text it
+ * has, and a value that hasn't started yet or may still be growing (a number, true,
+ * false or null at the very end) is left out along with its key. Anything malformed is
+ * treated as the end of the document, so a bad chunk never throws.
+ */
+
+const INCOMPLETE = Symbol('incomplete');
+type Parsed = unknown | typeof INCOMPLETE;
+
+const LITERAL_PATTERN = /-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null/y;
+
+/**
+ * Decode the text of a string that has no closing quote yet
+ */
+const decodeOpenString = (raw: string): string => {
+  // Drop an escape sequence the cut went through: a lone backslash or a short \u
+  let text = raw;
+  const trailingBackslashes = text.match(/\\*$/)![0].length;
+  if (trailingBackslashes % 2 === 1) {
+    text = text.slice(0, -1);
+  }
+  text = text.replace(/(^|[^\\])((?:\\\\)*)\\u[0-9a-fA-F]{0,3}$/, '$1$2');
+  try {
+    return JSON.parse(`"${text}"`);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * @returns undefined if not even the start of a value has arrived
+ */
+export const parsePartialJson = (text: string): unknown => {
+  let i = 0;
+
+  const atEnd = () => i >= text.length;
+
+  const skipWhitespace = () => {
+    while (!atEnd() && /\s/.test(text[i])) i++;
+  };
+
+  // Malformed input ends the document where it went wrong
+  const stop = (): typeof INCOMPLETE => {
+    i = text.length;
+    return INCOMPLETE;
+  };
+
+  const parseString = (): { value: string; complete: boolean } => {
+    const start = i;
+    i++; // Opening quote
+    while (!atEnd()) {
+      if (text[i] === '\\') {
+        i += 2;
+      } else if (text[i] === '"') {
+        i++;
+        try {
+          return { value: JSON.parse(text.slice(start, i)), complete: true };
+        } catch {
+          stop();
+          return { value: '', complete: false };
+        }
+      } else {
+        i++;
+      }
+    }
+    i = text.length;
+    return { value: decodeOpenString(text.slice(start + 1)), complete: false };
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const object: Record<string, unknown> = {};
+    i++; // Opening brace
+    while (true) {
+      skipWhitespace();
+      if (atEnd()) return object;
+      if (text[i] === '}') {
+        i++;
+        return object;
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      if (text[i] !== '"') {
+        stop();
+        return object;
+      }
+      const key = parseString();
+      skipWhitespace();
+      if (!key.complete || atEnd()) return object;
+      if (text[i] !== ':') {
+        stop();
+        return object;
+      }
+      i++;
+      const value = parseValue();
+      if (value !== INCOMPLETE) {
+        object[key.value] = value;
+      }
+    }
+  };
+
+  const parseArray = (): unknown[] => {
+    const array: unknown[] = [];
+    i++; // Opening bracket
+    while (true) {
+      skipWhitespace();
+      if (atEnd()) return array;
+      if (text[i] === ']') {
+        i++;
+        return array;
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      const value = parseValue();
+      if (value !== INCOMPLETE) {
+        array.push(value);
+      }
+    }
+  };
+
+  function parseValue(): Parsed {
+    skipWhitespace();
+    if (atEnd()) return INCOMPLETE;
+    switch (text[i]) {
+      case '{':
+        return parseObject();
+      case '[':
+        return parseArray();
+      case '"':
+        return parseString().value;
+    }
+    LITERAL_PATTERN.lastIndex = i;
+    const match = LITERAL_PATTERN.exec(text);
+    if (!match) return stop();
+    i += match[0].length;
+    // A number or literal that runs to the end of the text may still be growing
+    if (atEnd()) return INCOMPLETE;
+    return JSON.parse(match[0]);
+  }
+
+  const value = parseValue();
+  return value === INCOMPLETE ? undefined : value;
+};
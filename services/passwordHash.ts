@@ -0,0 +1,78 @@
+/**
+ * Password hashing using PBKDF2 via the WebCrypto API
+ */
+
+const PBKDF2_ITERATIONS = 310000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export interface PasswordHash {
+  salt: string; // base64
+  hash: string; // base64
+  iterations: number;
+}
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const deriveBits = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+/**
+ * Hash a password with a fresh random salt
+ * @param password The plaintext password
+ * @returns Salt, hash and iteration count to store
+ */
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveBits(password, salt, PBKDF2_ITERATIONS);
+  return {
+    salt: bytesToBase64(salt),
+    hash: bytesToBase64(hash),
+    iterations: PBKDF2_ITERATIONS,
+  };
+};
+
+/**
+ * Check a password against a stored hash
+ * Compares in constant time so the result doesn't leak how many bytes matched.
+ * @param password The plaintext password to check
+ * @param stored The stored salt/hash/iterations
+ */
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const expected = base64ToBytes(stored.hash);
+  const actual = await deriveBits(password, base64ToBytes(stored.salt), stored.iterations);
+  if (actual.length !== expected.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual[i] ^ expected[i];
+  }
+  return diff === 0;
+};
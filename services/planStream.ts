@@ -0,0 +1,50 @@
+/**
+ * Partial plans built from a plan or program response that is still streaming
+ */
+
+import { PlannedExercise, Program, ProgramWeek, WorkoutDay, WorkoutPlan } from '../types';
+import { parsePartialJson } from './partialJson';
+
+type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Days are shown once their name has arrived, exercises once theirs has
+const toDays = (days: unknown): WorkoutDay[] => {
+  if (!Array.isArray(days)) return [];
+  return days
+    .filter((day): day is JsonObject => isObject(day) && typeof day.day === 'string')
+    .map(day => ({
+      ...day,
+      exercises: Array.isArray(day.exercises)
+        ? day.exercises.filter((exercise: unknown): exercise is PlannedExercise => isObject(exercise) && typeof exercise.name === 'string')
+        : [],
+    }) as WorkoutDay);
+};
+
+/**
+ * Parse as much of a streamed plan as has arrived
+ * Programs mirror their first week into weeklyPlan like finished ones do.
+ * @param text The response text so far
+ * @returns The partial plan, or null until its title has started
+ */
+export const parsePartialPlan = (text: string): WorkoutPlan | null => {
+  const value = parsePartialJson(text.replace(/^\s*```(json)?/, ''));
+  if (!isObject(value) || typeof value.title !== 'string') {
+    return null;
+  }
+
+  if (Array.isArray(value.weeks)) {
+    const weeks: ProgramWeek[] = value.weeks
+      .filter((week: unknown): week is JsonObject => isObject(week) && typeof week.week === 'number')
+      .map(week => ({
+        ...week,
+        phase: typeof week.phase === 'string' ? week.phase : '',
+        weeklyPlan: toDays(week.weeklyPlan),
+      }) as ProgramWeek);
+    return { ...value, weeks, weeklyPlan: weeks[0]?.weeklyPlan ?? [] } as Program;
+  }
+
+  return { ...value, weeklyPlan: toDays(value.weeklyPlan) } as WorkoutPlan;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { WorkoutPlan } from '../types';
+import { matchExerciseByName, validateWorkoutPlan } from './planValidation';
+
+const library = [
+  { id: 'ex-1', name: 'Push-up' },
+  { id: 'ex-2', name: 'Goblet Squat' },
+];
+
+const exercise = (id: string, name: string) => ({ originalExerciseId: id, name, sets: '3', reps: '8-12', rest: '60s' });
+
+const planWith = (weeklyPlan: unknown[]): WorkoutPlan => ({
+  title: 'Plan',
+  description: '',
+  weeklySplitDescription: '',
+  warmupRecommendation: '',
+  cooldownRecommendation: '',
+  progressionTips: '',
+  weeklyPlan,
+} as WorkoutPlan);
+
+describe('matchExerciseByName', () => {
+  it('matches ignoring case and punctuation', () => {
+    expect(matchExerciseByName('push up', library)?.id).toBe('ex-1');
+  });
+
+  it('matches close misspellings', () => {
+    expect(matchExerciseByName('Goblet Squats', library)?.id).toBe('ex-2');
+  });
+
+  it('does not match unrelated names', () => {
+    expect(matchExerciseByName('Deadlift', library)).toBeNull();
+  });
+});
+
+describe('validateWorkoutPlan', () => {
+  it('accepts a plan that follows the request', () => {
+    const plan = planWith([
+      { day: 'Monday', focus: 'Full Body', exercises: [exercise('ex-1', 'Push-up')] },
+      { day: 'Tuesday', focus: 'Rest', exercises: [] },
+    ]);
+    expect(validateWorkoutPlan(plan, library, { trainingDays: 1 }).unresolved).toEqual([]);
+  });
+
+  it('matches wrong IDs by name and drops made-up exercises', () => {
+    const plan = planWith([
+      { day: 'Monday', focus: 'Full Body', exercises: [exercise('bad-id', 'Push-up'), exercise('other', 'Cartwheel')] },
+    ]);
+    const result = validateWorkoutPlan(plan, library, { trainingDays: 1 });
+    expect(result.plan.weeklyPlan[0].exercises.map(ex => ex.originalExerciseId)).toEqual(['ex-1']);
+    expect(result.fixed).toHaveLength(2);
+  });
+
+  it('reports null days and exercises instead of throwing', () => {
+    const plan = planWith([
+      null,
+      { day: 'Monday', focus: 'Full Body', exercises: [null, { originalExerciseId: 7, name: 42 }, exercise('ex-2', 'Goblet Squat')] },
+    ]);
+    const result = validateWorkoutPlan(plan, library, { trainingDays: 1 });
+    expect(result.plan.weeklyPlan).toHaveLength(1);
+    expect(result.plan.weeklyPlan[0].exercises.map(ex => ex.originalExerciseId)).toEqual(['ex-2']);
+    expect(result.unresolved).toEqual([]);
+    expect(result.fixed).toHaveLength(3);
+  });
+
+  it('reports null weeks of a program as missing training days', () => {
+    const program = {
+      ...planWith([]),
+      weeks: [
+        { week: 1, phase: 'Base', isDeload: false, weeklyPlan: [{ day: 'Monday', focus: 'Full Body', exercises: [exercise('ex-1', 'Push-up')] }] },
+        null,
+      ],
+    } as unknown as WorkoutPlan;
+    const result = validateWorkoutPlan(program, library, { trainingDays: 1, totalWeeks: 2 });
+    expect(result.unresolved.map(violation => violation.location)).toEqual(['Week 2']);
+  });
+});
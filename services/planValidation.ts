@@ -0,0 +1,195 @@
+/**
+ * Validation and automatic repair of generated plans
+ *
+ * Checks a plan from the AI against the library it was built from and the schedule
+ * that was asked for. Exercises the model named but gave a wrong ID are matched to the
+ * library by name, anything it made up is dropped, and sloppy set counts are tidied.
+ * What can't be fixed here is reported so the model can be asked to fix it.
+ */
+
+import { Exercise, PlannedExercise, Program, ProgramWeek, WorkoutDay, WorkoutPlan } from '../types';
+import { parseRepRange } from './progression';
+import { isObject } from './planStream';
+
+// Only the ID and name are checked against, so a prompt's exercise list will do
+type LibraryExercise = Pick<Exercise, 'id' | 'name'>;
+
+export interface PlanViolation {
+  location: string; // e.g. "Week 2, Monday: Push-up"
+  message: string;
+}
+
+export interface PlanValidationResult {
+  plan: WorkoutPlan; // With the automatic fixes applied
+  fixed: PlanViolation[];
+  unresolved: PlanViolation[];
+}
+
+export interface PlanRequirements {
+  trainingDays: number;
+  totalWeeks?: number; // Set for a multi-week program
+}
+
+// Names this similar or more are taken to be the same exercise
+const MIN_NAME_SIMILARITY = 0.8;
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Find the library exercise a planned name most likely refers to
+ * Exact matches ignoring case and punctuation win, then the closest name above the
+ * similarity threshold. Two equally close candidates count as no match.
+ */
+export const matchExerciseByName = <T extends LibraryExercise>(name: string, exercises: T[]): T | null => {
+  const target = normalizeName(name);
+  if (!target) return null;
+
+  const exact = exercises.filter(exercise => normalizeName(exercise.name) === target);
+  if (exact.length > 0) return exact.length === 1 ? exact[0] : null;
+
+  let best: T | null = null;
+  let bestScore = 0;
+  let isTied = false;
+  for (const exercise of exercises) {
+    const candidate = normalizeName(exercise.name);
+    const score = 1 - editDistance(target, candidate) / Math.max(target.length, candidate.length);
+    if (score > bestScore) {
+      best = exercise;
+      bestScore = score;
+      isTied = false;
+    } else if (score === bestScore) {
+      isTied = true;
+    }
+  }
+  return best && bestScore >= MIN_NAME_SIMILARITY && !isTied ? best : null;
+};
+
+// A set count must start with a number, as the workout player reads it
+const isParseableSets = (sets: string): boolean => /^\d+/.test(sets.trim());
+
+// Rep targets can be numbers, ranges, times or open-ended sets
+const isParseableReps = (reps: string): boolean =>
+  parseRepRange(reps) !== null || /\d/.test(reps) || /amrap|failure|max/i.test(reps);
+
+/**
+ * Validate a generated plan or program and fix what can be fixed
+ * @param plan The parsed AI response
+ * @param exercises The library the plan was generated from
+ * @param requirements What was asked for
+ */
+export const validateWorkoutPlan = (plan: WorkoutPlan, exercises: LibraryExercise[], requirements: PlanRequirements): PlanValidationResult => {
+  const fixed: PlanViolation[] = [];
+  const unresolved: PlanViolation[] = [];
+
+  if (!plan || typeof plan.title !== 'string' || !plan.title.trim()) {
+    unresolved.push({ location: 'Plan', message: 'The plan has no title.' });
+  }
+  const weeks = requirements.totalWeeks
+    ? (Array.isArray((plan as Program)?.weeks) ? (plan as Program).weeks : null)
+    : null;
+  if (requirements.totalWeeks && !weeks) {
+    unresolved.push({ location: 'Plan', message: `The program has no weeks; expected ${requirements.totalWeeks}.` });
+    return { plan, fixed, unresolved };
+  }
+  if (!requirements.totalWeeks && !Array.isArray(plan?.weeklyPlan)) {
+    unresolved.push({ location: 'Plan', message: 'The plan has no weekly schedule.' });
+    return { plan, fixed, unresolved };
+  }
+
+  const exercisesById = new Map(exercises.map(exercise => [exercise.id, exercise]));
+
+  // Parsed model output, so any entry can be missing or the wrong type
+  const validateExercise = (exercise: unknown, location: string): PlannedExercise | null => {
+    if (!isObject(exercise)) {
+      fixed.push({ location, message: 'Had an empty exercise entry, which was removed.' });
+      return null;
+    }
+    let result = exercise as unknown as PlannedExercise;
+    const name = typeof exercise.name === 'string' ? exercise.name : '';
+    const id = typeof exercise.originalExerciseId === 'string' ? exercise.originalExerciseId : '';
+    const where = `${location}: ${name || id || 'Unnamed exercise'}`;
+
+    if (!exercisesById.has(id)) {
+      // The model sometimes puts the name where the ID belongs
+      const match = matchExerciseByName(name, exercises) ?? matchExerciseByName(id, exercises);
+      if (!match) {
+        fixed.push({ location: where, message: 'Not in your library, so it was removed.' });
+        return null;
+      }
+      fixed.push({ location: where, message: `Unknown exercise ID, matched to "${match.name}" in your library.` });
+      result = { ...result, originalExerciseId: match.id, name: match.name };
+    }
+
+    if (typeof result.sets === 'string' && !isParseableSets(result.sets)) {
+      const count = result.sets.match(/\d+(\s*-\s*\d+)?/)?.[0];
+      if (count) {
+        fixed.push({ location: where, message: `Sets "${result.sets}" changed to "${count}".` });
+        result = { ...result, sets: count };
+      } else {
+        unresolved.push({ location: where, message: `Sets "${result.sets}" is not a number of sets.` });
+      }
+    }
+    if (typeof result.reps === 'string' && !isParseableReps(result.reps)) {
+      unresolved.push({ location: where, message: `Reps "${result.reps}" is not a number of reps or a duration.` });
+    }
+    return result;
+  };
+
+  const validateWeek = (days: unknown[], weekLabel: string): WorkoutDay[] => {
+    const validated = days.flatMap((day, index): WorkoutDay[] => {
+      if (!isObject(day)) {
+        fixed.push({ location: `${weekLabel}Day ${index + 1}`, message: 'Was an empty entry, which was removed.' });
+        return [];
+      }
+      const location = `${weekLabel}${typeof day.day === 'string' && day.day ? day.day : 'Unnamed day'}`;
+      if (!Array.isArray(day.exercises)) {
+        fixed.push({ location, message: 'Had no exercise list, treated as a rest day.' });
+        return [{ ...day, exercises: [] } as unknown as WorkoutDay];
+      }
+      const dayExercises = day.exercises
+        .map((exercise: unknown) => validateExercise(exercise, location))
+        .filter((exercise): exercise is PlannedExercise => exercise !== null);
+      return [{ ...day, exercises: dayExercises } as unknown as WorkoutDay];
+    });
+
+    const trainingDays = validated.filter(day => day.exercises.length > 0).length;
+    if (trainingDays !== requirements.trainingDays) {
+      unresolved.push({
+        location: weekLabel ? weekLabel.replace(/, $/, '') : 'Plan',
+        message: `Has ${trainingDays} training day${trainingDays === 1 ? '' : 's'}; expected ${requirements.trainingDays}.`,
+      });
+    }
+    return validated;
+  };
+
+  if (weeks) {
+    if (weeks.length !== requirements.totalWeeks) {
+      unresolved.push({ location: 'Plan', message: `Has ${weeks.length} week${weeks.length === 1 ? '' : 's'}; expected ${requirements.totalWeeks}.` });
+    }
+    const validatedWeeks = (weeks as unknown[]).map((week, index): ProgramWeek => {
+      const weekData = isObject(week) ? week : {};
+      const weekNumber = typeof weekData.week === 'number' ? weekData.week : index + 1;
+      const days = Array.isArray(weekData.weeklyPlan) ? weekData.weeklyPlan : [];
+      return { ...weekData, week: weekNumber, weeklyPlan: validateWeek(days, `Week ${weekNumber}, `) } as ProgramWeek;
+    });
+    // Programs mirror their first week into weeklyPlan
+    const program: Program = { ...plan, weeks: validatedWeeks, weeklyPlan: validatedWeeks[0]?.weeklyPlan ?? [] };
+    return { plan: program, fixed, unresolved };
+  }
+
+  return { plan: { ...plan, weeklyPlan: validateWeek(plan.weeklyPlan, '') }, fixed, unresolved };
+};
+
+export const formatViolation = (violation: PlanViolation): string => `${violation.location}: ${violation.message}`;
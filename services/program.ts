@@ -0,0 +1,44 @@
+/**
+ * Helpers for multi-week programs (mesocycles)
+ */
+
+import { Program, WorkoutDay, WorkoutPlan } from '../types';
+
+/**
+ * Check whether a plan is a multi-week program
+ */
+export const isProgram = (plan: WorkoutPlan): plan is Program => {
+  return Array.isArray((plan as Program).weeks) && (plan as Program).weeks.length > 0;
+};
+
+/**
+ * Get a single-week view of a plan
+ * For programs the returned plan's weeklyPlan is the requested week; plain plans are returned as-is.
+ * @param plan The plan or program
+ * @param weekIndex 0-based week index
+ */
+export const getPlanForWeek = (plan: WorkoutPlan, weekIndex: number): WorkoutPlan => {
+  if (!isProgram(plan)) {
+    return plan;
+  }
+  const week = plan.weeks[Math.min(Math.max(weekIndex, 0), plan.weeks.length - 1)];
+  return { ...plan, weeklyPlan: week.weeklyPlan };
+};
+
+/**
+ * Get every workout day in a plan, across all weeks for programs
+ */
+export const getAllPlanDays = (plan: WorkoutPlan): WorkoutDay[] => {
+  return isProgram(plan) ? plan.weeks.flatMap(week => week.weeklyPlan) : plan.weeklyPlan;
+};
+
+/**
+ * Apply a transformation to every workout day in a plan, across all weeks for programs
+ */
+export const mapPlanDays = (plan: WorkoutPlan, fn: (day: WorkoutDay) => WorkoutDay): WorkoutPlan => {
+  const mapped: WorkoutPlan = { ...plan, weeklyPlan: plan.weeklyPlan.map(fn) };
+  if (isProgram(plan)) {
+    return { ...mapped, weeks: plan.weeks.map(week => ({ ...week, weeklyPlan: week.weeklyPlan.map(fn) })) } as Program;
+  }
+  return mapped;
+};
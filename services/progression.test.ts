@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { LoggedSet, PlannedExercise, ProgressionSettings, WorkoutLog, WorkoutPlan } from '../types';
+import { DEFAULT_PROGRESSION_SETTINGS, generateNextWeek, parseRepRange } from './progression';
+
+const squat: PlannedExercise = { originalExerciseId: 'ex-1', name: 'Goblet Squat', sets: '3', reps: '8-12', rest: '90s' };
+
+const planWith = (exercise: PlannedExercise, progression: Partial<ProgressionSettings> = {}): WorkoutPlan => ({
+  title: 'Plan',
+  description: '',
+  weeklySplitDescription: '',
+  warmupRecommendation: '',
+  cooldownRecommendation: '',
+  progressionTips: '',
+  weeklyPlan: [{ day: 'Monday', focus: 'Legs', exercises: [exercise] }],
+  progression: { ...DEFAULT_PROGRESSION_SETTINGS, ...progression },
+});
+
+const set = (setNumber: number, reps: number, load?: number): LoggedSet => ({
+  setNumber,
+  reps,
+  load,
+  loadUnit: load === undefined ? undefined : 'kg',
+  completedAt: '2026-10-12T10:00:00.000Z',
+  skipped: false,
+});
+
+const logOf = (sets: LoggedSet[], finishedAt = '2026-10-12T10:30:00.000Z'): WorkoutLog => ({
+  id: `log-${finishedAt}`,
+  planTitle: 'Plan',
+  day: 'Monday',
+  startedAt: finishedAt,
+  finishedAt,
+  exercises: [{ originalExerciseId: 'ex-1', name: 'Goblet Squat', sets }],
+});
+
+const nextSquat = (plan: WorkoutPlan, logs: WorkoutLog[]) => generateNextWeek(plan, logs).weeklyPlan[0].exercises[0];
+
+describe('parseRepRange', () => {
+  it('reads ranges and single counts', () => {
+    expect(parseRepRange('8-12')).toEqual({ min: 8, max: 12 });
+    expect(parseRepRange('10 to 15')).toEqual({ min: 10, max: 15 });
+    expect(parseRepRange('5')).toEqual({ min: 5, max: 5 });
+  });
+
+  it('ignores timed prescriptions', () => {
+    expect(parseRepRange('30 sec')).toBeNull();
+    expect(parseRepRange('45s')).toBeNull();
+  });
+});
+
+describe('generateNextWeek', () => {
+  it('adds load after a session that hit the top of the range on every set', () => {
+    const logs = [logOf([set(1, 12, 20), set(2, 12, 20), set(3, 12, 20)])];
+    const next = nextSquat(planWith(squat), logs);
+    expect(next.targetLoad).toBe(22.5);
+    expect(next.loadUnit).toBe('kg');
+  });
+
+  it('holds the load when reps were missed', () => {
+    const logs = [logOf([set(1, 12, 20), set(2, 10, 20), set(3, 8, 20)])];
+    expect(nextSquat(planWith(squat), logs).targetLoad).toBe(20);
+  });
+
+  it('holds the load when a planned set was skipped', () => {
+    const logs = [logOf([set(1, 12, 20), set(2, 12, 20), { setNumber: 3, skipped: true }])];
+    expect(nextSquat(planWith(squat), logs).targetLoad).toBe(20);
+  });
+
+  it('progresses from the bottom of the range under linear-load', () => {
+    const logs = [logOf([set(1, 8, 20), set(2, 8, 20), set(3, 9, 20)])];
+    expect(nextSquat(planWith(squat, { rule: 'linear-load' }), logs).targetLoad).toBe(22.5);
+  });
+
+  it('uses the most recent session', () => {
+    const logs = [
+      logOf([set(1, 12, 20), set(2, 12, 20), set(3, 12, 20)], '2026-10-05T10:30:00.000Z'),
+      logOf([set(1, 9, 22.5), set(2, 8, 22.5), set(3, 8, 22.5)], '2026-10-12T10:30:00.000Z'),
+    ];
+    expect(nextSquat(planWith(squat), logs).targetLoad).toBe(22.5);
+  });
+
+  it('adds a rep to bodyweight exercises instead of load', () => {
+    const logs = [logOf([set(1, 12), set(2, 12), set(3, 12)])];
+    const next = nextSquat(planWith(squat), logs);
+    expect(next.reps).toBe('9-13');
+    expect(next.targetLoad).toBeUndefined();
+  });
+
+  it('leaves the prescription alone on a first session with no history', () => {
+    const next = nextSquat(planWith(squat), []);
+    expect(next).toEqual(squat);
+  });
+
+  it('halves the sets and lightens the load in a deload week, then restores them', () => {
+    const logs = [logOf([set(1, 10, 20), set(2, 10, 20), set(3, 9, 20)])];
+    const deloadPlan = generateNextWeek(planWith(squat, { week: 3, deloadEveryWeeks: 4 }), logs);
+    const deloaded = deloadPlan.weeklyPlan[0].exercises[0];
+    expect(deloadPlan.progression).toMatchObject({ week: 4, isDeloadWeek: true });
+    expect(deloaded).toMatchObject({ sets: '2', targetLoad: 18, workingSets: '3', workingLoad: 20 });
+
+    const after = nextSquat(deloadPlan, logs);
+    expect(after).toMatchObject({ sets: '3', targetLoad: 20 });
+    expect(after.workingSets).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Deterministic progressive overload engine
+ * Rewrites a plan's targets for the following week from logged performance.
+ * Runs entirely offline - it never calls the AI service.
+ */
+
+import { WorkoutPlan, WorkoutDay, PlannedExercise, WorkoutLog, LoggedExercise, ProgressionSettings, LoadUnit } from '../types';
+import { findLastPerformance } from './workoutHistory';
+
+export const DEFAULT_PROGRESSION_SETTINGS: ProgressionSettings = {
+  rule: 'double-progression',
+  loadIncrement: 2.5,
+  deloadEveryWeeks: 4,
+  week: 1,
+};
+
+const DELOAD_LOAD_FACTOR = 0.9;
+
+interface RepRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Parse a planned reps string into a numeric range
+ * @returns The range, or null for timed or otherwise non-numeric prescriptions
+ */
+export const parseRepRange = (reps?: string): RepRange | null => {
+  if (!reps || /sec|min|\d\s*s\b/i.test(reps)) {
+    return null;
+  }
+  const match = reps.match(/(\d+)\s*(?:-|–|to)\s*(\d+)/);
+  if (match) {
+    return { min: parseInt(match[1], 10), max: parseInt(match[2], 10) };
+  }
+  const single = reps.match(/\d+/);
+  if (single) {
+    const value = parseInt(single[0], 10);
+    return { min: value, max: value };
+  }
+  return null;
+};
+
+const formatRepRange = (range: RepRange): string =>
+  range.min === range.max ? `${range.min}` : `${range.min}-${range.max}`;
+
+const parseSetCount = (sets?: string): number =>
+  parseInt(sets?.match(/^\d+/)?.[0] || '1', 10);
+
+const roundLoad = (load: number): number => Math.round(load * 2) / 2;
+
+/**
+ * Heaviest completed set from a logged exercise, which is treated as the working load
+ */
+const getTopSet = (logged: LoggedExercise): { load: number; unit?: LoadUnit } | null => {
+  let top: { load: number; unit?: LoadUnit } | null = null;
+  for (const set of logged.sets) {
+    if (!set.skipped && set.load !== undefined && (!top || set.load > top.load)) {
+      top = { load: set.load, unit: set.loadUnit };
+    }
+  }
+  return top;
+};
+
+/**
+ * Decide whether the lifter earned a progression under the plan's rule
+ * - double-progression: every planned set reached the top of the rep range
+ * - linear-load: every planned set reached at least the bottom of the rep range
+ */
+const hasMetProgressionCriteria = (
+  exercise: PlannedExercise,
+  logged: LoggedExercise,
+  range: RepRange,
+  settings: ProgressionSettings
+): boolean => {
+  const plannedSets = parseSetCount(exercise.sets);
+  const completedSets = logged.sets.filter(set => !set.skipped);
+  if (completedSets.length < plannedSets) {
+    return false;
+  }
+  const threshold = settings.rule === 'double-progression' ? range.max : range.min;
+  return completedSets.every(set => set.reps !== undefined && set.reps >= threshold);
+};
+
+const progressExercise = (
+  exercise: PlannedExercise,
+  logs: WorkoutLog[],
+  settings: ProgressionSettings
+): PlannedExercise => {
+  const { workingSets, workingLoad, ...rest } = exercise;
+
+  // Coming out of a deload: resume the working prescription unchanged
+  if (settings.isDeloadWeek) {
+    return {
+      ...rest,
+      sets: workingSets ?? exercise.sets,
+      targetLoad: workingLoad ?? exercise.targetLoad,
+    };
+  }
+
+  const range = parseRepRange(exercise.reps);
+  const logged = findLastPerformance(logs, exercise.originalExerciseId, false);
+  if (!range || !logged) {
+    return rest;
+  }
+
+  const topSet = getTopSet(logged);
+  const progressed = hasMetProgressionCriteria(exercise, logged, range, settings);
+
+  if (topSet) {
+    return {
+      ...rest,
+      targetLoad: roundLoad(progressed ? topSet.load + settings.loadIncrement : topSet.load),
+      loadUnit: topSet.unit ?? exercise.loadUnit,
+    };
+  }
+
+  // Bodyweight movements have no load to add, so progress by a rep instead
+  if (progressed) {
+    return { ...rest, reps: formatRepRange({ min: range.min + 1, max: range.max + 1 }) };
+  }
+  return rest;
+};
+
+const deloadExercise = (exercise: PlannedExercise): PlannedExercise => {
+  const setCount = parseSetCount(exercise.sets);
+  return {
+    ...exercise,
+    workingSets: exercise.sets,
+    workingLoad: exercise.targetLoad,
+    sets: exercise.sets ? `${Math.max(1, Math.ceil(setCount / 2))}` : exercise.sets,
+    targetLoad: exercise.targetLoad !== undefined ? roundLoad(exercise.targetLoad * DELOAD_LOAD_FACTOR) : undefined,
+  };
+};
+
+/**
+ * Produce the plan for the week after the given one
+ * @param plan The current week's plan (its progression settings select the rule)
+ * @param logs All workout logs for the user
+ * @returns A new plan with updated targets; the input plan is not modified
+ */
+export const generateNextWeek = (plan: WorkoutPlan, logs: WorkoutLog[]): WorkoutPlan => {
+  const settings = plan.progression ?? DEFAULT_PROGRESSION_SETTINGS;
+  const nextWeek = settings.week + 1;
+  const isDeloadWeek = !!settings.deloadEveryWeeks && nextWeek % settings.deloadEveryWeeks === 0;
+
+  const weeklyPlan: WorkoutDay[] = plan.weeklyPlan.map(day => ({
+    ...day,
+    exercises: day.exercises.map(exercise => {
+      const progressed = progressExercise(exercise, logs, settings);
+      return isDeloadWeek ? deloadExercise(progressed) : progressed;
+    }),
+  }));
+
+  return {
+    ...plan,
+    weeklyPlan,
+    progression: { ...settings, week: nextWeek, isDeloadWeek },
+  };
+};
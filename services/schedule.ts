@@ -0,0 +1,141 @@
+/**
+ * Calendar scheduling for saved plans
+ * Maps a plan's training days onto real dates and tracks missed/completed status.
+ */
+
+import { SavedWorkoutPlanEntry, PlanSchedule, ScheduledWorkout, WorkoutDay, WorkoutPlan } from '../types';
+import { isProgram } from './program';
+
+// Single-week plans repeat for this many weeks when activated
+const SINGLE_WEEK_PLAN_REPEATS = 4;
+
+export type ScheduledWorkoutStatus = 'completed' | 'missed' | 'today' | 'upcoming';
+
+/**
+ * Format a Date as a local YYYY-MM-DD key (not UTC, so "today" matches the user's clock)
+ */
+export const toDateKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getTodayKey = (): string => toDateKey(new Date());
+
+/**
+ * Add a number of days to a YYYY-MM-DD key
+ */
+export const addDays = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return toDateKey(new Date(year, month - 1, day + days));
+};
+
+/**
+ * Lay out a plan's training days on the calendar starting at startDate
+ * Day N of the plan falls on startDate + N; rest days are skipped.
+ * @param plan The plan or program to schedule
+ * @param startDate YYYY-MM-DD for the plan's first day
+ */
+export const buildSchedule = (plan: WorkoutPlan, startDate: string): PlanSchedule => {
+  const weeks: WorkoutDay[][] = isProgram(plan)
+    ? plan.weeks.map(week => week.weeklyPlan)
+    : Array.from({ length: SINGLE_WEEK_PLAN_REPEATS }, () => plan.weeklyPlan);
+
+  const workouts: ScheduledWorkout[] = [];
+  weeks.forEach((days, weekIndex) => {
+    days.forEach((day, dayIndex) => {
+      if (day.exercises.length > 0) {
+        workouts.push({
+          date: addDays(startDate, weekIndex * 7 + dayIndex),
+          weekIndex: isProgram(plan) ? weekIndex : 0,
+          dayIndex,
+        });
+      }
+    });
+  });
+
+  return { startDate, activatedAt: new Date().toISOString(), workouts };
+};
+
+/**
+ * Resolve the WorkoutDay a scheduled workout points at
+ */
+export const getScheduledDay = (plan: WorkoutPlan, workout: ScheduledWorkout): WorkoutDay | null => {
+  const days = isProgram(plan) ? plan.weeks[workout.weekIndex]?.weeklyPlan : plan.weeklyPlan;
+  return days?.[workout.dayIndex] || null;
+};
+
+export const getWorkoutStatus = (workout: ScheduledWorkout, todayKey: string = getTodayKey()): ScheduledWorkoutStatus => {
+  if (workout.completedLogId) return 'completed';
+  if (workout.date < todayKey) return 'missed';
+  if (workout.date === todayKey) return 'today';
+  return 'upcoming';
+};
+
+/**
+ * Find the plan that is currently active on the calendar
+ */
+export const getActiveEntry = (entries: SavedWorkoutPlanEntry[]): SavedWorkoutPlanEntry | null => {
+  return entries.find(entry => !!entry.schedule) || null;
+};
+
+/**
+ * Get the workouts scheduled in the 7-day window starting on the Monday of the given date's week
+ */
+export const getWorkoutsForWeekOf = (schedule: PlanSchedule, dateKey: string = getTodayKey()): ScheduledWorkout[] => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const weekday = (new Date(year, month - 1, day).getDay() + 6) % 7; // Monday = 0
+  const weekStart = addDays(dateKey, -weekday);
+  const weekEnd = addDays(weekStart, 6);
+  return schedule.workouts
+    .filter(workout => workout.date >= weekStart && workout.date <= weekEnd)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Move a missed workout to today and push the following workouts back as needed
+ * Each later workout only moves if it would land on or before the one in front of it,
+ * so the shift stops at the first rest day that can absorb it.
+ * @returns A new schedule; the input is not modified
+ */
+export const rescheduleMissedWorkout = (
+  schedule: PlanSchedule,
+  target: ScheduledWorkout,
+  todayKey: string = getTodayKey()
+): PlanSchedule => {
+  const sorted = schedule.workouts.slice().sort((a, b) => a.date.localeCompare(b.date));
+  const targetIndex = sorted.indexOf(target);
+  if (targetIndex === -1) {
+    return schedule;
+  }
+
+  sorted[targetIndex] = { ...target, date: todayKey };
+  let previousDate = todayKey;
+  for (let i = targetIndex + 1; i < sorted.length; i++) {
+    const workout = sorted[i];
+    if (workout.completedLogId) {
+      continue;
+    }
+    if (workout.date > previousDate) {
+      break;
+    }
+    previousDate = addDays(previousDate, 1);
+    sorted[i] = { ...workout, date: previousDate };
+  }
+
+  return { ...schedule, workouts: sorted.sort((a, b) => a.date.localeCompare(b.date)) };
+};
+
+/**
+ * Mark the scheduled workout on a given date as completed by a logged session
+ * @returns A new schedule, or the same schedule if nothing was scheduled on that date
+ */
+export const markWorkoutCompleted = (schedule: PlanSchedule, date: string, logId: string): PlanSchedule => {
+  const index = schedule.workouts.findIndex(workout => workout.date === date && !workout.completedLogId);
+  if (index === -1) {
+    return schedule;
+  }
+  const workouts = schedule.workouts.slice();
+  workouts[index] = { ...workouts[index], completedLogId: logId };
+  return { ...schedule, workouts };
+};
@@ -0,0 +1,84 @@
+/**
+ * Storage usage
+ *
+ * Reports how much space videos and thumbnails take on this device and finds the
+ * orphans: files no exercise uses any more, left behind by deleted exercises,
+ * replaced libraries or uploads that never finished. Media is shared by every
+ * account on the device, so a file only counts as an orphan if no account uses it.
+ */
+
+import * as apiService from './apiService';
+import * as videoStorage from './videoStorage';
+import { StoredMediaFile } from './videoStorage';
+import { getQueuedMediaKeys } from './uploadQueue';
+
+export interface MediaTotals {
+  count: number;
+  bytes: number;
+}
+
+export interface StorageUsage {
+  videos: MediaTotals;
+  thumbnails: MediaTotals;
+  orphans: StoredMediaFile[];
+  // False if another account's encrypted data couldn't be read, so orphans can't be identified safely
+  canReclaim: boolean;
+  // What the browser reports for the whole app, when available
+  estimate?: { usage: number; quota: number };
+}
+
+const totals = (files: StoredMediaFile[]): MediaTotals => ({
+  count: files.length,
+  bytes: files.reduce((sum, file) => sum + file.size, 0),
+});
+
+const getStorageEstimate = async (): Promise<StorageUsage['estimate']> => {
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { usage, quota } : undefined;
+  } catch {
+    return undefined; // Not supported in every WebView
+  }
+};
+
+/**
+ * Measure stored media and find the files nothing references
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const [videos, thumbnails, references, queuedKeys, estimate] = await Promise.all([
+    videoStorage.listStoredMedia('video'),
+    videoStorage.listStoredMedia('thumbnail'),
+    apiService.getMediaReferenceCounts(),
+    getQueuedMediaKeys(),
+    getStorageEstimate(),
+  ]);
+
+  const orphans = references.isComplete
+    ? [...videos, ...thumbnails].filter(file => !references.counts.has(file.key) && !queuedKeys.has(file.key))
+    : [];
+
+  return {
+    videos: totals(videos),
+    thumbnails: totals(thumbnails),
+    orphans: orphans.sort((a, b) => b.size - a.size),
+    canReclaim: references.isComplete,
+    estimate,
+  };
+};
+
+/**
+ * Delete every orphaned video and thumbnail from this device
+ * Orphans are looked up again first, so anything saved since the usage was shown is kept.
+ * Only the copy on this device is removed; remote backends keep theirs.
+ * @returns How many files were deleted and how many bytes that freed
+ */
+export const reclaimOrphanedMedia = async (): Promise<MediaTotals> => {
+  const { orphans, canReclaim } = await getStorageUsage();
+  if (!canReclaim) {
+    throw new Error("Another account on this device has encrypted data, so unused files can't be identified safely.");
+  }
+  for (const file of orphans) {
+    await (file.kind === 'video' ? videoStorage.deleteVideo(file.key) : videoStorage.deleteThumbnail(file.key));
+  }
+  return totals(orphans);
+};
@@ -0,0 +1,674 @@
+/**
+ * Background upload queue
+ *
+ * Videos picked for analysis are queued here and processed (hash, compress, store,
+ * thumbnail, analyze, cut clips, save exercises) a few at a time while the rest of the app stays
+ * usable. The queue is kept in IndexedDB, and each item records a checkpoint after
+ * every stage, so a video interrupted by the app closing (iOS often kills it while the
+ * camera is open) resumes from its last finished stage at the next login. Failed items
+ * are retried automatically a couple of times before they are left for the user to retry.
+ */
+
+import { AlternateAngle, AnalysisCheckpoint, AnalysisStage, Exercise, UploadQueueItem } from '../types';
+import * as apiService from './apiService';
+import * as videoStorage from './videoStorage';
+import { analyzeVideoAndExtractExercises } from './geminiService';
+import { generateVideoHash, generateThumbnail, compressVideo, trimVideo, canReencodeVideo, DEFAULT_COMPRESSION_OPTIONS, VideoTooLargeError } from './videoUtils';
+import { MAX_ANALYSIS_VIDEO_BYTES } from './videoCompressionPlan';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  UPLOAD_QUEUE_STORE_NAME,
+  UPLOAD_QUEUE_FILE_STORE_NAME,
+  OWNER_INDEX_NAME,
+} from './database';
+import { isUnlocked, encryptBlob, decryptBlob, isEncryptedBlob } from './encryption';
+
+const CONCURRENCY_KEY = 'ai_workout_uploadConcurrency';
+const DEFAULT_CONCURRENCY = 1;
+export const MAX_UPLOAD_CONCURRENCY = 3;
+
+const COMPRESSION_SETTINGS_KEY = 'ai_workout_compression';
+const SAVE_CLIPS_KEY = 'ai_workout_saveClips';
+
+// Target size and bitrate for each compression quality
+export const COMPRESSION_PRESETS = {
+  '480p': { maxDimension: 854, videoBitsPerSecond: 1000000 },
+  '720p': { maxDimension: 1280, videoBitsPerSecond: 2500000 },
+  '1080p': { maxDimension: 1920, videoBitsPerSecond: 5000000 },
+};
+
+export type CompressionQuality = keyof typeof COMPRESSION_PRESETS;
+
+export interface CompressionSettings {
+  quality: CompressionQuality;
+  includeAudio: boolean;
+}
+
+const DEFAULT_COMPRESSION_SETTINGS: CompressionSettings = {
+  quality: '720p',
+  includeAudio: DEFAULT_COMPRESSION_OPTIONS.includeAudio,
+};
+
+const MAX_AUTOMATIC_RETRIES = 2;
+const RETRY_DELAY_MS = 5000; // Multiplied by the attempt number
+
+// Pipeline stages in order, with the status label and progress shown while each runs
+const STAGES: { stage: AnalysisStage; label: string; progress: number }[] = [
+  { stage: 'hash', label: 'Generating hash', progress: 5 },
+  { stage: 'compress', label: 'Compressing', progress: 15 },
+  { stage: 'store', label: 'Saving video', progress: 30 },
+  { stage: 'thumbnail', label: 'Generating thumbnail', progress: 40 },
+  { stage: 'analyze', label: 'Analyzing', progress: 50 },
+  { stage: 'trim', label: 'Cutting clips', progress: 70 },
+  { stage: 'save', label: 'Saving exercises', progress: 95 },
+];
+
+const stageIndex = (stage?: AnalysisStage) => STAGES.findIndex(entry => entry.stage === stage);
+
+type QueueListener = (items: UploadQueueItem[]) => void;
+
+interface StoredQueueItem {
+  id: string;
+  owner: string;
+  item: Omit<UploadQueueItem, 'file'>;
+  fileName: string;
+  lastModified: number;
+}
+
+let owner: string | null = null;
+let generation = 0; // Bumped whenever the queue stops, so work from a previous session is ignored
+let items: UploadQueueItem[] = [];
+let onExercisesAdded: ((exercises: Exercise[]) => void) | null = null;
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<QueueListener>();
+
+// Exercise saves read and rewrite the whole library, so run them one at a time
+let exerciseSaves: Promise<unknown> = Promise.resolve();
+
+export const getUploadConcurrency = (): number => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return Number.isInteger(stored) && stored >= 1 && stored <= MAX_UPLOAD_CONCURRENCY ? stored : DEFAULT_CONCURRENCY;
+};
+
+export const setUploadConcurrency = (concurrency: number): void => {
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_UPLOAD_CONCURRENCY) {
+    throw new Error(`Choose between 1 and ${MAX_UPLOAD_CONCURRENCY} videos at a time.`);
+  }
+  localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  processNext();
+};
+
+export const getCompressionSettings = (): CompressionSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COMPRESSION_SETTINGS_KEY) || '{}');
+    return {
+      quality: stored.quality in COMPRESSION_PRESETS ? stored.quality : DEFAULT_COMPRESSION_SETTINGS.quality,
+      includeAudio: typeof stored.includeAudio === 'boolean' ? stored.includeAudio : DEFAULT_COMPRESSION_SETTINGS.includeAudio,
+    };
+  } catch {
+    return DEFAULT_COMPRESSION_SETTINGS;
+  }
+};
+
+export const setCompressionSettings = (settings: CompressionSettings): void => {
+  localStorage.setItem(COMPRESSION_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Whether each exercise is cut into its own clip, instead of all of them pointing into the full video
+ */
+export const isClipSavingEnabled = (): boolean => localStorage.getItem(SAVE_CLIPS_KEY) === 'true';
+
+export const setClipSavingEnabled = (enabled: boolean): void => {
+  localStorage.setItem(SAVE_CLIPS_KEY, String(enabled));
+};
+
+// --- Persistence ---
+
+const saveRecord = async (item: UploadQueueItem): Promise<void> => {
+  if (!owner) return;
+  const { file, ...rest } = item;
+  const record: StoredQueueItem = { id: item.id, owner, item: rest, fileName: file.name, lastModified: file.lastModified };
+  const db = await openDatabase();
+  const transaction = db.transaction(UPLOAD_QUEUE_STORE_NAME, 'readwrite');
+  transaction.objectStore(UPLOAD_QUEUE_STORE_NAME).put(record);
+  await transactionDone(transaction);
+};
+
+const saveFile = async (id: string, file: File): Promise<void> => {
+  const stored = isUnlocked() ? await encryptBlob(file) : file;
+  const db = await openDatabase();
+  const transaction = db.transaction(UPLOAD_QUEUE_FILE_STORE_NAME, 'readwrite');
+  transaction.objectStore(UPLOAD_QUEUE_FILE_STORE_NAME).put(stored, id);
+  await transactionDone(transaction);
+};
+
+const deleteFile = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(UPLOAD_QUEUE_FILE_STORE_NAME, 'readwrite');
+  transaction.objectStore(UPLOAD_QUEUE_FILE_STORE_NAME).delete(id);
+  await transactionDone(transaction);
+};
+
+const deleteStored = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([UPLOAD_QUEUE_STORE_NAME, UPLOAD_QUEUE_FILE_STORE_NAME], 'readwrite');
+  transaction.objectStore(UPLOAD_QUEUE_STORE_NAME).delete(id);
+  transaction.objectStore(UPLOAD_QUEUE_FILE_STORE_NAME).delete(id);
+  await transactionDone(transaction);
+};
+
+const loadStoredItems = async (email: string): Promise<UploadQueueItem[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([UPLOAD_QUEUE_STORE_NAME, UPLOAD_QUEUE_FILE_STORE_NAME], 'readonly');
+  const records = await requestToPromise<StoredQueueItem[]>(
+    transaction.objectStore(UPLOAD_QUEUE_STORE_NAME).index(OWNER_INDEX_NAME).getAll(email)
+  );
+  const files = await Promise.all(records.map(record =>
+    requestToPromise<Blob | undefined>(transaction.objectStore(UPLOAD_QUEUE_FILE_STORE_NAME).get(record.id))
+  ));
+
+  return records
+    .map((record, index): UploadQueueItem => {
+      const blob = files[index];
+      // Encrypted files keep their ciphertext here; they're decrypted when processing starts
+      const file = new File(blob ? [blob] : [], record.fileName, { type: blob?.type, lastModified: record.lastModified });
+      // Once the video is stored the queued copy is deleted, and later stages read the stored one
+      const isStored = stageIndex(record.item.checkpoint?.completedStage) >= stageIndex('store');
+      if (!blob && !isStored) {
+        return { ...record.item, file, status: 'failed', error: 'The video is no longer available. Remove it and add it again.' };
+      }
+      // Anything that was mid-way through when the app closed resumes from its checkpoint
+      return record.item.status === 'processing'
+        ? { ...record.item, file, status: 'pending', progress: 0, stage: undefined }
+        : { ...record.item, file };
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Videos and clips an upload has saved so far
+const checkpointMediaKeys = (checkpoint?: AnalysisCheckpoint): string[] => {
+  const keys = new Set<string>();
+  if (checkpoint?.videoStorageKey) keys.add(checkpoint.videoStorageKey);
+  checkpoint?.exercises?.forEach(ex => {
+    if (ex.videoStorageKey) keys.add(ex.videoStorageKey);
+    if (ex.thumbnailStorageKey) keys.add(ex.thumbnailStorageKey);
+  });
+  return Array.from(keys);
+};
+
+/**
+ * Storage keys of videos and clips saved by queued uploads that haven't reached the library yet,
+ * for every account on this device
+ */
+export const getQueuedMediaKeys = async (): Promise<Set<string>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(UPLOAD_QUEUE_STORE_NAME, 'readonly');
+  const records = await requestToPromise<StoredQueueItem[]>(transaction.objectStore(UPLOAD_QUEUE_STORE_NAME).getAll());
+  return new Set(records.flatMap(record => checkpointMediaKeys(record.item.checkpoint)));
+};
+
+// --- State ---
+
+const notify = () => {
+  listeners.forEach(listener => listener(items));
+};
+
+const getItem = (id: string) => items.find(item => item.id === id);
+
+/**
+ * Update an item in memory and, for status changes, on disk
+ */
+const updateItem = (id: string, changes: Partial<UploadQueueItem>, persist: boolean = true) => {
+  items = items.map(item => (item.id === id ? { ...item, ...changes } : item));
+  notify();
+  const updated = getItem(id);
+  if (persist && updated && updated.status !== 'completed') {
+    saveRecord(updated).catch(error => console.warn(`Could not save upload ${id}:`, error));
+  }
+};
+
+// --- Processing ---
+
+const readableFile = async (file: File): Promise<File> => {
+  if (!(await isEncryptedBlob(file))) return file;
+  const decrypted = await decryptBlob(file);
+  return new File([decrypted], file.name, { type: decrypted.type, lastModified: file.lastModified });
+};
+
+const saveNewExercises = (newExercises: Exercise[]): Promise<Exercise[]> => {
+  const save = exerciseSaves.then(async () => {
+    const currentExercises = await apiService.getAllExercises();
+    const uniqueNewExercises = newExercises.filter(newEx =>
+      !currentExercises.some(existingEx =>
+        existingEx.name === newEx.name &&
+        existingEx.videoStorageKey === newEx.videoStorageKey &&
+        existingEx.startTime === newEx.startTime &&
+        existingEx.endTime === newEx.endTime
+      )
+    );
+    if (uniqueNewExercises.length > 0) {
+      await apiService.saveAllExercises([...currentExercises, ...uniqueNewExercises]);
+    }
+    return uniqueNewExercises;
+  });
+  exerciseSaves = save.catch(() => undefined);
+  return save;
+};
+
+/**
+ * Run one video through the pipeline, skipping stages its checkpoint says are done
+ * The checkpoint is saved after every stage. Cancellation stops compressing and clip
+ * cutting part way; other stages finish before it takes effect.
+ * @returns The exercises that were added to the library
+ */
+const processItem = async (id: string, signal: AbortSignal): Promise<Exercise[]> => {
+  const item = getItem(id)!;
+  let checkpoint: AnalysisCheckpoint = item.checkpoint ?? {};
+  let video: File | null = null;
+  let added: Exercise[] = [];
+
+  const saveCheckpoint = async (changes: Partial<AnalysisCheckpoint>) => {
+    checkpoint = { ...checkpoint, ...changes };
+    updateItem(id, { checkpoint }, false);
+    await saveRecord(getItem(id)!);
+  };
+
+  // The queued file until the video is stored, the stored copy after that
+  const getVideo = async (): Promise<File> => {
+    if (video) return video;
+    if (checkpoint.videoStorageKey && stageIndex(checkpoint.completedStage) >= stageIndex('store')) {
+      const stored = await videoStorage.getMediaBlob('video', checkpoint.videoStorageKey)
+        ?? await apiService.getVideoFile(checkpoint.videoStorageKey);
+      if (!stored) throw new Error('The saved video could not be found. Remove it and add it again.');
+      video = new File([stored], item.file.name, { type: stored.type || 'video/mp4' });
+    } else {
+      if (item.file.size === 0) throw new Error('The video is no longer available. Remove it and add it again.');
+      video = await readableFile(item.file);
+    }
+    return video;
+  };
+
+  const runStage = async (stage: AnalysisStage): Promise<Partial<AnalysisCheckpoint>> => {
+    switch (stage) {
+      case 'hash': {
+        const startProgress = STAGES[stageIndex('hash')].progress;
+        const endProgress = STAGES[stageIndex('compress')].progress;
+        let percent = -1;
+        const videoHash = await generateVideoHash(await getVideo(), fraction => {
+          // Chunks are small, so only re-render when the whole percentage changes
+          if (Math.floor(fraction * 100) === percent) return;
+          percent = Math.floor(fraction * 100);
+          updateItem(id, {
+            stage: `Generating hash (${percent}%)`,
+            progress: Math.round(startProgress + fraction * (endProgress - startProgress)),
+          }, false);
+        });
+        return { videoHash };
+      }
+
+      case 'compress': {
+        const original = await getVideo();
+        const { quality, includeAudio } = getCompressionSettings();
+        const startProgress = STAGES[stageIndex('compress')].progress;
+        const endProgress = STAGES[stageIndex('store')].progress;
+        // Throws if the video can't be brought under what can be sent for analysis
+        const compressed = await compressVideo(original, {
+          ...COMPRESSION_PRESETS[quality],
+          includeAudio,
+          maxOutputBytes: MAX_ANALYSIS_VIDEO_BYTES,
+          signal,
+          onProgress: fraction => updateItem(id, {
+            stage: `Compressing (${Math.round(fraction * 100)}%)`,
+            progress: Math.round(startProgress + fraction * (endProgress - startProgress)),
+          }, false),
+        });
+        if (compressed !== original) {
+          // Keep the compressed copy so a restart doesn't have to compress again
+          await saveFile(id, compressed);
+          video = compressed;
+          updateItem(id, { file: compressed }, false);
+        }
+        return {};
+      }
+
+      case 'store': {
+        const file = await getVideo();
+        // Record the key before writing, so an interrupted write is redone under the same key instead of leaving an orphan
+        const videoStorageKey = checkpoint.videoStorageKey ?? videoStorage.createVideoKey(file);
+        if (!checkpoint.videoStorageKey) await saveCheckpoint({ videoStorageKey });
+        await apiService.saveVideoFile(file, videoStorageKey);
+        return {};
+      }
+
+      case 'thumbnail':
+        try {
+          const thumbnail = await generateThumbnail(await getVideo());
+          await videoStorage.saveThumbnail(checkpoint.videoStorageKey!, thumbnail);
+        } catch (thumbError) {
+          console.warn(`Failed to generate thumbnail for ${item.file.name}:`, thumbError);
+          // Continue even if thumbnail fails
+        }
+        return {};
+
+      case 'analyze': {
+        const extractedData = await analyzeVideoAndExtractExercises(await getVideo(), item.useProModel, checkpoint.videoHash, item.reanalyze);
+        const videoFileNameForId = item.file.name.replace(/[^a-zA-Z0-9]/g, '') || 'video';
+        const exercises: Exercise[] = extractedData.map((data, index) => ({
+          id: `ex-${videoFileNameForId}-${Date.now()}-${index}`,
+          name: data.name,
+          description: data.description,
+          videoStorageKey: checkpoint.videoStorageKey!,
+          thumbnailStorageKey: checkpoint.videoStorageKey!, // Use same key for thumbnail
+          startTime: data.startTime,
+          endTime: data.endTime,
+          muscleGroups: data.muscleGroups,
+          equipment: data.equipment,
+          difficulty: data.difficulty,
+          videoHash: checkpoint.videoHash,
+        }));
+        return { exercises };
+      }
+
+      case 'trim': {
+        if (!isClipSavingEnabled() || !canReencodeVideo()) return {};
+        const sourceKey = checkpoint.videoStorageKey!;
+        const exercises = [...(checkpoint.exercises ?? [])];
+        const { quality, includeAudio } = getCompressionSettings();
+        const startProgress = STAGES[stageIndex('trim')].progress;
+        const endProgress = STAGES[stageIndex('save')].progress;
+
+        for (const [index, exercise] of exercises.entries()) {
+          // Skip clips already cut before a restart, and exercises that span the whole video
+          if (exercise.videoStorageKey !== sourceKey || exercise.startTime === undefined || exercise.endTime === undefined) continue;
+          if (signal.aborted) throw new Error('Cancelled');
+
+          const clip = await trimVideo(await getVideo(), exercise.startTime, exercise.endTime, {
+            videoBitsPerSecond: COMPRESSION_PRESETS[quality].videoBitsPerSecond,
+            includeAudio,
+            signal,
+            onProgress: fraction => updateItem(id, {
+              stage: `Cutting clip ${index + 1} of ${exercises.length}`,
+              progress: Math.round(startProgress + ((index + fraction) / exercises.length) * (endProgress - startProgress)),
+            }, false),
+          });
+          // A fixed key per clip means a clip cut again after a restart overwrites the first attempt
+          const clipKey = `${sourceKey}-clip${index}`;
+          await apiService.saveVideoFile(clip, clipKey);
+          try {
+            await videoStorage.saveThumbnail(clipKey, await generateThumbnail(clip));
+          } catch (thumbError) {
+            console.warn(`Failed to generate thumbnail for clip ${clipKey}:`, thumbError);
+          }
+          exercises[index] = {
+            ...exercise,
+            videoStorageKey: clipKey,
+            thumbnailStorageKey: clipKey,
+            startTime: 0,
+            endTime: exercise.endTime - exercise.startTime,
+          };
+          await saveCheckpoint({ exercises });
+        }
+        return {};
+      }
+
+      case 'save': {
+        // Safe to repeat after a restart: exercises already in the library are skipped
+        added = checkpoint.exercises?.length ? await saveNewExercises(checkpoint.exercises) : [];
+        // Drop videos nothing ended up using: the full video once every exercise has its own
+        // clip (or if none were found), and clips of exercises that were already in the library
+        const keys = new Set([checkpoint.videoStorageKey!, ...(checkpoint.exercises ?? []).map(ex => ex.videoStorageKey!)]);
+        for (const key of keys) {
+          await apiService.deleteVideoIfUnused(key).catch(error => console.warn(`Could not remove unused video ${key}:`, error));
+        }
+        return {};
+      }
+    }
+  };
+
+  for (const { stage, label, progress } of STAGES) {
+    if (stageIndex(stage) <= stageIndex(checkpoint.completedStage)) continue;
+    if (signal.aborted) throw new Error('Cancelled');
+    updateItem(id, { stage: label, progress }, false);
+    await saveCheckpoint({ ...(await runStage(stage)), completedStage: stage });
+
+    if (stage === 'store') {
+      // The stored video replaces the queued copy
+      deleteFile(id).catch(error => console.warn(`Could not remove the queued copy of ${item.file.name}:`, error));
+    }
+  }
+  return added;
+};
+
+const runItem = async (id: string) => {
+  const runGeneration = generation;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  updateItem(id, { status: 'processing', progress: 0, stage: undefined, error: undefined });
+
+  try {
+    const added = await processItem(id, controller.signal);
+    if (runGeneration !== generation) return;
+    updateItem(id, { status: 'completed', progress: 100, stage: undefined, exerciseCount: added.length });
+    deleteStored(id).catch(error => console.warn(`Could not remove finished upload ${id}:`, error));
+    if (added.length > 0) onExercisesAdded?.(added);
+  } catch (error) {
+    // The queue was stopped (logout); the item stays queued for next time
+    if (runGeneration !== generation) return;
+
+    const item = getItem(id);
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    if (!item || controller.signal.aborted) {
+      updateItem(id, { status: 'cancelled', stage: undefined });
+    } else if (item.retryCount < MAX_AUTOMATIC_RETRIES && !(error instanceof VideoTooLargeError)) {
+      const retryCount = item.retryCount + 1;
+      console.warn(`Upload ${item.file.name} failed, retrying (${retryCount}/${MAX_AUTOMATIC_RETRIES}):`, error);
+      updateItem(id, { status: 'pending', progress: 0, stage: 'Waiting to retry', error: message, retryCount });
+      retryTimers.set(id, setTimeout(() => {
+        retryTimers.delete(id);
+        processNext();
+      }, RETRY_DELAY_MS * retryCount));
+    } else {
+      console.error(`Error analyzing ${item.file.name}:`, error);
+      updateItem(id, { status: 'failed', stage: undefined, error: message });
+    }
+  } finally {
+    controllers.delete(id);
+    if (runGeneration === generation) processNext();
+  }
+};
+
+/**
+ * Start pending items until the concurrency limit is reached
+ */
+const processNext = () => {
+  if (!owner) return;
+  let running = items.filter(item => item.status === 'processing').length;
+  for (const item of items) {
+    if (running >= getUploadConcurrency()) break;
+    if (item.status !== 'pending' || retryTimers.has(item.id)) continue;
+    running++;
+    runItem(item.id);
+  }
+};
+
+// --- Public API ---
+
+export const getUploadQueue = (): UploadQueueItem[] => items;
+
+/**
+ * Listen for queue changes; the listener is called immediately with the current queue
+ * @returns A function that removes the listener
+ */
+export const subscribeToUploadQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  listener(items);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const stopUploadQueue = () => {
+  generation++;
+  owner = null;
+  onExercisesAdded = null;
+  controllers.forEach(controller => controller.abort());
+  controllers.clear();
+  retryTimers.forEach(timer => clearTimeout(timer));
+  retryTimers.clear();
+  items = [];
+  notify();
+};
+
+/**
+ * Load a user's queue and start processing it
+ * @param exercisesAdded Called whenever a video finishes with new exercises
+ * @returns A function that stops the queue (e.g. on logout); unfinished items resume next time
+ */
+export const startUploadQueue = (email: string, exercisesAdded: (exercises: Exercise[]) => void): (() => void) => {
+  stopUploadQueue();
+  owner = email;
+  onExercisesAdded = exercisesAdded;
+  const startGeneration = generation;
+
+  loadStoredItems(email)
+    .then(stored => {
+      if (startGeneration !== generation) return;
+      items = [...stored, ...items];
+      notify();
+      processNext();
+    })
+    .catch(error => console.error('Failed to load the upload queue:', error));
+
+  return () => {
+    if (startGeneration === generation) stopUploadQueue();
+  };
+};
+
+/**
+ * Add videos to the end of the queue
+ * If a video can't be saved for later (e.g. storage is full) it is still processed,
+ * it just won't survive a reload.
+ */
+export const enqueueVideos = async (
+  videos: { file: File; videoHash?: string; reanalyze?: boolean }[],
+  useProModel: boolean
+): Promise<void> => {
+  if (!owner) {
+    throw new Error('You must be logged in to analyze videos.');
+  }
+  for (const [index, { file, videoHash, reanalyze }] of videos.entries()) {
+    const item: UploadQueueItem = {
+      id: `upload-${Date.now()}-${index}`,
+      file,
+      status: 'pending',
+      progress: 0,
+      retryCount: 0,
+      useProModel,
+      reanalyze,
+      createdAt: new Date().toISOString(),
+      // The upload form has usually hashed the file already
+      checkpoint: videoHash ? { completedStage: 'hash', videoHash } : undefined,
+    };
+    try {
+      await saveFile(item.id, file);
+      await saveRecord(item);
+    } catch (error) {
+      console.warn(`Could not save ${file.name} to the upload queue; it will be lost if the app closes:`, error);
+    }
+    items = [...items, item];
+    notify();
+  }
+  processNext();
+};
+
+/**
+ * Save a video as another angle of exercises already in the library, without analyzing it
+ * @param exerciseIds The exercises to attach it to
+ * @returns The exercises it was attached to
+ */
+export const attachAlternateAngle = async (file: File, exerciseIds: string[]): Promise<Exercise[]> => {
+  const videoStorageKey = await apiService.saveVideoFile(file);
+  const attach = exerciseSaves.then(async () => {
+    const currentExercises = await apiService.getAllExercises();
+    const attached: Exercise[] = [];
+    const updated = currentExercises.map(ex => {
+      if (!exerciseIds.includes(ex.id)) return ex;
+      // Another camera's recording isn't in sync with the main video (which may be a clip
+      // timed from 0), so the angle plays in full rather than borrowing the exercise's range
+      const angle: AlternateAngle = { videoStorageKey };
+      const withAngle = { ...ex, alternateAngles: [...(ex.alternateAngles ?? []), angle] };
+      attached.push(withAngle);
+      return withAngle;
+    });
+    if (attached.length > 0) {
+      await apiService.saveAllExercises(updated);
+    }
+    return attached;
+  });
+  exerciseSaves = attach.catch(() => undefined);
+
+  const attached = await attach;
+  if (attached.length === 0) {
+    // The exercises were deleted in the meantime
+    await apiService.deleteVideoIfUnused(videoStorageKey).catch(error => console.warn(`Could not remove unused video ${videoStorageKey}:`, error));
+  }
+  return attached;
+};
+
+/**
+ * Cancel a queued or running item
+ * A running item stops straight away while re-encoding, otherwise once its current step finishes.
+ */
+export const cancelUpload = (id: string): void => {
+  const controller = controllers.get(id);
+  if (controller) {
+    controller.abort();
+    updateItem(id, { stage: 'Cancelling' }, false);
+    return;
+  }
+  const timer = retryTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    retryTimers.delete(id);
+  }
+  updateItem(id, { status: 'cancelled', stage: undefined });
+};
+
+/**
+ * Queue a failed or cancelled item again, with a fresh set of automatic retries
+ */
+export const retryUpload = (id: string): void => {
+  updateItem(id, { status: 'pending', progress: 0, stage: undefined, error: undefined, retryCount: 0 });
+  processNext();
+};
+
+/**
+ * Remove an item that isn't running from the queue
+ */
+export const removeUpload = async (id: string): Promise<void> => {
+  if (controllers.has(id)) {
+    throw new Error('Cancel this video before removing it.');
+  }
+  const timer = retryTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    retryTimers.delete(id);
+  }
+  const removed = getItem(id);
+  items = items.filter(item => item.id !== id);
+  notify();
+  await deleteStored(id);
+  // Whatever the upload saved before it stopped never reached the library
+  for (const key of checkpointMediaKeys(removed?.checkpoint)) {
+    await apiService.deleteVideoIfUnused(key).catch(error => console.warn(`Could not remove unused video ${key}:`, error));
+  }
+};
+
+export const clearCompletedUploads = (): void => {
+  items = items.filter(item => item.status !== 'completed');
+  notify();
+};
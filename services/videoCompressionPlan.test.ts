@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chooseCompressionResult,
+  decideCompression,
+  MAX_ANALYSIS_VIDEO_BYTES,
+  MIN_VIDEO_BITS_PER_SECOND,
+  planOutputDimensions,
+  planVideoBitrate,
+} from './videoCompressionPlan';
+
+const MB = 1024 * 1024;
+
+describe('decideCompression', () => {
+  const limits = { skipBelowBytes: 50 * MB, maxOutputBytes: MAX_ANALYSIS_VIDEO_BYTES };
+
+  it('keeps files that are small and within the limit', () => {
+    expect(decideCompression({ ...limits, fileSize: 10 * MB, canReencode: true })).toEqual({ action: 'keep' });
+  });
+
+  it('re-encodes files under the skip size that are still over the limit', () => {
+    expect(decideCompression({ ...limits, fileSize: 30 * MB, canReencode: true })).toEqual({ action: 'reencode' });
+  });
+
+  it('re-encodes large files', () => {
+    expect(decideCompression({ ...limits, fileSize: 2048 * MB, canReencode: true })).toEqual({ action: 'reencode' });
+  });
+
+  it('keeps files within the limit when the browser cannot re-encode', () => {
+    expect(decideCompression({ skipBelowBytes: 0, maxOutputBytes: 20 * MB, fileSize: 15 * MB, canReencode: false })).toEqual({ action: 'keep' });
+  });
+
+  it('rejects files over the limit when the browser cannot re-encode', () => {
+    const decision = decideCompression({ ...limits, fileSize: 500 * MB, canReencode: false });
+    expect(decision.action).toBe('reject');
+    expect(decision.action === 'reject' && decision.reason).toContain("can't compress");
+  });
+});
+
+describe('planOutputDimensions', () => {
+  it('scales the longest side down to the target', () => {
+    expect(planOutputDimensions(1920, 1080, 1280)).toEqual({ width: 1280, height: 720 });
+    expect(planOutputDimensions(1080, 1920, 854)).toEqual({ width: 480, height: 854 });
+  });
+
+  it('never scales up', () => {
+    expect(planOutputDimensions(640, 360, 1280)).toEqual({ width: 640, height: 360 });
+  });
+
+  it('rounds to even sizes', () => {
+    const { width, height } = planOutputDimensions(1001, 751, 1000);
+    expect(width % 2).toBe(0);
+    expect(height % 2).toBe(0);
+  });
+});
+
+describe('planVideoBitrate', () => {
+  const preset = { presetBitsPerSecond: 2500000, audioBitsPerSecond: 96000 };
+
+  it('uses the preset when there is no size limit', () => {
+    expect(planVideoBitrate({ ...preset, durationSeconds: 600, maxOutputBytes: Number.POSITIVE_INFINITY })).toBe(2500000);
+  });
+
+  it('uses the preset when it fits', () => {
+    expect(planVideoBitrate({ ...preset, durationSeconds: 30, maxOutputBytes: 20 * MB })).toBe(2500000);
+  });
+
+  it('lowers the bitrate so longer videos fit', () => {
+    const bitrate = planVideoBitrate({ ...preset, durationSeconds: 120, maxOutputBytes: 20 * MB });
+    expect(bitrate).toBeLessThan(2500000);
+    expect(((bitrate + preset.audioBitsPerSecond) * 120) / 8).toBeLessThanOrEqual(20 * MB);
+  });
+
+  it('stops at the minimum bitrate', () => {
+    expect(planVideoBitrate({ ...preset, durationSeconds: 3600, maxOutputBytes: 20 * MB })).toBe(MIN_VIDEO_BITS_PER_SECOND);
+  });
+
+  it('uses the preset when the duration is unknown', () => {
+    expect(planVideoBitrate({ ...preset, durationSeconds: Number.NaN, maxOutputBytes: 20 * MB })).toBe(2500000);
+  });
+});
+
+describe('chooseCompressionResult', () => {
+  const maxOutputBytes = 20 * MB;
+
+  it('keeps a smaller re-encode', () => {
+    expect(chooseCompressionResult({ originalSize: 80 * MB, compressedSize: 15 * MB, maxOutputBytes })).toEqual({ keep: 'compressed' });
+  });
+
+  it('keeps the original when the re-encode is no smaller', () => {
+    expect(chooseCompressionResult({ originalSize: 18 * MB, compressedSize: 19 * MB, maxOutputBytes })).toEqual({ keep: 'original' });
+  });
+
+  it('keeps the original when re-encoding failed but it fits', () => {
+    expect(chooseCompressionResult({ originalSize: 18 * MB, compressedSize: null, maxOutputBytes })).toEqual({ keep: 'original' });
+  });
+
+  it('fails when re-encoding failed and the original is too large', () => {
+    const result = chooseCompressionResult({ originalSize: 2048 * MB, compressedSize: null, maxOutputBytes });
+    expect('reason' in result && result.reason).toContain('could not be compressed');
+  });
+
+  it('fails when even the re-encode is too large', () => {
+    const result = chooseCompressionResult({ originalSize: 2048 * MB, compressedSize: 45 * MB, maxOutputBytes });
+    expect('reason' in result && result.reason).toContain('still 45.0MB');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Decisions behind video compression, kept apart from the browser encoding in
+ * videoUtils.ts so they can be tested without a browser
+ */
+
+// Gemini takes up to 20MB of inline media per request (see server/aiProxy.js)
+export const MAX_ANALYSIS_VIDEO_BYTES = 20 * 1024 * 1024;
+
+// Below this the picture falls apart, so a longer video is left over the limit instead
+export const MIN_VIDEO_BITS_PER_SECOND = 250000;
+
+// Room left in the size budget for the container and encoders overshooting their bitrate
+const SIZE_BUDGET_MARGIN = 0.85;
+
+export type CompressionDecision =
+  | { action: 'keep' }
+  | { action: 'reencode' }
+  | { action: 'reject'; reason: string };
+
+export const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+/**
+ * Decide whether a video needs re-encoding before it's stored and analyzed
+ * @param fileSize Size of the original, in bytes
+ * @param skipBelowBytes Files this small are kept as they are, if they're also within maxOutputBytes
+ * @param maxOutputBytes The most the result may be
+ * @param canReencode Whether this browser can re-encode video
+ */
+export const decideCompression = ({ fileSize, skipBelowBytes, maxOutputBytes, canReencode }: {
+  fileSize: number;
+  skipBelowBytes: number;
+  maxOutputBytes: number;
+  canReencode: boolean;
+}): CompressionDecision => {
+  if (fileSize <= skipBelowBytes && fileSize <= maxOutputBytes) {
+    return { action: 'keep' };
+  }
+  if (!canReencode) {
+    return fileSize <= maxOutputBytes
+      ? { action: 'keep' }
+      : { action: 'reject', reason: `it is ${formatMegabytes(fileSize)} and this browser can't compress video. The most that can be analyzed is ${formatMegabytes(maxOutputBytes)}.` };
+  }
+  return { action: 'reencode' };
+};
+
+/**
+ * Output frame size: the longest side scaled down to maxDimension, never up, and both
+ * sides even since encoders require it
+ */
+export const planOutputDimensions = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(2, Math.round((width * scale) / 2) * 2),
+    height: Math.max(2, Math.round((height * scale) / 2) * 2),
+  };
+};
+
+/**
+ * Video bitrate for a re-encode: the preset's, or lower if that would make the output
+ * bigger than maxOutputBytes
+ * @param durationSeconds Length of the part being encoded
+ * @param audioBitsPerSecond 0 when the audio is dropped
+ */
+export const planVideoBitrate = ({ durationSeconds, presetBitsPerSecond, audioBitsPerSecond, maxOutputBytes }: {
+  durationSeconds: number;
+  presetBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  maxOutputBytes: number;
+}): number => {
+  if (!Number.isFinite(maxOutputBytes) || !(durationSeconds > 0)) {
+    return presetBitsPerSecond;
+  }
+  const budget = (maxOutputBytes * 8 * SIZE_BUDGET_MARGIN) / durationSeconds - audioBitsPerSecond;
+  return Math.round(Math.max(MIN_VIDEO_BITS_PER_SECOND, Math.min(presetBitsPerSecond, budget)));
+};
+
+/**
+ * Pick between the original and its re-encode
+ * @param compressedSize null when re-encoding failed
+ * @returns Which one to keep, or a reason neither will do
+ */
+export const chooseCompressionResult = ({ originalSize, compressedSize, maxOutputBytes }: {
+  originalSize: number;
+  compressedSize: number | null;
+  maxOutputBytes: number;
+}): { keep: 'original' | 'compressed' } | { reason: string } => {
+  const keep = compressedSize !== null && compressedSize < originalSize ? 'compressed' : 'original';
+  const size = keep === 'compressed' ? compressedSize! : originalSize;
+  if (size <= maxOutputBytes) {
+    return { keep };
+  }
+  if (compressedSize === null) {
+    return { reason: `it is ${formatMegabytes(originalSize)} and could not be compressed. The most that can be analyzed is ${formatMegabytes(maxOutputBytes)}.` };
+  }
+  return { reason: `it is still ${formatMegabytes(size)} after compression. The most that can be analyzed is ${formatMegabytes(maxOutputBytes)}; trim it to a shorter recording.` };
+};
@@ -1,56 +1,30 @@
 import { Capacitor } from '@capacitor/core';
 import { Filesystem, Directory } from '@capacitor/filesystem';
-
-const DB_NAME = 'AIWorkoutVideoDB';
-const DB_VERSION = 2; // Incremented to add thumbnails store
-const VIDEO_STORE_NAME = 'videos';
-const THUMBNAIL_STORE_NAME = 'thumbnails';
-
-let dbPromise: Promise<IDBDatabase> | null = null;
+import { isUnlocked, isEncryptedBlob, encryptBlob, decryptBlob } from './encryption';
+import { openDatabase, requestToPromise, transactionDone, VIDEO_STORE_NAME, THUMBNAIL_STORE_NAME } from './database';
 
 // Check if we're running on a native platform (iOS/Android)
 const isNativePlatform = Capacitor.isNativePlatform();
 
-const initDB = (): Promise<IDBDatabase> => {
-  if (dbPromise) {
-    return dbPromise;
-  }
-  dbPromise = new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => {
-      console.error('VideoStorage IndexedDB error:', request.error);
-      dbPromise = null;
-      reject('Error opening VideoStorage DB');
-    };
+export type MediaKind = 'video' | 'thumbnail';
 
-    request.onsuccess = () => {
-      const db = request.result;
-      db.onclose = () => {
-        console.warn('VideoStorage DB connection closed.');
-        dbPromise = null;
-      };
-      resolve(db);
-    };
+// Where each kind of media lives. On native, encrypted files use the .enc extension
+// so plaintext files can still be handed to the WebView by path.
+const MEDIA_LOCATIONS: Record<MediaKind, { store: string; directory: string; extension: string; mimeType: string }> = {
+  video: { store: VIDEO_STORE_NAME, directory: 'videos', extension: 'mp4', mimeType: 'video/mp4' },
+  thumbnail: { store: THUMBNAIL_STORE_NAME, directory: 'thumbnails', extension: 'jpg', mimeType: 'image/jpeg' },
+};
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(VIDEO_STORE_NAME)) {
-        db.createObjectStore(VIDEO_STORE_NAME);
-      }
-      if (!db.objectStoreNames.contains(THUMBNAIL_STORE_NAME)) {
-        db.createObjectStore(THUMBNAIL_STORE_NAME);
-      }
-    };
-  });
-  return dbPromise;
+const nativePath = (kind: MediaKind, key: string, encrypted: boolean): string => {
+  const location = MEDIA_LOCATIONS[kind];
+  return `${location.directory}/${key}.${encrypted ? 'enc' : location.extension}`;
 };
 
-// Helper function to convert File to base64
-const fileToBase64 = (file: File): Promise<string> => {
+// Helper function to convert a Blob to base64
+const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.readAsDataURL(file);
+    reader.readAsDataURL(blob);
     reader.onload = () => {
       const result = reader.result as string;
       // Remove the data URL prefix to get just the base64 data
@@ -61,37 +35,127 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const nativeFileExists = async (path: string): Promise<boolean> => {
+  try {
+    await Filesystem.stat({ path, directory: Directory.Data });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const readNativeFile = async (path: string, mimeType: string): Promise<Blob> => {
+  const { data } = await Filesystem.readFile({ path, directory: Directory.Data });
+  return typeof data === 'string' ? base64ToBlob(data, mimeType) : data;
+};
+
+const deleteNativeFile = async (path: string): Promise<void> => {
+  if (await nativeFileExists(path)) {
+    await Filesystem.deleteFile({ path, directory: Directory.Data });
+  }
+};
+
 /**
- * Saves a video file to IndexedDB with a specific key.
- * This is used by the restore process.
- * @param key The key to save the video under.
- * @param file The video file to save.
+ * Write a media blob, encrypting it when the user's data key is unlocked
  */
-export const saveVideoWithKey = async (key: string, file: File): Promise<void> => {
+const writeMedia = async (kind: MediaKind, key: string, blob: Blob, encrypt: boolean = isUnlocked()): Promise<void> => {
+  const stored = encrypt ? await encryptBlob(blob) : blob;
+
   if (isNativePlatform) {
-    // Save to native filesystem
-    const base64Data = await fileToBase64(file);
-    const fileName = `${key}.mp4`;
+    const path = nativePath(kind, key, encrypt);
     await Filesystem.writeFile({
-      path: `videos/${fileName}`,
-      data: base64Data,
+      path,
+      data: await blobToBase64(stored),
       directory: Directory.Data,
-      recursive: true, // Create videos directory if it doesn't exist
+      recursive: true, // Create the directory if it doesn't exist
     });
-    console.log(`Video saved to filesystem: videos/${fileName}`);
+    // Remove the copy in the other format so only one version of the file exists
+    await deleteNativeFile(nativePath(kind, key, !encrypt));
+    console.log(`${kind} saved to filesystem: ${path}`);
   } else {
-    // Save to IndexedDB for web
-    const db = await initDB();
-    const transaction = db.transaction(VIDEO_STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(VIDEO_STORE_NAME);
-    store.put(file, key);
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
-    });
+    const db = await openDatabase();
+    const transaction = db.transaction(MEDIA_LOCATIONS[kind].store, 'readwrite');
+    transaction.objectStore(MEDIA_LOCATIONS[kind].store).put(stored, key);
+    await transactionDone(transaction);
+  }
+};
+
+/**
+ * Read a media blob as stored, without decrypting it
+ */
+const readStoredMedia = async (kind: MediaKind, key: string): Promise<Blob | null> => {
+  if (isNativePlatform) {
+    const encryptedPath = nativePath(kind, key, true);
+    if (await nativeFileExists(encryptedPath)) {
+      return readNativeFile(encryptedPath, 'application/octet-stream');
+    }
+    const plainPath = nativePath(kind, key, false);
+    return (await nativeFileExists(plainPath)) ? readNativeFile(plainPath, MEDIA_LOCATIONS[kind].mimeType) : null;
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction(MEDIA_LOCATIONS[kind].store, 'readonly');
+  const result = await requestToPromise<Blob | undefined>(transaction.objectStore(MEDIA_LOCATIONS[kind].store).get(key));
+  return result || null;
+};
+
+const readMedia = async (kind: MediaKind, key: string): Promise<Blob | null> => {
+  const stored = await readStoredMedia(kind, key);
+  if (!stored) {
+    return null;
+  }
+  return (await isEncryptedBlob(stored)) ? decryptBlob(stored) : stored;
+};
+
+/**
+ * Read a video or thumbnail as a Blob on any platform, decrypting it if needed
+ * Unlike getVideo(), this also reads plaintext files on native, so use it for
+ * exports rather than playback.
+ */
+export const getMediaBlob = (kind: MediaKind, key: string): Promise<Blob | null> => readMedia(kind, key);
+
+/**
+ * Native path for a media file the WebView can load directly, or null if it
+ * has to be read (and decrypted) through getVideo/getThumbnail instead
+ */
+const getNativeMediaUrl = async (kind: MediaKind, key: string): Promise<string | null> => {
+  if (await nativeFileExists(nativePath(kind, key, true))) {
+    return null;
   }
+  const result = await Filesystem.getUri({
+    path: nativePath(kind, key, false),
+    directory: Directory.Data,
+  });
+  // Convert the native file URI to a WebView-compatible URL
+  return Capacitor.convertFileSrc(result.uri);
 };
 
+/**
+ * Saves a video file to IndexedDB with a specific key.
+ * This is used by the restore process.
+ * @param key The key to save the video under.
+ * @param file The video file to save.
+ */
+export const saveVideoWithKey = async (key: string, file: File): Promise<void> => {
+  await writeMedia('video', key, file);
+};
+
+/**
+ * Generates a new unique storage key for a video file.
+ * @param file The video file the key is for.
+ */
+export const createVideoKey = (file: File): string =>
+  `video-${Date.now()}-${file.name.replace(/[^a-zA-Z0-9]/g, '')}-${Math.random().toString(36).substring(2,9)}`;
+
 /**
  * Saves a video file, generates a new unique key for it, and returns the key.
  * This is used for new video uploads.
@@ -99,127 +163,148 @@ export const saveVideoWithKey = async (key: string, file: File): Promise<void> =
  * @returns The unique key assigned to the video.
  */
 export const saveVideo = async (file: File): Promise<string> => {
-  const key = `video-${Date.now()}-${file.name.replace(/[^a-zA-Z0-9]/g, '')}-${Math.random().toString(36).substring(2,9)}`;
+  const key = createVideoKey(file);
   await saveVideoWithKey(key, file);
   return key;
 };
 
 /**
  * Gets the native file path for a video (for native platforms)
- * Returns a URL that can be used directly in video src attribute
+ * Returns a URL that can be used directly in video src attribute,
+ * or null on web and for encrypted videos (use getVideo() instead)
  */
 export const getVideoPath = async (key: string): Promise<string | null> => {
-  if (isNativePlatform) {
-    try {
-      const fileName = `${key}.mp4`;
-      const result = await Filesystem.getUri({
-        path: `videos/${fileName}`,
-        directory: Directory.Data,
-      });
-      // Convert the native file URI to a WebView-compatible URL
-      return Capacitor.convertFileSrc(result.uri);
-    } catch (error) {
-      console.error(`Failed to get video path for ${key}:`, error);
-      return null;
-    }
-  } else {
-    // For web, we'll return null and fall back to getVideo()
+  if (!isNativePlatform) {
+    return null;
+  }
+  try {
+    return await getNativeMediaUrl('video', key);
+  } catch (error) {
+    console.error(`Failed to get video path for ${key}:`, error);
     return null;
   }
 };
 
 export const getVideo = async (key: string): Promise<File | null> => {
-  if (isNativePlatform) {
-    // For native, we don't return File objects - use getVideoPath() instead
+  if (isNativePlatform && !(await nativeFileExists(nativePath('video', key, true)))) {
+    // Plaintext native videos are played by path - use getVideoPath() instead
     console.warn('getVideo() called on native platform - use getVideoPath() instead');
     return null;
-  } else {
-    const db = await initDB();
-    const transaction = db.transaction(VIDEO_STORE_NAME, 'readonly');
-    const store = transaction.objectStore(VIDEO_STORE_NAME);
-    const request = store.get(key);
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => resolve(request.result || null);
-      request.onerror = () => reject(request.error);
-    });
   }
+  const blob = await readMedia('video', key);
+  if (!blob) {
+    return null;
+  }
+  return blob instanceof File ? blob : new File([blob], key, { type: blob.type });
 };
 
 /**
- * Save a thumbnail (Blob) with a specific key
+ * Delete a video or thumbnail in whatever form it is stored
  */
-export const saveThumbnail = async (key: string, thumbnail: Blob): Promise<void> => {
+const deleteMedia = async (kind: MediaKind, key: string): Promise<void> => {
   if (isNativePlatform) {
-    // Save to native filesystem
-    const reader = new FileReader();
-    const base64Data = await new Promise<string>((resolve, reject) => {
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(thumbnail);
-    });
-
-    const fileName = `${key}.jpg`;
-    await Filesystem.writeFile({
-      path: `thumbnails/${fileName}`,
-      data: base64Data,
-      directory: Directory.Data,
-      recursive: true,
-    });
-    console.log(`Thumbnail saved to filesystem: thumbnails/${fileName}`);
-  } else {
-    // Save to IndexedDB for web
-    const db = await initDB();
-    const transaction = db.transaction(THUMBNAIL_STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(THUMBNAIL_STORE_NAME);
-    store.put(thumbnail, key);
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
-    });
+    await deleteNativeFile(nativePath(kind, key, true));
+    await deleteNativeFile(nativePath(kind, key, false));
+    return;
   }
+  const db = await openDatabase();
+  const transaction = db.transaction(MEDIA_LOCATIONS[kind].store, 'readwrite');
+  transaction.objectStore(MEDIA_LOCATIONS[kind].store).delete(key);
+  await transactionDone(transaction);
+};
+
+/**
+ * Delete a video from this device
+ */
+export const deleteVideo = (key: string): Promise<void> => deleteMedia('video', key);
+
+/**
+ * Save a thumbnail (Blob) with a specific key
+ */
+export const saveThumbnail = async (key: string, thumbnail: Blob): Promise<void> => {
+  await writeMedia('thumbnail', key, thumbnail);
 };
 
 /**
- * Get thumbnail path (for native platforms) or Blob (for web)
+ * Get thumbnail path (for native platforms), or null on web and for encrypted thumbnails
  */
 export const getThumbnailPath = async (key: string): Promise<string | null> => {
-  if (isNativePlatform) {
-    try {
-      const fileName = `${key}.jpg`;
-      const result = await Filesystem.getUri({
-        path: `thumbnails/${fileName}`,
-        directory: Directory.Data,
-      });
-      return Capacitor.convertFileSrc(result.uri);
-    } catch (error) {
-      console.error(`Failed to get thumbnail path for ${key}:`, error);
-      return null;
-    }
-  } else {
+  if (!isNativePlatform) {
     // For web, return null - use getThumbnail() instead
     return null;
   }
+  try {
+    return await getNativeMediaUrl('thumbnail', key);
+  } catch (error) {
+    console.error(`Failed to get thumbnail path for ${key}:`, error);
+    return null;
+  }
 };
 
 /**
- * Get thumbnail Blob (for web platforms)
+ * Get thumbnail Blob (web, or encrypted thumbnails on native)
  */
 export const getThumbnail = async (key: string): Promise<Blob | null> => {
-  if (isNativePlatform) {
+  if (isNativePlatform && !(await nativeFileExists(nativePath('thumbnail', key, true)))) {
     console.warn('getThumbnail() called on native platform - use getThumbnailPath() instead');
     return null;
-  } else {
-    const db = await initDB();
-    const transaction = db.transaction(THUMBNAIL_STORE_NAME, 'readonly');
-    const store = transaction.objectStore(THUMBNAIL_STORE_NAME);
-    const request = store.get(key);
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => resolve(request.result || null);
-      request.onerror = () => reject(request.error);
-    });
   }
-};
\ No newline at end of file
+  return readMedia('thumbnail', key);
+};
+
+/**
+ * Delete a thumbnail from this device
+ */
+export const deleteThumbnail = (key: string): Promise<void> => deleteMedia('thumbnail', key);
+
+export interface StoredMediaFile {
+  kind: MediaKind;
+  key: string;
+  size: number; // Bytes on disk, including encryption overhead
+}
+
+/**
+ * Every video or thumbnail stored on this device, whoever it belongs to
+ */
+export const listStoredMedia = async (kind: MediaKind): Promise<StoredMediaFile[]> => {
+  const location = MEDIA_LOCATIONS[kind];
+  if (isNativePlatform) {
+    let files;
+    try {
+      ({ files } = await Filesystem.readdir({ path: location.directory, directory: Directory.Data }));
+    } catch {
+      return []; // Nothing saved yet, so the folder doesn't exist
+    }
+    return files
+      .filter(file => file.type === 'file')
+      .map(file => ({ kind, key: file.name.replace(/\.[^.]+$/, ''), size: file.size }));
+  }
+
+  // Both requests return records in key order. Blobs read from IndexedDB aren't loaded until used.
+  const db = await openDatabase();
+  const store = db.transaction(location.store, 'readonly').objectStore(location.store);
+  const [keys, blobs] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise<Blob[]>(store.getAll()),
+  ]);
+  return keys.map((key, index) => ({ kind, key: String(key), size: blobs[index].size }));
+};
+
+/**
+ * Re-write the videos and thumbnails stored under the given keys, encrypted or in plaintext
+ * Used when a user turns encryption on or off. Requires the data key to be unlocked.
+ * @param keys Storage keys belonging to the current user
+ * @param encrypt Whether the rewritten files should be encrypted
+ */
+export const rewriteMedia = async (keys: string[], encrypt: boolean): Promise<void> => {
+  for (const key of keys) {
+    for (const kind of Object.keys(MEDIA_LOCATIONS) as MediaKind[]) {
+      const stored = await readStoredMedia(kind, key);
+      if (!stored) continue;
+      const isEncrypted = await isEncryptedBlob(stored);
+      if (isEncrypted === encrypt) continue;
+      const plaintext = isEncrypted ? await decryptBlob(stored) : stored;
+      await writeMedia(kind, key, plaintext, encrypt);
+    }
+  }
+};
@@ -2,6 +2,20 @@
  * Video utility functions for compression, thumbnail generation, and hashing
  */
 
+import { sha256Blob } from './sha256';
+import { chooseCompressionResult, decideCompression, formatMegabytes, planOutputDimensions, planVideoBitrate } from './videoCompressionPlan';
+
+/**
+ * Thrown when a video can't be brought within the size that can be analyzed. It fails the
+ * same way every time, so callers shouldn't retry it.
+ */
+export class VideoTooLargeError extends Error {
+  constructor(fileName: string, reason: string) {
+    super(`${fileName} is too large to analyze: ${reason}`);
+    this.name = 'VideoTooLargeError';
+  }
+}
+
 /**
  * Generate a thumbnail from a video file
  * @param videoFile The video file to generate thumbnail from
@@ -66,61 +80,288 @@ export const generateThumbnail = async (
   });
 };
 
+// Recording formats to try, best first. Safari and recent Chrome record MP4; Firefox only WebM.
+const RECORDER_MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+const getRecorderMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement.prototype.captureStream !== 'function') {
+    return null;
+  }
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+/**
+ * Whether this browser can re-encode video (needed for compression)
+ */
+export const canReencodeVideo = (): boolean => getRecorderMimeType() !== null;
+
+interface ReencodeOptions {
+  startTime?: number;
+  endTime?: number;
+  maxDimension: number;
+  videoBitsPerSecond: number;
+  maxOutputBytes?: number; // Lowers the video bitrate so the output should fit
+  includeAudio: boolean;
+  audioBitsPerSecond?: number;
+  frameRate?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal; // Stops the re-encode part way through
+}
+
+const loadVideoElement = (videoFile: Blob): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.playsInline = true;
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error('Failed to load video for re-encoding'));
+    };
+    video.src = URL.createObjectURL(videoFile);
+  });
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise(resolve => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+};
+
+const cancelledError = () => new Error('Cancelled');
+
 /**
- * Compress a video file (simple implementation using canvas re-encoding)
- * Note: For better compression, consider using ffmpeg.wasm in the future
+ * Re-encode (part of) a video by playing it into a canvas and recording the canvas
+ * Runs in real time: a one-minute clip takes about a minute, unless options.signal
+ * stops it first.
+ */
+const reencodeVideo = async (videoFile: Blob, options: ReencodeOptions): Promise<Blob> => {
+  const mimeType = getRecorderMimeType();
+  if (!mimeType) {
+    throw new Error('This browser cannot re-encode video.');
+  }
+  if (options.signal?.aborted) throw cancelledError();
+
+  const video = await loadVideoElement(videoFile);
+  let audioContext: AudioContext | null = null;
+  let recorder: MediaRecorder | null = null;
+  try {
+    const duration = video.duration;
+    const start = Math.max(0, Math.min(options.startTime ?? 0, duration));
+    const end = Math.max(start, Math.min(options.endTime ?? duration, duration));
+
+    const canvas = document.createElement('canvas');
+    const dimensions = planOutputDimensions(video.videoWidth, video.videoHeight, options.maxDimension);
+    canvas.width = dimensions.width;
+    canvas.height = dimensions.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+
+    const stream = canvas.captureStream(options.frameRate ?? 30);
+    if (options.includeAudio) {
+      // Route the sound into the recording only, so nothing plays out loud
+      audioContext = new AudioContext();
+      const destination = audioContext.createMediaStreamDestination();
+      audioContext.createMediaElementSource(video).connect(destination);
+      destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+      await audioContext.resume();
+    } else {
+      video.muted = true;
+    }
+
+    const audioBitsPerSecond = options.includeAudio ? options.audioBitsPerSecond ?? 96000 : 0;
+    recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: planVideoBitrate({
+        durationSeconds: end - start,
+        presetBitsPerSecond: options.videoBitsPerSecond,
+        audioBitsPerSecond,
+        maxOutputBytes: options.maxOutputBytes ?? Number.POSITIVE_INFINITY,
+      }),
+      audioBitsPerSecond: options.includeAudio ? audioBitsPerSecond : undefined,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data);
+      }
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder!.onstop = () => resolve();
+    });
+
+    await seekTo(video, start);
+    if (options.signal?.aborted) throw cancelledError();
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    recorder.start(1000);
+    await video.play();
+
+    await new Promise<void>((resolve, reject) => {
+      let isFinished = false;
+      const finish = (error?: Error) => {
+        isFinished = true;
+        options.signal?.removeEventListener('abort', onAbort);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onAbort = () => {
+        video.pause();
+        finish(cancelledError());
+      };
+      options.signal?.addEventListener('abort', onAbort);
+
+      const drawFrame = () => {
+        if (isFinished) return;
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        options.onProgress?.(end > start ? Math.min(1, (video.currentTime - start) / (end - start)) : 1);
+        if (video.ended || video.currentTime >= end) {
+          finish();
+        } else if ('requestVideoFrameCallback' in video) {
+          video.requestVideoFrameCallback(drawFrame);
+        } else {
+          requestAnimationFrame(drawFrame);
+        }
+      };
+      video.onended = () => finish();
+      video.onerror = () => finish(new Error('The video stopped playing while it was being re-encoded'));
+      drawFrame();
+    });
+
+    video.pause();
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    // Stop anything a failure or cancellation left running
+    video.pause();
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+    audioContext?.close();
+  }
+};
+
+/**
+ * Re-encode, dropping the audio if the browser won't play the video with sound
+ * (playback with sound that wasn't started by a tap can be blocked)
+ */
+const reencodeWithSoundFallback = async (videoFile: Blob, options: ReencodeOptions): Promise<Blob> => {
+  try {
+    return await reencodeVideo(videoFile, options);
+  } catch (error) {
+    if (!(options.includeAudio && error instanceof DOMException && error.name === 'NotAllowedError')) throw error;
+    console.warn('Playback with sound was blocked; re-encoding without audio');
+    return reencodeVideo(videoFile, { ...options, includeAudio: false });
+  }
+};
+
+const withExtension = (fileName: string, mimeType: string, suffix: string = '') =>
+  `${fileName.replace(/\.[^.]+$/, '')}${suffix}.${mimeType === 'video/mp4' ? 'mp4' : 'webm'}`;
+
+export interface CompressionOptions {
+  maxDimension?: number; // Longest side of the output, in pixels
+  videoBitsPerSecond?: number;
+  includeAudio?: boolean;
+  skipBelowBytes?: number; // Files this small are kept as they are
+  maxOutputBytes?: number; // Fail rather than return anything bigger
+  onProgress?: (fraction: number) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_COMPRESSION_OPTIONS = {
+  maxDimension: 1280,
+  videoBitsPerSecond: 2500000,
+  includeAudio: true,
+  skipBelowBytes: 50 * 1024 * 1024,
+  maxOutputBytes: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Compress a video by downscaling and re-encoding it at a lower bitrate
+ * Small files, browsers that can't record video, and re-encodes that come out
+ * no smaller all keep the original, so this never makes things worse, as long as
+ * the original is within maxOutputBytes.
  * @param videoFile The video file to compress
- * @param quality Quality factor (0.1 to 1.0)
- * @returns Compressed video file
+ * @returns The compressed video, or the original
+ * @throws VideoTooLargeError if neither is within maxOutputBytes
  */
 export const compressVideo = async (
   videoFile: File,
-  quality: number = 0.7
+  options: CompressionOptions = {}
 ): Promise<File> => {
-  // For now, we'll implement a simple check:
-  // If video is already small enough (< 50MB), don't compress
-  const maxSize = 50 * 1024 * 1024; // 50MB
+  const { maxDimension, videoBitsPerSecond, includeAudio, skipBelowBytes, maxOutputBytes, onProgress, signal } = { ...DEFAULT_COMPRESSION_OPTIONS, ...options };
 
-  if (videoFile.size <= maxSize) {
-    console.log(`Video ${videoFile.name} is already small enough (${(videoFile.size / 1024 / 1024).toFixed(2)}MB), skipping compression`);
+  const decision = decideCompression({ fileSize: videoFile.size, skipBelowBytes, maxOutputBytes, canReencode: canReencodeVideo() });
+  if (decision.action === 'reject') {
+    throw new VideoTooLargeError(videoFile.name, decision.reason);
+  }
+  if (decision.action === 'keep') {
+    console.log(`Keeping ${videoFile.name} (${formatMegabytes(videoFile.size)}) as it is`);
     return videoFile;
   }
 
-  console.log(`Video ${videoFile.name} is ${(videoFile.size / 1024 / 1024).toFixed(2)}MB, compression would be applied here`);
+  let compressed: Blob | null = null;
+  try {
+    compressed = await reencodeWithSoundFallback(videoFile, { maxDimension, videoBitsPerSecond, maxOutputBytes, includeAudio, onProgress, signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`Failed to compress ${videoFile.name}:`, error);
+  }
 
-  // TODO: Implement actual video compression using ffmpeg.wasm or MediaRecorder API
-  // For now, return the original file
-  // This is a placeholder that you can enhance later with actual compression
-  return videoFile;
+  const result = chooseCompressionResult({ originalSize: videoFile.size, compressedSize: compressed?.size ?? null, maxOutputBytes });
+  if ('reason' in result) {
+    throw new VideoTooLargeError(videoFile.name, result.reason);
+  }
+  if (result.keep === 'original' || !compressed) {
+    console.log(`Compressing ${videoFile.name} didn't make it smaller; keeping the original`);
+    return videoFile;
+  }
+  console.log(`Compressed ${videoFile.name} from ${formatMegabytes(videoFile.size)} to ${formatMegabytes(compressed.size)}`);
+  return new File([compressed], withExtension(videoFile.name, compressed.type), {
+    type: compressed.type,
+    lastModified: videoFile.lastModified,
+  });
 };
 
 /**
- * Generate a hash of a video file for caching purposes
- * Uses a simple approach: hash based on file size, name, and first chunk
+ * Hash a video's full contents, for AI cache lookups and spotting duplicate uploads
+ * Only the bytes count, not the name or dates, so the same video renamed or shared
+ * from another app hashes the same. The file is streamed rather than read into memory.
  * @param file The video file
- * @returns Hash string
+ * @param onProgress Called with the fraction hashed so far (0 to 1)
+ * @returns Hex SHA-256 of the file
  */
-export const generateVideoHash = async (file: File): Promise<string> => {
-  // Read first 64KB of the file for hashing
-  const chunkSize = 64 * 1024;
-  const chunk = file.slice(0, Math.min(chunkSize, file.size));
-
-  const arrayBuffer = await chunk.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest('SHA-256', arrayBuffer);
-
-  // Convert to hex string
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-  // Combine with file metadata for better uniqueness
-  const metadata = `${file.name}-${file.size}-${file.lastModified}`;
-  const combined = `${hashHex}-${metadata}`;
-
-  return combined;
+export const generateVideoHash = async (file: Blob, onProgress?: (fraction: number) => void): Promise<string> => {
+  let hashedBytes = 0;
+  return sha256Blob(file, bytes => {
+    hashedBytes += bytes;
+    onProgress?.(file.size > 0 ? hashedBytes / file.size : 1);
+  });
 };
 
+export interface TrimOptions {
+  maxDimension?: number; // Longest side of the output, in pixels; the source size by default
+  videoBitsPerSecond?: number;
+  includeAudio?: boolean;
+  onProgress?: (fraction: number) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
 /**
- * Trim a video file to a specific time range
+ * Cut a time range out of a video into its own file
+ * Re-encodes in real time, so it takes as long as the clip is.
  * @param videoFile The video file to trim
  * @param startTime Start time in seconds
  * @param endTime End time in seconds
@@ -129,90 +370,20 @@ export const generateVideoHash = async (file: File): Promise<string> => {
 export const trimVideo = async (
   videoFile: File,
   startTime: number,
-  endTime: number
+  endTime: number,
+  options: TrimOptions = {}
 ): Promise<File> => {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.preload = 'metadata';
-    video.muted = true;
-    video.playsInline = true;
-
-    video.onloadedmetadata = async () => {
-      try {
-        // Validate times
-        const duration = video.duration;
-        const validStart = Math.max(0, Math.min(startTime, duration));
-        const validEnd = Math.max(validStart, Math.min(endTime, duration));
-
-        // Use MediaRecorder to capture the trimmed portion
-        const canvas = document.createElement('canvas');
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        const ctx = canvas.getContext('2d');
-
-        if (!ctx) {
-          reject(new Error('Could not get canvas context'));
-          return;
-        }
-
-        // Create a stream from canvas
-        const stream = canvas.captureStream(30); // 30 fps
-        const mediaRecorder = new MediaRecorder(stream, {
-          mimeType: 'video/webm;codecs=vp9',
-          videoBitsPerSecond: 2500000, // 2.5 Mbps
-        });
-
-        const chunks: Blob[] = [];
-
-        mediaRecorder.ondataavailable = (e) => {
-          if (e.data.size > 0) {
-            chunks.push(e.data);
-          }
-        };
-
-        mediaRecorder.onstop = () => {
-          const blob = new Blob(chunks, { type: 'video/webm' });
-          const trimmedFile = new File(
-            [blob],
-            `trimmed_${videoFile.name}`,
-            { type: 'video/webm' }
-          );
-          URL.revokeObjectURL(video.src);
-          resolve(trimmedFile);
-        };
-
-        // Start recording
-        mediaRecorder.start();
-        video.currentTime = validStart;
-
-        // Draw frames
-        const drawFrame = () => {
-          if (video.currentTime < validEnd) {
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-            requestAnimationFrame(drawFrame);
-          } else {
-            mediaRecorder.stop();
-            video.pause();
-          }
-        };
-
-        video.onseeked = () => {
-          video.play();
-          drawFrame();
-        };
-      } catch (error) {
-        URL.revokeObjectURL(video.src);
-        reject(error);
-      }
-    };
-
-    video.onerror = () => {
-      URL.revokeObjectURL(video.src);
-      reject(new Error('Failed to load video for trimming'));
-    };
-
-    video.src = URL.createObjectURL(videoFile);
+  const clip = await reencodeWithSoundFallback(videoFile, {
+    startTime,
+    endTime,
+    maxDimension: options.maxDimension ?? Number.POSITIVE_INFINITY,
+    videoBitsPerSecond: options.videoBitsPerSecond ?? DEFAULT_COMPRESSION_OPTIONS.videoBitsPerSecond,
+    includeAudio: options.includeAudio ?? DEFAULT_COMPRESSION_OPTIONS.includeAudio,
+    onProgress: options.onProgress,
+    signal: options.signal,
   });
+  const suffix = `_${Math.round(startTime)}-${Math.round(endTime)}s`;
+  return new File([clip], withExtension(videoFile.name, clip.type, suffix), { type: clip.type });
 };
 
 /**
@@ -0,0 +1,54 @@
+/**
+ * Helpers for reading past performance out of logged workout sessions
+ */
+
+import { WorkoutLog, LoggedExercise, LoggedSet } from '../types';
+
+/**
+ * Find the most recent logged session that contains completed sets for an exercise
+ * @param logs All workout logs for the user
+ * @param originalExerciseId The library exercise ID to look up
+ * @param includeDeload Whether sessions logged during a deload week count
+ * @returns The logged exercise from the latest session, or null if it was never performed
+ */
+export const findLastPerformance = (
+  logs: WorkoutLog[],
+  originalExerciseId: string,
+  includeDeload: boolean = true
+): LoggedExercise | null => {
+  const sortedLogs = logs
+    .filter(log => includeDeload || !log.deload)
+    .sort((a, b) => new Date(b.finishedAt).getTime() - new Date(a.finishedAt).getTime());
+
+  for (const log of sortedLogs) {
+    const match = log.exercises.find(ex =>
+      ex.originalExerciseId === originalExerciseId && ex.sets.some(set => !set.skipped)
+    );
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+};
+
+/**
+ * Get the values to pre-fill for a given set, based on the previous session
+ * Falls back to the last completed set when the previous session had fewer sets.
+ * @param logs All workout logs for the user
+ * @param originalExerciseId The library exercise ID
+ * @param setNumber 1-based set number
+ * @returns The matching completed set from last time, or null
+ */
+export const findPreviousSet = (
+  logs: WorkoutLog[],
+  originalExerciseId: string,
+  setNumber: number
+): LoggedSet | null => {
+  const last = findLastPerformance(logs, originalExerciseId);
+  if (!last) {
+    return null;
+  }
+
+  const completedSets = last.sets.filter(set => !set.skipped);
+  return completedSets.find(set => set.setNumber === setNumber) || completedSets[completedSets.length - 1] || null;
+};
@@ -0,0 +1,259 @@
+/**
+ * Minimal streaming ZIP support (stored entries, no compression)
+ * Videos are already compressed, so storing them as-is keeps backups fast and
+ * lets the writer emit each file as it is read instead of buffering the archive.
+ * Archives open in any standard unzip tool.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_BYTES = 30;
+const CENTRAL_HEADER_BYTES = 46;
+const END_OF_CENTRAL_DIRECTORY_BYTES = 22;
+const MAX_COMMENT_BYTES = 0xffff;
+const ZIP32_LIMIT = 0xffffffff;
+
+const VERSION = 20; // 2.0: the minimum that supports data descriptors
+const FLAGS = 0x0808; // Bit 3: sizes and CRC follow the data; bit 11: UTF-8 names
+const METHOD_STORED = 0;
+
+export interface ZipInputFile {
+  name: string;
+  data: Blob;
+}
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  crc32: number;
+  dataOffset: number; // Where the file's bytes start inside the archive
+}
+
+// --- CRC-32 ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const updateCrc32 = (crc: number, data: Uint8Array): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// --- Writing ---
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+interface WrittenEntry {
+  nameBytes: Uint8Array;
+  crc32: number;
+  size: number;
+  headerOffset: number;
+}
+
+async function* generateZip(
+  files: AsyncIterable<ZipInputFile>,
+  onData?: (file: ZipInputFile, chunk: Uint8Array) => void
+): AsyncGenerator<Uint8Array> {
+  const written: WrittenEntry[] = [];
+  const { time, date } = toDosDateTime(new Date());
+  let offset = 0;
+
+  const checkSize = () => {
+    if (offset > ZIP32_LIMIT) {
+      throw new Error('Backups larger than 4 GB are not supported yet.');
+    }
+  };
+
+  for await (const file of files) {
+    const nameBytes = new TextEncoder().encode(file.name);
+    const header = new Uint8Array(LOCAL_HEADER_BYTES + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, FLAGS, true);
+    view.setUint16(8, METHOD_STORED, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    // CRC and sizes (14-25) are left zero; the data descriptor carries them
+    view.setUint16(26, nameBytes.length, true);
+    header.set(nameBytes, LOCAL_HEADER_BYTES);
+
+    const headerOffset = offset;
+    offset += header.length;
+    yield header;
+
+    let crc32 = 0;
+    let size = 0;
+    const reader = file.data.stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      crc32 = updateCrc32(crc32, value);
+      size += value.length;
+      onData?.(file, value);
+      yield value;
+    }
+    offset += size;
+
+    const descriptor = new Uint8Array(16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptorView.setUint32(4, crc32, true);
+    descriptorView.setUint32(8, size, true);
+    descriptorView.setUint32(12, size, true);
+    offset += descriptor.length;
+    checkSize();
+    yield descriptor;
+
+    written.push({ nameBytes, crc32, size, headerOffset });
+  }
+
+  const centralDirectoryOffset = offset;
+  for (const entry of written) {
+    const record = new Uint8Array(CENTRAL_HEADER_BYTES + entry.nameBytes.length);
+    const view = new DataView(record.buffer);
+    view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, VERSION, true);
+    view.setUint16(8, FLAGS, true);
+    view.setUint16(10, METHOD_STORED, true);
+    view.setUint16(12, time, true);
+    view.setUint16(14, date, true);
+    view.setUint32(16, entry.crc32, true);
+    view.setUint32(20, entry.size, true);
+    view.setUint32(24, entry.size, true);
+    view.setUint16(28, entry.nameBytes.length, true);
+    view.setUint32(42, entry.headerOffset, true);
+    record.set(entry.nameBytes, CENTRAL_HEADER_BYTES);
+    offset += record.length;
+    yield record;
+  }
+
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_BYTES);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, written.length, true);
+  endView.setUint16(10, written.length, true);
+  endView.setUint32(12, offset - centralDirectoryOffset, true);
+  endView.setUint32(16, centralDirectoryOffset, true);
+  yield end;
+}
+
+/**
+ * Stream a ZIP archive of the given files
+ * Files are pulled from the iterable one at a time, only as the consumer reads.
+ * @param onData Called with every chunk of file data written, e.g. for hashing or progress
+ */
+export const createZipStream = (
+  files: AsyncIterable<ZipInputFile>,
+  onData?: (file: ZipInputFile, chunk: Uint8Array) => void
+): ReadableStream<Uint8Array> => {
+  const generator = generateZip(files, onData);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await generator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await generator.return(undefined);
+    },
+  });
+};
+
+// --- Reading ---
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const invalid = () => new Error('This file is not a valid backup archive.');
+
+const parseZipEntries = async (archive: Blob): Promise<ZipEntry[]> => {
+  // The end-of-central-directory record sits at the very end, before an optional comment
+  const tailStart = Math.max(0, archive.size - END_OF_CENTRAL_DIRECTORY_BYTES - MAX_COMMENT_BYTES);
+  const tail = await readBytes(archive, tailStart, archive.size);
+  let endOffset = -1;
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_BYTES; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw invalid();
+
+  const entryCount = tail.getUint16(endOffset + 10, true);
+  const directorySize = tail.getUint32(endOffset + 12, true);
+  const directoryOffset = tail.getUint32(endOffset + 16, true);
+  const directory = await readBytes(archive, directoryOffset, directoryOffset + directorySize);
+
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) throw invalid();
+    if (directory.getUint16(position + 10, true) !== METHOD_STORED) {
+      throw new Error('This backup uses compression, which is not supported. Use a backup created by the app.');
+    }
+    const crc32 = directory.getUint32(position + 16, true);
+    const size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const headerOffset = directory.getUint32(position + 42, true);
+    const nameStart = directory.byteOffset + position + CENTRAL_HEADER_BYTES;
+    const name = new TextDecoder().decode(new Uint8Array(directory.buffer, nameStart, nameLength));
+
+    // The local header's name and extra field lengths can differ from the central directory's
+    const localHeader = await readBytes(archive, headerOffset, headerOffset + LOCAL_HEADER_BYTES);
+    if (localHeader.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) throw invalid();
+    const dataOffset = headerOffset + LOCAL_HEADER_BYTES + localHeader.getUint16(26, true) + localHeader.getUint16(28, true);
+
+    entries.push({ name, size, crc32, dataOffset });
+    position += CENTRAL_HEADER_BYTES + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+/**
+ * List the entries of a ZIP archive from its central directory
+ * Only reads the directory and each entry's header, never the file contents.
+ */
+export const readZipEntries = async (archive: Blob): Promise<ZipEntry[]> => {
+  try {
+    return await parseZipEntries(archive);
+  } catch (error) {
+    // Offsets in a truncated or malformed archive point past the bytes that were read
+    if (error instanceof RangeError) throw invalid();
+    throw error;
+  }
+};
+
+/**
+ * The bytes of one entry, as a lazy slice of the archive
+ */
+export const getZipEntryData = (archive: Blob, entry: ZipEntry, type: string = ''): Blob =>
+  archive.slice(entry.dataOffset, entry.dataOffset + entry.size, type);
@@ -15,14 +15,32 @@ export interface Exercise {
   equipment?: string; // e.g., "Barbell", "Dumbbells", "Bodyweight"
   difficulty?: 'Beginner' | 'Intermediate' | 'Advanced';
   videoHash?: string; // Hash of video for AI cache lookup
+  alternateAngles?: AlternateAngle[]; // Other recordings of the same exercise
 }
 
+/**
+ * A recording attached to an existing exercise instead of being analyzed again
+ * Plays in full unless it has its own time range.
+ */
+export interface AlternateAngle {
+  videoStorageKey: string;
+  startTime?: number; // Seconds into this recording, not the exercise's main video
+  endTime?: number;
+}
+
+export type LoadUnit = 'kg' | 'lb';
+
 export interface PlannedExercise {
   originalExerciseId: string; 
   name: string; 
   sets?: string; 
   reps?: string; 
   rest?: string; 
+  targetLoad?: number; // Set by the progression engine from logged performance
+  loadUnit?: LoadUnit;
+  // Pre-deload prescription, only present during a deload week so it can be restored afterwards
+  workingSets?: string;
+  workingLoad?: number;
   // description?: string; // REMOVED as per user request
 }
 
@@ -41,6 +59,39 @@ export interface WorkoutPlan {
   cooldownRecommendation?: string; 
   progressionTips?: string; 
   weeklyPlan: WorkoutDay[];
+  progression?: ProgressionSettings;
+}
+
+/**
+ * One week of a multi-week program (mesocycle).
+ */
+export interface ProgramWeek {
+  week: number; // 1-based
+  phase: string; // e.g. "Accumulation", "Intensification", "Deload"
+  isDeload?: boolean;
+  notes?: string;
+  weeklyPlan: WorkoutDay[];
+}
+
+/**
+ * A multi-week block. It is a WorkoutPlan whose weeklyPlan mirrors the first week,
+ * so everything that works with a single week keeps working with a program.
+ */
+export interface Program extends WorkoutPlan {
+  weeks: ProgramWeek[];
+}
+
+export type ProgressionRule = 'double-progression' | 'linear-load';
+
+/**
+ * Per-plan settings for the offline progression engine (services/progression.ts).
+ */
+export interface ProgressionSettings {
+  rule: ProgressionRule;
+  loadIncrement: number; // Added to the working load when the rule's criteria are met
+  deloadEveryWeeks?: number; // e.g. 4 makes every 4th week a deload; unset disables deloads
+  week: number; // 1-based week the plan's targets are for
+  isDeloadWeek?: boolean;
 }
 
 // New type for saved workout plans
@@ -49,33 +100,145 @@ export interface SavedWorkoutPlanEntry {
   name: string; // User-defined or auto-generated name for the plan
   plan: WorkoutPlan; // The actual workout plan object
   savedAt: string; // ISO string date when the plan was saved
+  schedule?: PlanSchedule; // Present only on the plan that is currently active on the calendar
+}
+
+/**
+ * A training day of a saved plan pinned to a calendar date.
+ */
+export interface ScheduledWorkout {
+  date: string; // Local calendar date, YYYY-MM-DD
+  weekIndex: number; // 0-based week of a program; always 0 for single-week plans
+  dayIndex: number; // Index into that week's weeklyPlan
+  completedLogId?: string; // WorkoutLog.id once the session has been done
+}
+
+export interface PlanSchedule {
+  startDate: string; // YYYY-MM-DD the plan's first day falls on
+  activatedAt: string; // ISO string
+  workouts: ScheduledWorkout[]; // Training days only, rest days are not scheduled
 }
 
 // New type for the interactive workout session
 export interface WorkoutSession {
   plan: WorkoutPlan;
   day: WorkoutDay;
+  scheduled?: { planEntryId: string; date: string }; // Set when started from the calendar
+}
+
+/**
+ * A single set as it was actually performed (or skipped) during a session.
+ */
+export interface LoggedSet {
+  setNumber: number; // 1-based
+  reps?: number;
+  load?: number;
+  loadUnit?: LoadUnit;
+  rpe?: number; // Rate of perceived exertion, 1-10
+  completedAt?: string; // ISO string, absent for skipped sets
+  skipped: boolean;
+}
+
+export interface LoggedExercise {
+  originalExerciseId: string;
+  name: string;
+  plannedSets?: string;
+  plannedReps?: string;
+  sets: LoggedSet[];
+}
+
+/**
+ * Persistent record of a completed interactive workout session.
+ */
+export interface WorkoutLog {
+  id: string;
+  planTitle: string;
+  day: string; // WorkoutDay.day the session was started from
+  focus?: string;
+  startedAt: string; // ISO string
+  finishedAt: string; // ISO string
+  deload?: boolean; // Deload sessions are ignored when computing progression
+  exercises: LoggedExercise[];
 }
 
 /**
  * Defines the structure for a complete user data backup, including videos.
- * This is used for the export/import functionality.
+ * This is the legacy single-JSON format; new backups are ZIP archives described by BackupManifest.
  */
 export interface FullUserDataBackup {
   exercises: Exercise[];
   savedPlans: SavedWorkoutPlanEntry[];
+  workoutLogs?: WorkoutLog[]; // Optional so backups made before history existed still restore
   // Videos are stored as a record mapping the storage key to the base64 data and mime type.
   videos?: Record<string, { mimeType: string; data: string }>;
 }
 
+/**
+ * One file inside a backup archive
+ */
+export interface BackupManifestFile {
+  path: string; // Path inside the archive, e.g. "videos/<key>"
+  kind: 'data' | 'video' | 'thumbnail';
+  key?: string; // Storage key for videos and thumbnails
+  mimeType?: string;
+  size: number;
+  sha256: string; // hex
+}
+
+/**
+ * manifest.json of a backup archive: lists every file with its checksum
+ * so a restore can verify the whole archive before changing anything.
+ */
+export interface BackupManifest {
+  format: 'ai-workout-backup';
+  version: number;
+  createdAt: string;
+  counts: {
+    exercises: number;
+    plans: number;
+    logs: number;
+    videos: number;
+    thumbnails: number;
+  };
+  files: BackupManifestFile[];
+}
+
+export interface BackupProgress {
+  stage: 'exporting' | 'verifying' | 'restoring';
+  completedFiles: number;
+  totalFiles: number;
+  processedBytes: number;
+  currentFile?: string;
+}
+
+export type AICacheKind = 'analysis' | 'plan' | 'tip';
+
 /**
  * AI response cache entry
  */
 export interface AICacheEntry {
-  videoHash: string;
-  analysisResult: any; // The parsed AI response
-  timestamp: string;
-  modelUsed: string; // 'pro' or 'flash'
+  key: string;
+  kind: AICacheKind;
+  value: unknown; // The parsed AI response, encrypted if the user who cached it had encryption on
+  modelUsed: string;
+  size: number; // Bytes of the stored value
+  createdAt: number; // epoch ms
+  lastUsedAt: number; // epoch ms, for least-recently-used eviction
+}
+
+/**
+ * Stages of the video analysis pipeline, in order
+ */
+export type AnalysisStage = 'hash' | 'compress' | 'store' | 'thumbnail' | 'analyze' | 'trim' | 'save';
+
+/**
+ * How far an upload's analysis got, saved after every stage so it can resume after a restart
+ */
+export interface AnalysisCheckpoint {
+  completedStage?: AnalysisStage;
+  videoHash?: string;
+  videoStorageKey?: string; // Chosen before the video is written, so an interrupted write is retried under the same key
+  exercises?: Exercise[]; // Found by the analysis, waiting to be saved
 }
 
 /**
@@ -84,9 +247,14 @@ export interface AICacheEntry {
 export interface UploadQueueItem {
   id: string;
   file: File;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number; // 0-100
+  stage?: string; // What the item is doing right now, e.g. "Analyzing"
   error?: string;
   retryCount: number;
   useProModel: boolean;
+  reanalyze?: boolean; // Ignore a cached analysis of the same video
+  createdAt: string;
+  exerciseCount?: number; // New exercises found, once completed
+  checkpoint?: AnalysisCheckpoint;
 }
\ No newline at end of file
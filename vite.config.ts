@@ -11,8 +11,9 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Anything defined here ships in the app, so the Gemini key is only built into
+        // development builds. Released apps reach Gemini through server/aiProxy.js.
+        'process.env.API_KEY': JSON.stringify(mode === 'development' ? env.GEMINI_API_KEY ?? '' : ''),
       },
       resolve: {
         alias: {